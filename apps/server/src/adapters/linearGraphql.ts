@@ -1,15 +1,97 @@
+import { randomUUID } from "node:crypto";
 import type { AppConfig } from "../config";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("LinearGraphqlClient");
+
+type GraphQlError = { message: string; extensions?: { code?: string; type?: string } };
+type GraphQlResponse<T> = { data?: T; errors?: GraphQlError[] };
+
+// ─── Errors & Retry ───
+
+/** Retries after the first attempt for retryable failures */
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 500;
+/** Longest we'll sleep inside a call; longer waits surface as an error instead */
+const MAX_RETRY_DELAY_MS = 30_000;
+/** Linear allows 1,500 requests/hour per API key; leave headroom for other clients on the same key */
+const DEFAULT_REQUEST_BUDGET_PER_HOUR = 1200;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type LinearErrorCode =
+  | "not_configured"
+  | "timeout"
+  | "cancelled"
+  | "network"
+  | "rate_limited"
+  | "budget_exhausted"
+  | "complexity"
+  | "server"
+  | "auth"
+  | "bad_request"
+  | "graphql"
+  | "empty_response";
+
+/**
+ * Failure talking to Linear. `retryable` says whether the same request may succeed
+ * later (rate limits, timeouts, 5xx); permanent failures (auth, invalid or too
+ * complex queries, validation errors) should not be retried as-is.
+ */
+export class LinearApiError extends Error {
+  readonly name = "LinearApiError";
+
+  constructor(
+    message: string,
+    readonly code: LinearErrorCode,
+    readonly retryable: boolean,
+    readonly status?: number,
+    /** Server-suggested wait before retrying, when known */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+  }
+}
 
-type GraphQlResponse<T> = { data?: T; errors?: Array<{ message: string }> };
+/** Full-jitter exponential backoff, never shorter than the server-requested wait */
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  const jittered = Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/** Resolves after `ms`, or early once `signal` aborts */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyGraphqlErrors(errors: GraphQlError[], status?: number): LinearApiError {
+  const message = `Linear GQL: ${errors.map(e => e.message).join("; ")}`;
+  const codes = errors.map(e => (e.extensions?.code ?? "").toUpperCase());
+  if (codes.includes("RATELIMITED")) return new LinearApiError(message, "rate_limited", true, status);
+  if (errors.some(e => /complex/i.test(e.message))) return new LinearApiError(message, "complexity", false, status);
+  if (codes.includes("AUTHENTICATION_ERROR") || codes.includes("FORBIDDEN")) return new LinearApiError(message, "auth", false, status);
+  return new LinearApiError(message, "graphql", false, status);
+}
 
 const unwrapConnection = <T>(input: { nodes?: T[] } | undefined): T[] =>
   input?.nodes && Array.isArray(input.nodes) ? input.nodes : [];
 
+const ISSUE_FIELDS = "id identifier title description url createdAt updatedAt completedAt estimate priority state{id name type}assignee{id name}labels{nodes{name}}project{id name}cycle{id name}team{id key}";
+
 export type LinearStatus = { id: string; name: string; type: string };
 export type LinearUser = { id: string; name: string; email?: string; avatarUrl?: string };
 export type LinearCycle = {
   id: string; name: string; number: number; startsAt: string; endsAt: string;
-  completedScopeCount: number; scopeCount: number; progress: number;
+  completedScopeCount: number; scopeCount: number; progress: number; updatedAt: string;
+  teamId: string; teamKey: string;
 };
 export type LinearIssue = {
   id: string; identifier: string; title: string; description?: string; url: string;
@@ -20,15 +102,61 @@ export type LinearIssue = {
   cycleId?: string; cycleName?: string;
 };
 
+/** Rate-limit and lookup state, shared by a client and its signal-scoped views */
+type ClientState = {
+  /** Request start times within the last hour, for the per-client budget */
+  requestLog: number[];
+  /** Set from rate-limit headers once Linear reports an exhausted allowance */
+  pausedUntil: number;
+  teamIds: Map<string, string>;
+};
+
 export class LinearGraphqlClient {
-  constructor(private readonly cfg: AppConfig) {}
+  constructor(
+    private readonly cfg: AppConfig,
+    private readonly options: { requestBudgetPerHour?: number } = {},
+    private readonly state: ClientState = { requestLog: [], pausedUntil: 0, teamIds: new Map() },
+    private readonly signal?: AbortSignal,
+  ) {}
+
+  /** A view of this client whose requests are also aborted by `signal`; budget and rate-limit state stay shared */
+  withSignal(signal: AbortSignal | undefined): LinearGraphqlClient {
+    if (!signal) return this;
+    return new LinearGraphqlClient(this.cfg, this.options, this.state, signal);
+  }
 
   get hasKey(): boolean {
     return Boolean(this.cfg.linearApiKey);
   }
 
+  /**
+   * Run a GraphQL request, retrying retryable failures with exponential backoff and
+   * jitter. Mutations are retried only when they were rate limited, never after an
+   * ambiguous failure. Waits out Linear's advertised rate-limit reset when it is
+   * short, and throws a LinearApiError otherwise.
+   */
   private async query<TData>(query: string, variables: Record<string, unknown>): Promise<TData> {
-    if (!this.cfg.linearApiKey) throw new Error("LINEAR_API_KEY is not configured");
+    if (!this.cfg.linearApiKey) throw new LinearApiError("LINEAR_API_KEY is not configured", "not_configured", false);
+    const isMutation = query.trimStart().startsWith("mutation");
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.throwIfCancelled();
+        await this.waitForRateLimit();
+        this.consumeBudget();
+        return await this.send<TData>(query, variables);
+      } catch (error) {
+        if (!(error instanceof LinearApiError) || !error.retryable || attempt >= MAX_RETRIES || this.signal?.aborted) throw error;
+        // A mutation that timed out or hit a 5xx may have been applied; only retry when Linear rejected it outright
+        if (isMutation && error.code !== "rate_limited" && error.code !== "budget_exhausted") throw error;
+        const delay = backoffDelay(attempt, error.retryAfterMs);
+        if (delay > MAX_RETRY_DELAY_MS) throw error;
+        log.warn("Retrying Linear request", { code: error.code, status: error.status, attempt: attempt + 1, delayMs: Math.round(delay) });
+        await sleep(delay, this.signal);
+      }
+    }
+  }
+
+  private async send<TData>(query: string, variables: Record<string, unknown>): Promise<TData> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), this.cfg.linearApiTimeoutMs);
     let response: Response;
@@ -37,22 +165,82 @@ export class LinearGraphqlClient {
         method: "POST",
         headers: { "Content-Type": "application/json", Authorization: this.cfg.linearApiKey },
         body: JSON.stringify({ query, variables }),
-        signal: controller.signal,
+        signal: this.signal ? AbortSignal.any([controller.signal, this.signal]) : controller.signal,
       });
     } catch (error) {
+      this.throwIfCancelled(query.trimStart().startsWith("mutation"));
       if (error instanceof Error && error.name === "AbortError")
-        throw new Error(`Linear API timed out after ${this.cfg.linearApiTimeoutMs}ms`);
-      throw new Error(`Linear API request failed: ${error instanceof Error ? error.message : "unknown"}`);
+        throw new LinearApiError(`Linear API timed out after ${this.cfg.linearApiTimeoutMs}ms`, "timeout", true);
+      throw new LinearApiError(`Linear API request failed: ${error instanceof Error ? error.message : "unknown"}`, "network", true);
     } finally {
       clearTimeout(timeout);
     }
-    if (!response.ok) throw new Error(`Linear API ${response.status}`);
-    const payload = (await response.json()) as GraphQlResponse<TData>;
-    if (payload.errors?.length) throw new Error(`Linear GQL: ${payload.errors.map(e => e.message).join("; ")}`);
-    if (!payload.data) throw new Error("Linear API empty response");
+
+    this.recordRateLimit(response.headers);
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after")) ?? this.rateLimitWaitMs();
+    const payload = (await response.json().catch(() => undefined)) as GraphQlResponse<TData> | undefined;
+
+    if (payload?.errors?.length) {
+      const error = classifyGraphqlErrors(payload.errors, response.status);
+      if (error.code === "rate_limited") throw new LinearApiError(error.message, error.code, true, response.status, retryAfterMs);
+      if (!response.ok && response.status >= 500) throw new LinearApiError(error.message, "server", true, response.status);
+      throw error;
+    }
+    if (!response.ok) {
+      const message = `Linear API ${response.status}`;
+      if (response.status === 429) throw new LinearApiError(message, "rate_limited", true, 429, retryAfterMs);
+      if (response.status === 401 || response.status === 403) throw new LinearApiError(message, "auth", false, response.status);
+      if (response.status >= 500) throw new LinearApiError(message, "server", true, response.status);
+      throw new LinearApiError(message, "bad_request", false, response.status);
+    }
+    if (!payload?.data) throw new LinearApiError("Linear API empty response", "empty_response", true, response.status);
     return payload.data;
   }
 
+  /** An aborted mutation that was already sent may have been applied, so it must not be retried blindly */
+  private throwIfCancelled(sentMutation = false) {
+    if (!this.signal?.aborted) return;
+    if (sentMutation) throw new LinearApiError("Cancelled while Linear was applying it; check the result before retrying", "cancelled", false);
+    throw new LinearApiError("Linear request cancelled", "cancelled", true);
+  }
+
+  /** Track Linear's request and complexity allowances; pause when either hits zero */
+  private recordRateLimit(headers: Headers) {
+    for (const kind of ["requests", "complexity"]) {
+      const remaining = Number(headers.get(`x-ratelimit-${kind}-remaining`));
+      const reset = Number(headers.get(`x-ratelimit-${kind}-reset`));
+      if (headers.has(`x-ratelimit-${kind}-remaining`) && remaining <= 0 && reset > Date.now()) {
+        this.state.pausedUntil = Math.max(this.state.pausedUntil, reset);
+        log.warn("Linear rate limit exhausted", { kind, resetAt: new Date(reset).toISOString() });
+      }
+    }
+  }
+
+  private rateLimitWaitMs(): number | undefined {
+    const wait = this.state.pausedUntil - Date.now();
+    return wait > 0 ? wait : undefined;
+  }
+
+  private async waitForRateLimit() {
+    const wait = this.rateLimitWaitMs();
+    if (wait === undefined) return;
+    if (wait > MAX_RETRY_DELAY_MS) {
+      throw new LinearApiError(`Linear rate limit exhausted; resets in ${Math.ceil(wait / 1000)}s`, "rate_limited", true, undefined, wait);
+    }
+    await sleep(wait, this.signal);
+  }
+
+  private consumeBudget() {
+    const now = Date.now();
+    const budget = this.options.requestBudgetPerHour ?? DEFAULT_REQUEST_BUDGET_PER_HOUR;
+    this.state.requestLog = this.state.requestLog.filter(t => now - t < HOUR_MS);
+    if (this.state.requestLog.length >= budget) {
+      const retryAfterMs = this.state.requestLog[0] + HOUR_MS - now;
+      throw new LinearApiError(`Linear request budget of ${budget}/hour exhausted`, "budget_exhausted", true, undefined, retryAfterMs);
+    }
+    this.state.requestLog.push(now);
+  }
+
   async listStatuses(teamKey: string): Promise<LinearStatus[]> {
     const data = await this.query<{
       teams: { nodes: Array<{ states: { nodes: Array<{ id: string; name: string; type: string }> } }> };
@@ -67,21 +255,33 @@ export class LinearGraphqlClient {
     return unwrapConnection(data.teams.nodes[0]?.members);
   }
 
-  async listCycles(teamKey: string): Promise<LinearCycle[]> {
+  /**
+   * List cycles for a team. When `updatedAfter` is given, only cycles updated at or
+   * after that timestamp are returned (incremental sync).
+   */
+  async listCycles(teamKey: string, updatedAfter?: string): Promise<LinearCycle[]> {
     try {
+      const cycleFilter = updatedAfter ? `,filter:{updatedAt:{gte:$updatedAfter}}` : "";
       const data = await this.query<{
-        teams: { nodes: Array<{ cycles: { nodes: Array<{
+        teams: { nodes: Array<{ id: string; key: string; cycles: { nodes: Array<{
           id: string; name?: string; number: number; startsAt: string; endsAt: string;
-          completedScopeCount: number; scopeCount: number; progress: number;
+          completedScopeCount: number; scopeCount: number; progress: number; updatedAt: string;
         }> } }> };
-      }>(`query($teamKey:String!){teams(filter:{key:{eq:$teamKey}},first:1){nodes{cycles(first:50,orderBy:startsAt,sortDirection:Descending){nodes{id name number startsAt endsAt completedScopeCount scopeCount progress}}}}}`, { teamKey });
-      return unwrapConnection(data.teams.nodes[0]?.cycles).map(c => ({ ...c, name: c.name || `Cycle ${c.number}` }));
+      }>(`query($teamKey:String!${updatedAfter ? ",$updatedAfter:DateTimeOrDuration!" : ""}){teams(filter:{key:{eq:$teamKey}},first:1){nodes{id key cycles(first:50,orderBy:startsAt,sortDirection:Descending${cycleFilter}){nodes{id name number startsAt endsAt completedScopeCount scopeCount progress updatedAt}}}}}`,
+        updatedAfter ? { teamKey, updatedAfter } : { teamKey });
+      const team = data.teams.nodes[0];
+      return unwrapConnection(team?.cycles).map(c => ({ ...c, name: c.name || `Cycle ${c.number}`, teamId: team.id, teamKey: team.key }));
     } catch {
       return []; // Cycles are optional — don't fail sync
     }
   }
 
-  async listIssues(teamKey: string, limit: number): Promise<LinearIssue[]> {
+  /**
+   * List issues for a team, most recently updated first. When `updatedAfter` is given,
+   * only issues updated at or after that timestamp are returned (incremental sync).
+   * Pass `limit = Infinity` to page through the whole team (full reconciliation).
+   */
+  async listIssues(teamKey: string, limit: number, updatedAfter?: string): Promise<LinearIssue[]> {
     type IssueNode = {
       id: string; identifier: string; title: string; description?: string; url: string;
       createdAt: string; updatedAt: string; completedAt?: string; estimate?: number; priority?: number;
@@ -99,8 +299,10 @@ export class LinearGraphqlClient {
 
     while (hasNextPage && results.length < limit) {
       const pageSize = Math.min(100, limit - results.length);
-      const resp: { issues: { nodes: IssueNode[]; pageInfo: { hasNextPage: boolean; endCursor?: string } } } = await this.query(`query($teamKey:String!,$first:Int!,$after:String){issues(first:$first,after:$after,orderBy:updatedAt,filter:{team:{key:{eq:$teamKey}}}){nodes{id identifier title description url createdAt updatedAt completedAt estimate priority state{id name type}assignee{id name}labels{nodes{name}}project{id name}cycle{id name}team{id key}}pageInfo{hasNextPage endCursor}}}`,
-        { teamKey, first: pageSize, after: cursor });
+      const resp: { issues: { nodes: IssueNode[]; pageInfo: { hasNextPage: boolean; endCursor?: string } } } = await this.query(updatedAfter
+        ? `query($teamKey:String!,$first:Int!,$after:String,$updatedAfter:DateTimeOrDuration!){issues(first:$first,after:$after,orderBy:updatedAt,filter:{team:{key:{eq:$teamKey}},updatedAt:{gte:$updatedAfter}}){nodes{${ISSUE_FIELDS}}pageInfo{hasNextPage endCursor}}}`
+        : `query($teamKey:String!,$first:Int!,$after:String){issues(first:$first,after:$after,orderBy:updatedAt,filter:{team:{key:{eq:$teamKey}}}){nodes{${ISSUE_FIELDS}}pageInfo{hasNextPage endCursor}}}`,
+        updatedAfter ? { teamKey, first: pageSize, after: cursor, updatedAfter } : { teamKey, first: pageSize, after: cursor });
 
       results.push(...resp.issues.nodes);
       hasNextPage = resp.issues.pageInfo.hasNextPage;
@@ -141,17 +343,15 @@ export class LinearGraphqlClient {
 
   // ─── Mutation Methods ───
 
-  private teamIdCache = new Map<string, string>();
-
   async getTeamId(teamKey: string): Promise<string> {
-    const cached = this.teamIdCache.get(teamKey);
+    const cached = this.state.teamIds.get(teamKey);
     if (cached) return cached;
     const data = await this.query<{
       teams: { nodes: Array<{ id: string }> };
     }>(`query($teamKey:String!){teams(filter:{key:{eq:$teamKey}},first:1){nodes{id}}}`, { teamKey });
     const team = data.teams.nodes[0];
     if (!team) throw new Error(`Team not found for key: ${teamKey}`);
-    this.teamIdCache.set(teamKey, team.id);
+    this.state.teamIds.set(teamKey, team.id);
     return team.id;
   }
 
@@ -172,6 +372,8 @@ export class LinearGraphqlClient {
     labelIds?: string[];
     projectId?: string;
     cycleId?: string;
+    /** Attached in the same request, so an issue that was created is always findable by this URL */
+    attachment?: { url: string; title: string };
   }): Promise<{ id: string; identifier: string; url: string; title: string }> {
     const input: Record<string, unknown> = {
       teamId: params.teamId,
@@ -185,6 +387,20 @@ export class LinearGraphqlClient {
     if (params.projectId !== undefined) input.projectId = params.projectId;
     if (params.cycleId !== undefined) input.cycleId = params.cycleId;
 
+    if (params.attachment) {
+      // Linear accepts a client-chosen issue id, which lets the attachment go in the same document
+      input.id = randomUUID();
+      const data = await this.query<{
+        issueCreate: { success: boolean; issue: { id: string; identifier: string; url: string; title: string } };
+        attachmentCreate: { success: boolean };
+      }>(
+        `mutation($input:IssueCreateInput!,$attachment:AttachmentCreateInput!){issueCreate(input:$input){success issue{id identifier url title}} attachmentCreate(input:$attachment){success}}`,
+        { input, attachment: { issueId: input.id, url: params.attachment.url, title: params.attachment.title } }
+      );
+      if (!data.issueCreate.success) throw new Error("Linear issueCreate failed");
+      return data.issueCreate.issue;
+    }
+
     const data = await this.query<{
       issueCreate: { success: boolean; issue: { id: string; identifier: string; url: string; title: string } };
     }>(
@@ -196,17 +412,31 @@ export class LinearGraphqlClient {
     return data.issueCreate.issue;
   }
 
+  /** The issue carrying an attachment with exactly this URL, if any */
+  async findIssueByAttachmentUrl(
+    url: string,
+  ): Promise<{ id: string; identifier: string; url: string; title: string } | undefined> {
+    const data = await this.query<{
+      attachmentsForURL: { nodes: Array<{ issue: { id: string; identifier: string; url: string; title: string } | null }> };
+    }>(
+      `query($url:String!){attachmentsForURL(url:$url){nodes{issue{id identifier url title}}}}`,
+      { url }
+    );
+    return data.attachmentsForURL.nodes.find(n => n.issue)?.issue ?? undefined;
+  }
+
+  /** `null` clears assignee, project or cycle (used when restoring a before-image) */
   async updateIssue(
     issueId: string,
     input: {
       title?: string;
-      description?: string;
+      description?: string | null;
       priority?: number;
-      assigneeId?: string;
+      assigneeId?: string | null;
       stateId?: string;
       labelIds?: string[];
-      projectId?: string;
-      cycleId?: string;
+      projectId?: string | null;
+      cycleId?: string | null;
     },
   ): Promise<{ success: boolean; issue?: { id: string; identifier: string; url: string } }> {
     // Only send defined fields
@@ -238,6 +468,67 @@ export class LinearGraphqlClient {
     return { success: data.issueDelete.success };
   }
 
+  /** Move an issue to the archive; `unarchiveIssue` brings it (or a deleted one) back */
+  async archiveIssue(issueId: string): Promise<{ success: boolean }> {
+    const data = await this.query<{ issueArchive: { success: boolean } }>(
+      `mutation($id:String!){issueArchive(id:$id){success}}`,
+      { id: issueId }
+    );
+    return { success: data.issueArchive.success };
+  }
+
+  async unarchiveIssue(issueId: string): Promise<{ success: boolean }> {
+    const data = await this.query<{ issueUnarchive: { success: boolean } }>(
+      `mutation($id:String!){issueUnarchive(id:$id){success}}`,
+      { id: issueId }
+    );
+    return { success: data.issueUnarchive.success };
+  }
+
+  /**
+   * The fields write tools change, read live from Linear rather than the synced
+   * snapshot so a before-image reflects the issue at the moment of the write.
+   */
+  async getIssueFields(issueId: string): Promise<LinearIssueFields | undefined> {
+    const data = await this.query<{
+      issue: {
+        id: string; identifier: string; title: string; description?: string | null; priority: number;
+        assignee?: { id: string; name: string } | null; state: { id: string; name: string };
+        labels: { nodes: Array<{ id: string; name: string }> };
+        project?: { id: string; name: string } | null; cycle?: { id: string } | null;
+      } | null;
+    }>(
+      `query($id:String!){issue(id:$id){id identifier title description priority assignee{id name} state{id name} labels{nodes{id name}} project{id name} cycle{id}}}`,
+      { id: issueId }
+    );
+    const i = data.issue;
+    if (!i) return undefined;
+    return {
+      id: i.id,
+      identifier: i.identifier,
+      title: i.title,
+      description: i.description ?? null,
+      priority: i.priority,
+      assigneeId: i.assignee?.id ?? null,
+      stateId: i.state.id,
+      labelIds: unwrapConnection(i.labels).map(l => l.id),
+      projectId: i.project?.id ?? null,
+      cycleId: i.cycle?.id ?? null,
+      status: i.state.name,
+      assigneeName: i.assignee?.name ?? null,
+      labelNames: unwrapConnection(i.labels).map(l => l.name),
+      projectName: i.project?.name ?? null,
+    };
+  }
+
+  async deleteComment(commentId: string): Promise<{ success: boolean }> {
+    const data = await this.query<{ commentDelete: { success: boolean } }>(
+      `mutation($id:String!){commentDelete(id:$id){success}}`,
+      { id: commentId }
+    );
+    return { success: data.commentDelete.success };
+  }
+
   async addIssueComment(issueId: string, body: string): Promise<{ id: string; url?: string }> {
     const data = await this.query<{
       commentCreate: { success: boolean; comment: { id: string; url: string } };
@@ -295,6 +586,24 @@ export class LinearGraphqlClient {
     return { success: data.projectUpdate.success };
   }
 
+  /** Fields manage_project changes, read live for before-images */
+  async getProjectFields(projectId: string): Promise<{ id: string; name: string; description: string | null; state: string } | undefined> {
+    const data = await this.query<{
+      project: { id: string; name: string; description?: string | null; state: string } | null;
+    }>(`query($id:String!){project(id:$id){id name description state}}`, { id: projectId });
+    const p = data.project;
+    return p ? { id: p.id, name: p.name, description: p.description ?? null, state: p.state } : undefined;
+  }
+
+  /** Moves the project to Linear's trash, from which it can still be restored */
+  async deleteProject(projectId: string): Promise<{ success: boolean }> {
+    const data = await this.query<{ projectDelete: { success: boolean } }>(
+      `mutation($id:String!){projectDelete(id:$id){success}}`,
+      { id: projectId }
+    );
+    return { success: data.projectDelete.success };
+  }
+
   // ─── Cycle Issue Mutations ───
 
   async addIssueToCycle(issueId: string, cycleId: string): Promise<{ success: boolean }> {
@@ -333,6 +642,14 @@ export class LinearGraphqlClient {
     return data.issueLabelCreate.issueLabel;
   }
 
+  async deleteLabel(labelId: string): Promise<{ success: boolean }> {
+    const data = await this.query<{ issueLabelDelete: { success: boolean } }>(
+      `mutation($id:String!){issueLabelDelete(id:$id){success}}`,
+      { id: labelId }
+    );
+    return { success: data.issueLabelDelete.success };
+  }
+
   // ─── Cycle Queries (extended) ───
 
   async listCyclesForTeam(teamKey: string): Promise<Array<{ id: string; name: string; number: number; startsAt: string; endsAt: string }>> {
@@ -368,8 +685,9 @@ export class LinearGraphqlClient {
 
   // ─── Customer Queries ───
 
-  async listCustomers(): Promise<LinearCustomer[]> {
+  async listCustomers(updatedAfter?: string): Promise<LinearCustomer[]> {
     try {
+      const customerFilter = updatedAfter ? `,filter:{updatedAt:{gte:$updatedAfter}}` : "";
       const data = await this.query<{
         customers: { nodes: Array<{
           id: string; name: string; domains: string[];
@@ -380,7 +698,8 @@ export class LinearGraphqlClient {
           createdAt: string; updatedAt: string;
           issues: { nodes: Array<{ id: string; team: { key: string } }> };
         }> };
-      }>(`query{customers(first:100){nodes{id name domains tier{id name}status{id name}revenue size logoUrl owner{id name}createdAt updatedAt issues(first:50){nodes{id team{key}}}}}}`, {});
+      }>(`query${updatedAfter ? "($updatedAfter:DateTimeOrDuration!)" : ""}{customers(first:100${customerFilter}){nodes{id name domains tier{id name}status{id name}revenue size logoUrl owner{id name}createdAt updatedAt issues(first:50){nodes{id team{key}}}}}}`,
+        updatedAfter ? { updatedAfter } : {});
       return data.customers.nodes.map(c => {
         const teamKeys = new Set(c.issues?.nodes?.map(i => i.team.key) || []);
         return {
@@ -408,15 +727,17 @@ export class LinearGraphqlClient {
 
   // ─── Detailed Project Queries ───
 
-  async listProjectsDetailed(teamKey: string): Promise<LinearProject[]> {
+  async listProjectsDetailed(teamKey: string, updatedAfter?: string): Promise<LinearProject[]> {
+    const projectFilter = updatedAfter ? `(filter:{updatedAt:{gte:$updatedAfter}})` : "";
     const data = await this.query<{
       teams: { nodes: Array<{ projects: { nodes: Array<{
         id: string; name: string; description?: string; state: string;
-        progress: number; startDate?: string; targetDate?: string; url: string;
+        progress: number; startDate?: string; targetDate?: string; url: string; updatedAt: string;
         issues: { nodes: Array<{ id: string; completedAt?: string }> };
         members: { nodes: Array<{ id: string }> };
       }> } }> };
-    }>(`query($teamKey:String!){teams(filter:{key:{eq:$teamKey}},first:1){nodes{projects{nodes{id name description state progress startDate targetDate url issues{nodes{id completedAt}}members{nodes{id}}}}}}}`, { teamKey });
+    }>(`query($teamKey:String!${updatedAfter ? ",$updatedAfter:DateTimeOrDuration!" : ""}){teams(filter:{key:{eq:$teamKey}},first:1){nodes{projects${projectFilter}{nodes{id name description state progress startDate targetDate url updatedAt issues{nodes{id completedAt}}members{nodes{id}}}}}}}`,
+      updatedAfter ? { teamKey, updatedAfter } : { teamKey });
     return unwrapConnection(data.teams.nodes[0]?.projects).map(p => ({
       id: p.id,
       name: p.name,
@@ -429,9 +750,9 @@ export class LinearGraphqlClient {
       issueCount: p.issues?.nodes?.length || 0,
       completedIssueCount: p.issues?.nodes?.filter(i => i.completedAt)?.length || 0,
       memberIds: p.members?.nodes?.map(m => m.id) || [],
+      updatedAt: p.updatedAt,
     }));
   }
-}
 
   // ─── Initiative Queries ───
 
@@ -483,6 +804,24 @@ export class LinearGraphqlClient {
 
 // ─── Additional Types ───
 
+export type LinearIssueFields = {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string | null;
+  priority: number;
+  assigneeId: string | null;
+  stateId: string;
+  labelIds: string[];
+  projectId: string | null;
+  cycleId: string | null;
+  /** Display values, for comparing with action snapshots */
+  status: string;
+  assigneeName: string | null;
+  labelNames: string[];
+  projectName: string | null;
+};
+
 export type LinearCustomer = {
   id: string; name: string; domains: string[];
   tierId?: string; tierName?: string; statusId?: string; statusName?: string;
@@ -495,6 +834,7 @@ export type LinearProject = {
   id: string; name: string; description?: string; state: string;
   progress: number; startDate?: string; targetDate?: string; url: string;
   issueCount: number; completedIssueCount: number; memberIds: string[];
+  updatedAt: string;
 };
 
 export type LinearInitiativeProject = {
@@ -0,0 +1,140 @@
+import type OpenAI from "openai";
+import { createHash } from "node:crypto";
+import type { AppConfig } from "../config";
+import type { AiProvider } from "@linearapp/shared";
+import { OpenAICompatibleClient } from "./openaiClient";
+
+/** What a call is for; each use case can be routed to a different model */
+export type LlmUseCase = "chat" | "summary" | "embedding";
+
+export type LlmModels = Record<LlmUseCase, string>;
+
+export type LlmCallOptions = {
+  useCase?: Exclude<LlmUseCase, "embedding">;
+  /** Aborts the request (and stops a stream) when the caller goes away */
+  signal?: AbortSignal;
+};
+
+/**
+ * Everything the app needs from a language model. Messages, tools and chunks use
+ * the OpenAI wire types since every supported backend speaks that format.
+ */
+export interface LlmProvider {
+  readonly name: AiProvider;
+  /** Model used for chat turns; context budgets are looked up by this name */
+  readonly chatModel: string;
+  /** Identifies the embedding space; vectors from different models are not comparable */
+  readonly embeddingModel: string;
+  chat(
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    tools?: OpenAI.Chat.Completions.ChatCompletionTool[],
+    options?: LlmCallOptions,
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion>;
+  chatStream(
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    tools?: OpenAI.Chat.Completions.ChatCompletionTool[],
+    options?: LlmCallOptions,
+  ): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk>;
+  createEmbedding(text: string, options?: Pick<LlmCallOptions, "signal">): Promise<number[]>;
+  createEmbeddingBatch(texts: string[], options?: Pick<LlmCallOptions, "signal">): Promise<number[][]>;
+}
+
+/**
+ * Pick the provider from config. `heuristic` is also the fallback when OpenAI is
+ * selected without an API key, so the app runs offline instead of failing every call.
+ */
+export function createLlmProvider(cfg: AppConfig): LlmProvider {
+  const models: LlmModels = {
+    chat: cfg.openaiModel,
+    summary: cfg.llmSummaryModel || cfg.openaiModel,
+    embedding: cfg.llmEmbeddingModel || "text-embedding-3-small",
+  };
+  switch (cfg.aiProvider) {
+    case "heuristic":
+      return new HeuristicProvider();
+    case "openai-compatible":
+      return new OpenAICompatibleClient({ baseUrl: cfg.llmBaseUrl, apiKey: cfg.openaiApiKey, models });
+    default:
+      if (!cfg.openaiApiKey) return new HeuristicProvider();
+      return new OpenAICompatibleClient({ apiKey: cfg.openaiApiKey, models });
+  }
+}
+
+// ─── Heuristic Provider ───
+
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic, network-free provider for offline runs and tests. Chat replies
+ * with a fixed notice (summaries return a trimmed first line of the input), and
+ * embeddings are hashed bag-of-words vectors, so similar texts still land close
+ * together in cosine similarity.
+ */
+export class HeuristicProvider implements LlmProvider {
+  readonly name = "heuristic" as const;
+  readonly chatModel = "heuristic";
+  readonly embeddingModel = `heuristic-hash-${EMBEDDING_DIMENSIONS}`;
+
+  async chat(
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    _tools?: OpenAI.Chat.Completions.ChatCompletionTool[],
+    options?: LlmCallOptions,
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    const content = this.reply(messages, options);
+    return {
+      id: `heuristic-${hashHex(content).slice(0, 12)}`,
+      object: "chat.completion",
+      created: 0,
+      model: "heuristic",
+      choices: [{ index: 0, finish_reason: "stop", logprobs: null, message: { role: "assistant", content, refusal: null } }],
+    };
+  }
+
+  async *chatStream(
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    _tools?: OpenAI.Chat.Completions.ChatCompletionTool[],
+    options?: LlmCallOptions,
+  ): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk> {
+    const content = this.reply(messages, options);
+    const id = `heuristic-${hashHex(content).slice(0, 12)}`;
+    // Word-sized deltas so streaming UIs behave as they would with a real model
+    for (const piece of content.match(/\S+\s*/g) ?? []) {
+      options?.signal?.throwIfAborted();
+      yield { id, object: "chat.completion.chunk", created: 0, model: "heuristic", choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] };
+    }
+    yield { id, object: "chat.completion.chunk", created: 0, model: "heuristic", choices: [{ index: 0, delta: {}, finish_reason: "stop" }] };
+  }
+
+  async createEmbedding(text: string): Promise<number[]> {
+    return hashedEmbedding(text);
+  }
+
+  async createEmbeddingBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(hashedEmbedding);
+  }
+
+  private reply(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[], options?: LlmCallOptions): string {
+    const lastUser = [...messages].reverse().find(m => m.role === "user");
+    const text = typeof lastUser?.content === "string" ? lastUser.content : "";
+    if (options?.useCase === "summary") {
+      const firstLine = text.split("\n").find(l => l.trim())?.trim() ?? "";
+      return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+    }
+    return "AI is running in offline heuristic mode, so I can't answer free-form questions. Configure an OpenAI API key or an OpenAI-compatible endpoint to enable chat.";
+  }
+}
+
+function hashHex(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function hashedEmbedding(text: string): number[] {
+  const vec = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    const h = createHash("md5").update(token).digest();
+    const index = h.readUInt16BE(0) % EMBEDDING_DIMENSIONS;
+    vec[index] += h[2] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0));
+  return norm === 0 ? vec : vec.map(v => v / norm);
+}
@@ -1,58 +1,84 @@
 import type OpenAI from "openai";
-import type { AppConfig } from "../config";
+import type { LlmCallOptions, LlmModels, LlmProvider } from "./llmProvider";
 
-export class OpenAIClient {
-  constructor(private readonly cfg: AppConfig) {}
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/** @deprecated Depend on `LlmProvider`; kept so existing service signatures keep compiling */
+export type OpenAIClient = LlmProvider;
+
+/**
+ * Chat and embeddings over the OpenAI REST API. Also serves any OpenAI-compatible
+ * server (Ollama, llama.cpp server, vLLM) by pointing `baseUrl` at it; local servers
+ * usually ignore the API key.
+ */
+export class OpenAICompatibleClient implements LlmProvider {
+  readonly name;
+
+  constructor(private readonly opts: {
+    baseUrl?: string;
+    apiKey?: string;
+    models: LlmModels;
+  }) {
+    this.name = opts.baseUrl ? "openai-compatible" as const : "openai" as const;
+  }
+
+  get chatModel(): string {
+    return this.opts.models.chat;
+  }
+
+  get embeddingModel(): string {
+    return this.opts.models.embedding;
+  }
+
+  private get baseUrl(): string {
+    return (this.opts.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, "");
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.opts.apiKey ? { Authorization: `Bearer ${this.opts.apiKey}` } : {}),
+    };
+  }
+
+  private modelFor(options?: LlmCallOptions): string {
+    return options?.useCase === "summary" ? this.opts.models.summary : this.opts.models.chat;
+  }
 
   async chat(
     messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
     tools?: OpenAI.Chat.Completions.ChatCompletionTool[],
+    options?: LlmCallOptions,
   ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.cfg.openaiApiKey}`,
-      },
+      headers: this.headers,
       body: JSON.stringify({
-        model: this.cfg.openaiModel,
+        model: this.modelFor(options),
         messages,
         ...(tools?.length ? { tools } : {}),
       }),
+      signal: options?.signal,
     });
     if (!response.ok) throw new Error(`OpenAI API ${response.status}`);
     return (await response.json()) as OpenAI.Chat.Completions.ChatCompletion;
   }
 
-  async createEmbedding(text: string): Promise<number[]> {
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.cfg.openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: text,
-      }),
-    });
-    if (!response.ok) throw new Error(`OpenAI Embeddings API ${response.status}`);
-    const data = (await response.json()) as { data: Array<{ embedding: number[] }> };
-    return data.data[0].embedding;
+  async createEmbedding(text: string, options?: Pick<LlmCallOptions, "signal">): Promise<number[]> {
+    const [embedding] = await this.createEmbeddingBatch([text], options);
+    return embedding;
   }
 
-  async createEmbeddingBatch(texts: string[]): Promise<number[][]> {
+  async createEmbeddingBatch(texts: string[], options?: Pick<LlmCallOptions, "signal">): Promise<number[][]> {
     if (texts.length === 0) return [];
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.cfg.openaiApiKey}`,
-      },
+      headers: this.headers,
       body: JSON.stringify({
-        model: "text-embedding-3-small",
+        model: this.opts.models.embedding,
         input: texts,
       }),
+      signal: options?.signal,
     });
     if (!response.ok) throw new Error(`OpenAI Embeddings API ${response.status}`);
     const data = (await response.json()) as { data: Array<{ embedding: number[]; index: number }> };
@@ -63,19 +89,18 @@ export class OpenAIClient {
   async *chatStream(
     messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
     tools?: OpenAI.Chat.Completions.ChatCompletionTool[],
+    options?: LlmCallOptions,
   ): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk> {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.cfg.openaiApiKey}`,
-      },
+      headers: this.headers,
       body: JSON.stringify({
-        model: this.cfg.openaiModel,
+        model: this.modelFor(options),
         messages,
         stream: true,
         ...(tools?.length ? { tools } : {}),
       }),
+      signal: options?.signal,
     });
     if (!response.ok) throw new Error(`OpenAI API ${response.status}`);
     if (!response.body) throw new Error("No response body");
@@ -5,17 +5,27 @@ import type { TrackedMemberStatus, BoardColumnId } from "@linearapp/shared";
 import { StateDb } from "./db";
 import { LinearGraphqlClient } from "./adapters/linearGraphql";
 import { GithubClient } from "./adapters/githubClient";
-import { OpenAIClient } from "./adapters/openaiClient";
+import { createLlmProvider } from "./adapters/llmProvider";
 import { LinearSyncService } from "./services/linearSyncService";
 import { GithubSyncService } from "./services/githubSyncService";
 import { SyncOrchestrator } from "./services/syncService";
 import { ChatService } from "./services/chatService";
+import { ChatRunService } from "./services/chatRunService";
+import { ChatExportService } from "./services/chatExportService";
 import { SkillService } from "./services/skillService";
 import { ActionStateMachine } from "./services/actionStateMachine";
 import { ApprovalManager } from "./services/approvalManager";
+import { ActionUndoService } from "./services/actionUndoService";
+import { ActionAuditService } from "./services/actionAuditService";
+import { ApprovalPolicyService } from "./services/approvalPolicyService";
+import { ActionSnapshotService } from "./services/actionSnapshotService";
 import { createToolHandlers } from "./tools/index";
 import { EnrichmentService } from "./services/enrichmentService";
 import { EmbeddingService } from "./services/embeddingService";
+import { LinearWebhookService } from "./services/linearWebhookService";
+import { CycleSnapshotService } from "./services/cycleSnapshotService";
+import { RolloverRiskService } from "./services/rolloverRiskService";
+import { ForecastService } from "./services/forecastService";
 import { registerHealthRoutes } from "./routes/health";
 import { registerSyncRoutes } from "./routes/sync";
 import { registerMemberRoutes } from "./routes/members";
@@ -25,11 +35,15 @@ import { registerOkrRoutes } from "./routes/okrs";
 import { registerIssueRoutes } from "./routes/issues";
 import { registerDashboardRoutes } from "./routes/dashboard";
 import { registerGithubRoutes } from "./routes/github";
-import { registerChatRoutes } from "./routes/chat";
+import { registerChatRoutes, viewerOf } from "./routes/chat";
+import { registerActionRoutes } from "./routes/actions";
+import { registerPolicyRoutes } from "./routes/policies";
 import { registerOverviewRoutes } from "./routes/overview";
 import { registerSkillRoutes } from "./routes/skills";
 import { registerClientRoutes } from "./routes/clients";
 import { registerProjectRoutes } from "./routes/projects";
+import { registerWebhookRoutes } from "./routes/webhooks";
+import { registerForecastRoutes } from "./routes/forecast";
 import fs from "node:fs";
 import path from "node:path";
 
@@ -41,20 +55,33 @@ export const createApp = async (cfg: AppConfig) => {
   const db = new StateDb(cfg.dbPath);
   const linear = new LinearGraphqlClient(cfg);
   const github = new GithubClient(cfg);
-  const openai = new OpenAIClient(cfg);
+  const openai = createLlmProvider(cfg);
   const linearSync = new LinearSyncService(cfg, db, linear);
   const githubSync = new GithubSyncService(db, github);
   const syncOrchestrator = new SyncOrchestrator(db, linearSync, githubSync);
   const trackedLinearIds = new Set(cfg.trackedMembers.map(m => m.linearUserId));
-  const chatService = new ChatService(db, openai, linear, cfg, trackedLinearIds);
+  const cycleSnapshots = new CycleSnapshotService(db);
+  const rolloverRisk = new RolloverRiskService(db);
+  const forecastService = new ForecastService(db);
+  const analytics = { cycleSnapshots, rolloverRisk, forecast: forecastService };
+  const chatService = new ChatService(db, openai, linear, cfg, analytics, trackedLinearIds);
+  const chatRuns = new ChatRunService(db, run => chatService.titleConversation(run.conversationId));
+  const chatExport = new ChatExportService(db);
   const actionStateMachine = new ActionStateMachine(db);
-  const toolHandlers = createToolHandlers(db, linear, cfg, trackedLinearIds, embeddingService);
-  const approvalManager = new ApprovalManager(actionStateMachine, toolHandlers, db);
+  const embeddingService = new EmbeddingService(db, openai);
+  const toolHandlers = createToolHandlers(db, linear, cfg, analytics, trackedLinearIds, embeddingService);
+  const actionUndo = new ActionUndoService(db, linear);
+  const approvalPolicies = new ApprovalPolicyService(db);
+  const actionSnapshots = new ActionSnapshotService(db, linear);
+  const approvalManager = new ApprovalManager(actionStateMachine, toolHandlers, db, actionUndo, approvalPolicies, actionSnapshots, {
+    proposalTtlMs: cfg.actionProposalTtlMs,
+  });
+  const actionAudit = new ActionAuditService(db);
   chatService.setApprovalManager(approvalManager);
   const skillService = new SkillService(db, openai);
   chatService.setSkillService(skillService);
   const enrichmentService = new EnrichmentService(db, openai);
-  const embeddingService = new EmbeddingService(db, openai);
+  const webhookService = new LinearWebhookService(cfg, db, embeddingService);
 
   // Create Fastify app
   const app = Fastify({ logger: { level: cfg.logLevel } });
@@ -73,6 +100,16 @@ export const createApp = async (cfg: AppConfig) => {
     credentials: true,
   });
 
+  // The viewer ID isn't authenticated; at least refuse IDs that aren't tracked members, so
+  // ownership and second-approver checks only ever see real team members
+  app.addHook("onRequest", async (request, reply) => {
+    if (!request.url.startsWith("/api/chat") && !request.url.startsWith("/api/actions")) return;
+    const viewer = viewerOf(request);
+    if (viewer && !trackedLinearIds.has(viewer)) {
+      return reply.status(403).send({ ok: false, error: "Unknown team member; choose who you are again" });
+    }
+  });
+
   // Error handler
   app.setErrorHandler((error, request, reply) => {
     request.log.error({ err: error }, "Unhandled route error");
@@ -94,16 +131,20 @@ export const createApp = async (cfg: AppConfig) => {
   registerSyncRoutes(app, syncOrchestrator, linear);
   registerMemberRoutes(app, db, trackedLinearIds);
   registerBoardRoutes(app, db, linear, cfg);
-  registerCycleRoutes(app, db, trackedLinearIds);
+  registerCycleRoutes(app, db, trackedLinearIds, cycleSnapshots, rolloverRisk);
   registerOkrRoutes(app, db);
   registerIssueRoutes(app, db);
   registerDashboardRoutes(app, db, trackedLinearIds);
   registerGithubRoutes(app, db);
-  registerChatRoutes(app, db, chatService, approvalManager);
+  registerChatRoutes(app, db, chatService, approvalManager, chatRuns, chatExport);
+  registerActionRoutes(app, actionAudit);
+  registerPolicyRoutes(app, approvalPolicies);
   registerOverviewRoutes(app, db, openai, trackedLinearIds);
   registerSkillRoutes(app, skillService);
   registerClientRoutes(app, db);
   registerProjectRoutes(app, db);
+  registerWebhookRoutes(app, cfg, webhookService);
+  registerForecastRoutes(app, forecastService);
 
   // Seed built-in skills (only inserts if skill with that name doesn't already exist)
   {
@@ -140,7 +181,7 @@ When the user asks about throughput, velocity, or what the team shipped:
 1. Call \`get_dashboard_summary\` for current in-flight and completed counts.
 2. Call \`get_team_workload\` for per-member WIP and active issues.
 3. Call \`query_data\` to get recently completed issues:
-   \`SELECT identifier, title, assignee_name, completed_at, board_column FROM issues WHERE board_column = 'done' ORDER BY completed_at DESC LIMIT 20\`
+   \`SELECT identifier, title, assignee_name, completed_at, board_column FROM issues WHERE archived_at IS NULL AND board_column = 'done' ORDER BY completed_at DESC LIMIT 20\`
 
 ## Response format
 - Lead with a **summary stat line**: "X issues completed this cycle, Y currently in-flight."
@@ -167,14 +208,14 @@ When the user asks about sprint or cycle progress:
 ## Data gathering
 1. Call \`get_cycle_stats\` for the active cycle's burndown, progress %, and member breakdown.
 2. Call \`get_team_workload\` for current WIP distribution.
-3. If rollover risk items exist, highlight them prominently.
+3. If \`rolloverRisk\` has items, highlight them prominently — they are ranked by score and each carries a reason.
 
 ## Response format
 - **Headline**: "Cycle [name]: X% complete (Y of Z issues done) with N days remaining."
 - **Burndown assessment**: Is the team ahead, on track, or behind the ideal line? Quantify the gap.
 - **Per-member breakdown** (table): assigned / completed / in-progress / todo for each member.
-- **Rollover risks**: List issues that have been in the same status for too long, with assignee and days stalled.
-- **Scope change note**: If total_scope_count seems high relative to completed + in-progress, mention possible scope creep.
+- **Rollover risks**: List the top \`rolloverRisk\` items with assignee, days in status, and the reason.
+- **Scope change note**: If \`scopeChanges\` shows issues added mid-cycle, mention the scope creep and name the issues.
 
 ## Recommendations
 - If behind pace: suggest which items could be descoped or deprioritized.
@@ -196,9 +237,9 @@ When the user asks about blockers, stuck items, or risks:
 1. Call \`get_cycle_stats\` and examine rollover risk items.
 2. Call \`get_team_workload\` to find WIP limit violations (anyone with 5+ in-progress).
 3. Call \`query_data\` to find stale in-progress items:
-   \`SELECT identifier, title, assignee_name, status, updated_at, julianday('now') - julianday(updated_at) as days_stale FROM issues WHERE board_column IN ('in_progress', 'in_review') AND julianday('now') - julianday(updated_at) > 3 ORDER BY days_stale DESC\`
+   \`SELECT identifier, title, assignee_name, status, updated_at, julianday('now') - julianday(updated_at) as days_stale FROM issues WHERE archived_at IS NULL AND board_column IN ('in_progress', 'in_review') AND julianday('now') - julianday(updated_at) > 3 ORDER BY days_stale DESC\`
 4. Call \`query_data\` to find items in backlog/todo with no assignee:
-   \`SELECT identifier, title, status, priority FROM issues WHERE board_column IN ('backlog', 'todo') AND assignee_id IS NULL AND priority <= 2 ORDER BY priority ASC LIMIT 10\`
+   \`SELECT identifier, title, status, priority FROM issues WHERE archived_at IS NULL AND board_column IN ('backlog', 'todo') AND assignee_id IS NULL AND priority <= 2 ORDER BY priority ASC LIMIT 10\`
 
 ## Response format
 - **Critical blockers first**: Items stale > 5 days in in_progress or in_review. Flag with assignee.
@@ -308,9 +349,9 @@ When the user asks for a standup or daily summary:
 1. Call \`get_team_workload\` for each member's current work.
 2. Call \`get_cycle_stats\` for cycle progress.
 3. Call \`query_data\` for recently completed items (last 24h):
-   \`SELECT identifier, title, assignee_name, completed_at FROM issues WHERE board_column = 'done' AND completed_at >= datetime('now', '-1 day') ORDER BY completed_at DESC\`
+   \`SELECT identifier, title, assignee_name, completed_at FROM issues WHERE archived_at IS NULL AND board_column = 'done' AND completed_at >= datetime('now', '-1 day') ORDER BY completed_at DESC\`
 4. Call \`query_data\` for stale items:
-   \`SELECT identifier, title, assignee_name, status FROM issues WHERE board_column IN ('in_progress', 'in_review') AND julianday('now') - julianday(updated_at) > 3 ORDER BY updated_at ASC LIMIT 5\`
+   \`SELECT identifier, title, assignee_name, status FROM issues WHERE archived_at IS NULL AND board_column IN ('in_progress', 'in_review') AND julianday('now') - julianday(updated_at) > 3 ORDER BY updated_at ASC LIMIT 5\`
 
 ## Response format
 
@@ -351,8 +392,14 @@ Keep it scannable. This should take < 30 seconds to read. Use bullet points, not
   }
 
   // Team config route — returns tracked members with live status
-  app.get("/api/team-config", async () => {
-    const wipCounts = db.getWipCountByAssignee();
+  app.get("/api/teams", async () => {
+    return { ok: true, data: cfg.linearTeamKeys };
+  });
+
+  app.get("/api/team-config", async (request) => {
+    const { team } = request.query as { team?: string };
+    const teamKey = team ? team.toUpperCase() : undefined;
+    const wipCounts = db.getWipCountByAssignee(teamKey);
     const members = db.getMembers();
     const memberByLinearId = new Map(members.map(m => [m.linearUserId, m]));
 
@@ -363,7 +410,7 @@ Keep it scannable. This should take < 30 seconds to read. Use bullet points, not
 
       let topIssue: TrackedMemberStatus["topIssue"] = undefined;
       if (dbMember) {
-        const issues = db.getIssuesByAssignee(tm.linearUserId);
+        const issues = db.getIssuesByAssignee(tm.linearUserId, teamKey);
         const active = issues.find(i =>
           i.snapshot.boardColumn === "in_progress" || i.snapshot.boardColumn === "in_review"
         );
@@ -389,6 +436,14 @@ Keep it scannable. This should take < 30 seconds to read. Use bullet points, not
     return { trackedMembers: result };
   });
 
+  // Issue change history (status, assignee, estimate, priority, cycle, labels)
+  app.get("/api/issues/:id/history", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const history = db.getIssueHistory(id);
+    if (!history) return reply.status(404).send({ ok: false, error: "Issue not found" });
+    return { ok: true, data: history };
+  });
+
   // Enrichment route
   app.post("/api/enrich/:issueId", async (request, reply) => {
     const { issueId } = request.params as { issueId: string };
@@ -445,15 +500,33 @@ Keep it scannable. This should take < 30 seconds to read. Use bullet points, not
     finally { githubSyncRunning = false; }
   }, 5 * 60 * 1000); // GitHub every 5 min
 
+  // Burndown snapshots: one row per active cycle per day, refreshed hourly so the
+  // stored value is the day's last observation
+  const snapshotInterval = setInterval(() => {
+    try { cycleSnapshots.captureActiveCycles(); }
+    catch (e) { app.log.error({ err: e }, "Cycle snapshot capture failed"); }
+  }, 60 * 60 * 1000);
+
+  // Undecided action proposals past their TTL move to expired
+  const proposalExpiryInterval = setInterval(() => {
+    try { approvalManager.expireOverdue(); }
+    catch (e) { app.log.error({ err: e }, "Proposal expiry failed"); }
+  }, 5 * 60 * 1000);
+
   // Initial sync on startup
-  syncOrchestrator.syncAll("startup-sync").catch(e => {
-    app.log.warn({ err: e }, "Initial sync failed — app still available");
-  });
+  syncOrchestrator.syncAll("startup-sync")
+    .then(() => cycleSnapshots.captureActiveCycles())
+    .catch(e => {
+      app.log.warn({ err: e }, "Initial sync failed — app still available");
+    });
 
   // Cleanup on close
   app.addHook("onClose", async () => {
     clearInterval(linearInterval);
     clearInterval(githubInterval);
+    clearInterval(snapshotInterval);
+    clearInterval(proposalExpiryInterval);
+    chatRuns.cancelAll();
     db.close();
   });
 
@@ -1,13 +1,30 @@
 import Database from "better-sqlite3";
 import type {
+  ActionBeforeImage,
   ActionCategory,
+  ActionConflict,
+  ActionPreviewField,
   ActionProposal,
   ActionState,
+  ActionTargetSnapshot,
+  ActionTransition,
+  AppliedApprovalPolicy,
+  ApprovalPolicy,
   BoardColumnId,
   ChatConversation,
   ChatMessage,
+  ConversationTag,
+  ConversationVisibility,
+  ChatRun,
+  ChatRunStatus,
+  ChatSearchHit,
+  ChatStreamEvent,
   Cycle,
+  IssueComment,
   IssueEnrichment,
+  IssueEvent,
+  IssueEventField,
+  IssueHistory,
   IssueSnapshot,
   IssueView,
   IssueWithState,
@@ -63,6 +80,20 @@ CREATE TABLE IF NOT EXISTS issues (
   synced_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS issue_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  issue_id TEXT NOT NULL,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  old_ref TEXT,
+  new_ref TEXT,
+  changed_at TEXT NOT NULL,
+  recorded_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_events_issue ON issue_events(issue_id, changed_at);
+
 CREATE TABLE IF NOT EXISTS cycles (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
@@ -76,6 +107,19 @@ CREATE TABLE IF NOT EXISTS cycles (
   synced_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS cycle_snapshots (
+  cycle_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  scope_count INTEGER NOT NULL,
+  completed_count INTEGER NOT NULL,
+  in_progress_count INTEGER NOT NULL,
+  scope_points REAL NOT NULL DEFAULT 0,
+  completed_points REAL NOT NULL DEFAULT 0,
+  issues_json TEXT NOT NULL DEFAULT '[]',
+  captured_at TEXT NOT NULL,
+  PRIMARY KEY (cycle_id, date)
+);
+
 CREATE TABLE IF NOT EXISTS okrs (
   okr_id TEXT PRIMARY KEY,
   quarter TEXT NOT NULL,
@@ -142,6 +186,26 @@ CREATE TABLE IF NOT EXISTS chat_messages (
   created_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS chat_runs (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  message_id TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_runs_conversation ON chat_runs(conversation_id, created_at);
+
+CREATE TABLE IF NOT EXISTS chat_run_events (
+  run_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  event_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (run_id, seq)
+);
+
 CREATE TABLE IF NOT EXISTS issue_enrichments (
   issue_id TEXT PRIMARY KEY,
   data_json TEXT NOT NULL,
@@ -171,7 +235,8 @@ CREATE TABLE IF NOT EXISTS issue_drafts (
 
 CREATE TABLE IF NOT EXISTS action_proposals (
   id TEXT PRIMARY KEY,
-  conversation_id TEXT NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+  -- No foreign key: proposals are the audit record and outlive their conversation
+  conversation_id TEXT NOT NULL,
   message_id TEXT NOT NULL,
   tool_name TEXT NOT NULL,
   tool_arguments_json TEXT NOT NULL,
@@ -262,6 +327,65 @@ function safeJson<T>(raw: string | null | undefined, fallback: T): T {
   }
 }
 
+/** Private-use markers around FTS snippet matches; turned into highlight ranges */
+const SNIPPET_OPEN = "\uE000";
+const SNIPPET_CLOSE = "\uE001";
+
+/**
+ * Turn free text into an FTS5 query: every word must appear, each as a prefix.
+ * Quoting each token keeps operators and punctuation in user input from
+ * becoming FTS syntax errors.
+ */
+function toFtsQuery(text: string): string | undefined {
+  const tokens = text.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return tokens.length ? tokens.map(t => `"${t}"*`).join(" ") : undefined;
+}
+
+/** Strip snippet markers, returning plain text and the [start, end) ranges they enclosed */
+function parseSnippet(raw: string): { text: string; highlights: Array<[number, number]> } {
+  let text = "";
+  let start = -1;
+  const highlights: Array<[number, number]> = [];
+  for (const ch of raw) {
+    if (ch === SNIPPET_OPEN) start = text.length;
+    else if (ch === SNIPPET_CLOSE) {
+      if (start >= 0) highlights.push([start, text.length]);
+      start = -1;
+    } else text += ch;
+  }
+  return { text, highlights };
+}
+
+type IssueFieldChange = Omit<IssueEvent, "id" | "issueId" | "changedAt">;
+
+/** Compare the tracked fields of two snapshots of the same issue */
+function diffIssue(prev: IssueSnapshot, next: IssueSnapshot): IssueFieldChange[] {
+  const changes: IssueFieldChange[] = [];
+  const str = (v: number | undefined) => (v === undefined ? undefined : String(v));
+
+  if (prev.status !== next.status) {
+    changes.push({ field: "status", oldValue: prev.status, newValue: next.status, oldRef: prev.statusType, newRef: next.statusType });
+  }
+  if ((prev.assigneeId ?? null) !== (next.assigneeId ?? null)) {
+    changes.push({ field: "assignee", oldValue: prev.assigneeName, newValue: next.assigneeName, oldRef: prev.assigneeId, newRef: next.assigneeId });
+  }
+  if ((prev.estimate ?? null) !== (next.estimate ?? null)) {
+    changes.push({ field: "estimate", oldValue: str(prev.estimate), newValue: str(next.estimate) });
+  }
+  if ((prev.priority ?? null) !== (next.priority ?? null)) {
+    changes.push({ field: "priority", oldValue: str(prev.priority), newValue: str(next.priority) });
+  }
+  if ((prev.cycleId ?? null) !== (next.cycleId ?? null)) {
+    changes.push({ field: "cycle", oldValue: prev.cycleName, newValue: next.cycleName, oldRef: prev.cycleId, newRef: next.cycleId });
+  }
+  const prevLabels = [...prev.labels].sort();
+  const nextLabels = [...next.labels].sort();
+  if (JSON.stringify(prevLabels) !== JSON.stringify(nextLabels)) {
+    changes.push({ field: "labels", oldValue: JSON.stringify(prevLabels), newValue: JSON.stringify(nextLabels) });
+  }
+  return changes;
+}
+
 export class StateDb {
   private db: Database.Database;
 
@@ -289,6 +413,171 @@ export class StateDb {
 
     // Migration: add issue_count column to clients
     try { this.db.exec(`ALTER TABLE clients ADD COLUMN issue_count INTEGER NOT NULL DEFAULT 0`); } catch { /* column already exists */ }
+
+    // Migration: add per-resource incremental sync cursors to sync_state
+    try { this.db.exec(`ALTER TABLE sync_state ADD COLUMN cursors_json TEXT NOT NULL DEFAULT '{}'`); } catch { /* column already exists */ }
+
+    // Migration: tombstone issues that disappear from Linear instead of deleting them
+    try { this.db.exec(`ALTER TABLE issues ADD COLUMN archived_at TEXT`); } catch { /* column already exists */ }
+
+    // Migration: cycles belong to a team once more than one team is synced
+    try { this.db.exec(`ALTER TABLE cycles ADD COLUMN team_id TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE cycles ADD COLUMN team_key TEXT`); } catch { /* column already exists */ }
+
+    // Migration: when each issue was first synced. Without a recorded status change its
+    // status has held at least since then; issues stored before this count from now.
+    try {
+      this.db.exec(`ALTER TABLE issues ADD COLUMN first_seen_at TEXT`);
+      this.db.prepare(`UPDATE issues SET first_seen_at = ?`).run(new Date().toISOString());
+    } catch { /* column already exists */ }
+
+    // Migration: remember whether a failed action can be retried as-is
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN retryable INTEGER`); } catch { /* column already exists */ }
+
+    // Migration: what an executed action changed, for undo
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN before_image_json TEXT`); } catch { /* column already exists */ }
+
+    // Migration: state-transition log for the action audit. Existing proposals get their
+    // creation and, if they moved on, their current state (the steps in between are unknown).
+    const hasTransitions = this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'action_transitions'`).get();
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS action_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        proposal_id TEXT NOT NULL REFERENCES action_proposals(id) ON DELETE CASCADE,
+        from_state TEXT,
+        to_state TEXT NOT NULL,
+        actor_id TEXT,
+        detail TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_action_transitions_proposal ON action_transitions(proposal_id, id);
+    `);
+    if (!hasTransitions) {
+      this.db.exec(`
+        INSERT INTO action_transitions (proposal_id, from_state, to_state, created_at)
+          SELECT id, NULL, 'proposed', created_at FROM action_proposals;
+        INSERT INTO action_transitions (proposal_id, from_state, to_state, detail, created_at)
+          SELECT id, NULL, state, COALESCE(error, result), updated_at FROM action_proposals WHERE state != 'proposed';
+      `);
+    }
+
+    // Migration: running summary of chat turns that no longer fit the context budget
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN summary TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN summarized_through_id TEXT`); } catch { /* column already exists */ }
+
+    // Migration: mark assistant replies the user stopped mid-generation
+    try { this.db.exec(`ALTER TABLE chat_messages ADD COLUMN cancelled INTEGER NOT NULL DEFAULT 0`); } catch { /* column already exists */ }
+
+    // Migration: generated or manual conversation titles and tags
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN tags_json TEXT NOT NULL DEFAULT '[]'`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN title_source TEXT NOT NULL DEFAULT 'default'`); } catch { /* column already exists */ }
+
+    // Migration: conversation owner, visibility and pinning. Existing conversations have no
+    // owner and stay visible to the whole team, as they were before.
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN owner_id TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN visibility TEXT NOT NULL DEFAULT 'team'`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0`); } catch { /* column already exists */ }
+
+    // Migration: full-text index over chat messages, kept in sync by triggers
+    const hasChatFts = this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'chat_messages_fts'`).get();
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+        content, content='chat_messages', content_rowid='rowid', tokenize='porter unicode61'
+      );
+      CREATE TRIGGER IF NOT EXISTS chat_messages_fts_insert AFTER INSERT ON chat_messages BEGIN
+        INSERT INTO chat_messages_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS chat_messages_fts_delete AFTER DELETE ON chat_messages BEGIN
+        INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS chat_messages_fts_update AFTER UPDATE OF content ON chat_messages BEGIN
+        INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO chat_messages_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+    `);
+    if (!hasChatFts) this.db.exec(`INSERT INTO chat_messages_fts(chat_messages_fts) VALUES ('rebuild')`);
+
+    // Migration: messages form a tree (edits and regenerations branch); the conversation tracks the active leaf
+    try {
+      this.db.exec(`ALTER TABLE chat_messages ADD COLUMN parent_id TEXT`);
+      // Existing conversations are linear: chain each message to the one before it
+      this.db.exec(`UPDATE chat_messages SET parent_id = (
+        SELECT p.id FROM chat_messages p
+        WHERE p.conversation_id = chat_messages.conversation_id AND p.created_at < chat_messages.created_at
+        ORDER BY p.created_at DESC LIMIT 1
+      )`);
+    } catch { /* column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE chat_conversations ADD COLUMN active_leaf_id TEXT`);
+      this.db.exec(`UPDATE chat_conversations SET active_leaf_id = (
+        SELECT m.id FROM chat_messages m WHERE m.conversation_id = chat_conversations.id ORDER BY m.created_at DESC LIMIT 1
+      )`);
+    } catch { /* column already exists */ }
+
+    // Migration: approval policies, and the decision each proposal was given
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS approval_policies (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        priority INTEGER NOT NULL DEFAULT 100,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        match_json TEXT NOT NULL DEFAULT '{}',
+        effect TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN policy_json TEXT`); } catch { /* column already exists */ }
+
+    // Migration: target snapshots and expiry for proposals. Existing proposals never expire.
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN snapshot_json TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN expires_at TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN conflicts_json TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE action_proposals ADD COLUMN imported INTEGER NOT NULL DEFAULT 0`); } catch { /* column already exists */ }
+
+    // Migration: deleting a conversation used to cascade to its proposals and their
+    // transitions, erasing the audit history. SQLite can't drop a constraint, so the
+    // table is rebuilt from its own definition without it (keep this last among the
+    // action_proposals migrations, so every added column is part of that definition).
+    const cascades = (this.db.prepare(`SELECT "table" FROM pragma_foreign_key_list('action_proposals')`).all() as any[])
+      .some(fk => fk.table === "chat_conversations");
+    if (cascades) {
+      const { sql } = this.db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'action_proposals'`).get() as { sql: string };
+      const rebuilt = sql
+        .replace(/CREATE TABLE (IF NOT EXISTS )?"?action_proposals"?/, "CREATE TABLE action_proposals_rebuilt")
+        .replace(/\s*REFERENCES chat_conversations\(id\) ON DELETE CASCADE/, "");
+      // Off for the swap, or dropping the old table would cascade to action_transitions
+      this.db.pragma("foreign_keys = OFF");
+      try {
+        this.db.transaction(() => {
+          this.db.exec(rebuilt);
+          this.db.exec(`INSERT INTO action_proposals_rebuilt SELECT * FROM action_proposals`);
+          this.db.exec(`DROP TABLE action_proposals`);
+          this.db.exec(`ALTER TABLE action_proposals_rebuilt RENAME TO action_proposals`);
+        })();
+      } finally {
+        this.db.pragma("foreign_keys = ON");
+      }
+    }
+
+    // Migration: tombstone cycles and projects removed in Linear, like issues
+    try { this.db.exec(`ALTER TABLE cycles ADD COLUMN archived_at TEXT`); } catch { /* column already exists */ }
+    try { this.db.exec(`ALTER TABLE projects ADD COLUMN archived_at TEXT`); } catch { /* column already exists */ }
+
+    // Migration: issue comments delivered by webhooks
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS issue_comments (
+        id TEXT PRIMARY KEY,
+        issue_id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        user_name TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        archived_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_issue_comments_issue ON issue_comments(issue_id, created_at);
+    `);
   }
 
   close() {
@@ -373,10 +662,10 @@ export class StateDb {
     const stmt = this.db.prepare(`
       INSERT INTO issues (issue_id, identifier, title, description, url, status, status_type, board_column,
         assignee_id, assignee_name, estimate, labels_json, priority, project_id, project_name,
-        team_id, team_key, updated_at, completed_at, created_at, cycle_id, cycle_name, synced_at)
+        team_id, team_key, updated_at, completed_at, created_at, cycle_id, cycle_name, synced_at, first_seen_at)
       VALUES (@issueId, @identifier, @title, @description, @url, @status, @statusType, @boardColumn,
         @assigneeId, @assigneeName, @estimate, @labelsJson, @priority, @projectId, @projectName,
-        @teamId, @teamKey, @updatedAt, @completedAt, @createdAt, @cycleId, @cycleName, @syncedAt)
+        @teamId, @teamKey, @updatedAt, @completedAt, @createdAt, @cycleId, @cycleName, @syncedAt, @syncedAt)
       ON CONFLICT(issue_id) DO UPDATE SET
         identifier=excluded.identifier, title=excluded.title, description=excluded.description,
         url=excluded.url, status=excluded.status, status_type=excluded.status_type,
@@ -387,11 +676,23 @@ export class StateDb {
         team_id=excluded.team_id, team_key=excluded.team_key,
         updated_at=excluded.updated_at, completed_at=excluded.completed_at,
         created_at=excluded.created_at, cycle_id=excluded.cycle_id,
-        cycle_name=excluded.cycle_name, synced_at=excluded.synced_at
+        cycle_name=excluded.cycle_name, synced_at=excluded.synced_at, archived_at=NULL
+    `);
+
+    const selectExisting = this.db.prepare(`SELECT * FROM issues WHERE issue_id = ?`);
+    const insertEvent = this.db.prepare(`
+      INSERT INTO issue_events (issue_id, field, old_value, new_value, old_ref, new_ref, changed_at, recorded_at)
+      VALUES (?,?,?,?,?,?,?,?)
     `);
 
     const tx = this.db.transaction((items: IssueSnapshot[]) => {
       for (const s of items) {
+        const existing = selectExisting.get(s.issueId) as any;
+        if (existing) {
+          for (const e of diffIssue(this.toSnapshot(existing), s)) {
+            insertEvent.run(s.issueId, e.field, e.oldValue ?? null, e.newValue ?? null, e.oldRef ?? null, e.newRef ?? null, s.updatedAt, now);
+          }
+        }
         stmt.run({
           issueId: s.issueId, identifier: s.identifier, title: s.title,
           description: s.description ?? null, url: s.url, status: s.status,
@@ -409,6 +710,110 @@ export class StateDb {
     tx(snapshots);
   }
 
+  // ─── Issue History ───
+
+  getIssueEvents(issueId: string): IssueEvent[] {
+    const rows = this.db.prepare(`SELECT * FROM issue_events WHERE issue_id = ? ORDER BY changed_at ASC, id ASC`).all(issueId) as any[];
+    return rows.map(r => this.toIssueEvent(r));
+  }
+
+  /** Issues moved into or out of a cycle in [from, to) */
+  getCycleMoveEvents(cycleId: string, from: string, to: string): IssueEvent[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM issue_events WHERE field = 'cycle' AND (new_ref = ? OR old_ref = ?)
+        AND changed_at >= ? AND changed_at < ?
+      ORDER BY changed_at ASC, id ASC
+    `).all(cycleId, cycleId, from, to) as any[];
+    return rows.map(r => this.toIssueEvent(r));
+  }
+
+  private toIssueEvent(r: any): IssueEvent {
+    return {
+      id: r.id, issueId: r.issue_id, field: r.field as IssueEventField,
+      oldValue: r.old_value ?? undefined, newValue: r.new_value ?? undefined,
+      oldRef: r.old_ref ?? undefined, newRef: r.new_ref ?? undefined,
+      changedAt: r.changed_at,
+    };
+  }
+
+  /**
+   * When the issue entered its current status: the latest status event, or when we
+   * first synced it if the status never changed while we were watching (it may have
+   * entered it earlier, so days in status is a lower bound then).
+   */
+  getStatusEnteredAt(issueId: string): string | undefined {
+    const r = this.db.prepare(`
+      SELECT changed_at FROM issue_events WHERE issue_id = ? AND field = 'status'
+      ORDER BY changed_at DESC, id DESC LIMIT 1
+    `).get(issueId) as any;
+    if (r) return r.changed_at;
+    return (this.db.prepare(`SELECT first_seen_at FROM issues WHERE issue_id = ?`).get(issueId) as any)?.first_seen_at ?? undefined;
+  }
+
+  getIssueHistory(issueId: string): IssueHistory | undefined {
+    const issue = this.getIssueById(issueId);
+    if (!issue) return undefined;
+    const events = this.getIssueEvents(issueId);
+    const dayMs = 1000 * 60 * 60 * 24;
+
+    const enteredAt = this.getStatusEnteredAt(issueId) ?? new Date().toISOString();
+    const daysInStatus = Math.max(0, Math.floor((Date.now() - new Date(enteredAt).getTime()) / dayMs));
+
+    // Cycle time: first move into a started state until completion
+    let cycleTimeDays: number | undefined;
+    const startedAt = events.find(e => e.field === "status" && e.newRef === "started")?.changedAt;
+    if (startedAt && issue.snapshot.completedAt) {
+      cycleTimeDays = Math.max(0, Math.round((new Date(issue.snapshot.completedAt).getTime() - new Date(startedAt).getTime()) / dayMs * 10) / 10);
+    }
+
+    return { issueId, identifier: issue.snapshot.identifier, events, daysInStatus, cycleTimeDays };
+  }
+
+  /**
+   * Tombstone issues that no longer exist in the team on Linear (deleted, archived,
+   * or moved to another team). Rows are kept for history but hidden from every
+   * query; their embeddings and drafts are purged. Returns the tombstoned IDs.
+   */
+  reconcileIssues(teamKey: string, liveIssueIds: Set<string>): string[] {
+    const rows = this.db.prepare(`SELECT issue_id FROM issues WHERE team_key = ? AND archived_at IS NULL`).all(teamKey) as any[];
+    const missing = rows.map(r => r.issue_id as string).filter(id => !liveIssueIds.has(id));
+    this.tombstoneIssues(missing);
+    return missing;
+  }
+
+  tombstoneIssues(issueIds: string[]) {
+    if (issueIds.length === 0) return;
+    const now = new Date().toISOString();
+    const archive = this.db.prepare(`UPDATE issues SET archived_at = ? WHERE issue_id = ? AND archived_at IS NULL`);
+    const dropEmbedding = this.db.prepare(`DELETE FROM issue_embeddings WHERE issue_id = ?`);
+    const dropDraft = this.db.prepare(`DELETE FROM issue_drafts WHERE issue_id = ?`);
+    const tx = this.db.transaction((ids: string[]) => {
+      for (const id of ids) {
+        archive.run(now, id);
+        dropEmbedding.run(id);
+        dropDraft.run(id);
+      }
+    });
+    tx(issueIds);
+  }
+
+  /** Linear's `updatedAt` for a stored issue, including tombstoned rows */
+  getIssueUpdatedAt(issueId: string): string | undefined {
+    const r = this.db.prepare(`SELECT updated_at FROM issues WHERE issue_id = ?`).get(issueId) as any;
+    return r?.updated_at;
+  }
+
+  /** Linear team IDs seen on synced issues and cycles of these teams */
+  getTeamIds(teamKeys: string[]): string[] {
+    if (teamKeys.length === 0) return [];
+    const placeholders = teamKeys.map(() => "?").join(",");
+    const rows = this.db.prepare(`
+      SELECT team_id FROM issues WHERE team_key IN (${placeholders})
+      UNION SELECT team_id FROM cycles WHERE team_key IN (${placeholders}) AND team_id IS NOT NULL
+    `).all(...teamKeys, ...teamKeys) as any[];
+    return rows.map(r => r.team_id);
+  }
+
   private toSnapshot(r: any): IssueSnapshot {
     return {
       issueId: r.issue_id, identifier: r.identifier, title: r.title,
@@ -432,7 +837,7 @@ export class StateDb {
     return { snapshot, enrichment, draft, hasPendingChanges: Boolean(draft), pullRequests: prs.length ? prs : undefined };
   }
 
-  getIssuesForView(view: IssueView): IssueWithState[] {
+  getIssuesForView(view: IssueView, teamKey?: string): IssueWithState[] {
     const where: Record<IssueView, string> = {
       triage: "status_type IN ('triage','backlog','unstarted') AND status_type NOT IN ('completed','canceled')",
       backlog: "board_column IN ('backlog','todo')",
@@ -444,20 +849,21 @@ export class StateDb {
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
-      WHERE ${where[view]}
+      WHERE i.archived_at IS NULL AND ${where[view]} AND (? IS NULL OR i.team_key = ?)
       ORDER BY datetime(i.updated_at) DESC
-    `).all() as any[];
+    `).all(teamKey ?? null, teamKey ?? null) as any[];
     return rows.map(r => this.toIssueWithState(r));
   }
 
-  getAllIssues(): IssueWithState[] {
+  getAllIssues(teamKey?: string): IssueWithState[] {
     const rows = this.db.prepare(`
       SELECT i.*, e.data_json AS enrichment_json, d.data_json AS draft_json
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
+      WHERE i.archived_at IS NULL AND (? IS NULL OR i.team_key = ?)
       ORDER BY datetime(i.updated_at) DESC
-    `).all() as any[];
+    `).all(teamKey ?? null, teamKey ?? null) as any[];
     return rows.map(r => this.toIssueWithState(r));
   }
 
@@ -467,32 +873,44 @@ export class StateDb {
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
-      WHERE i.issue_id = ?
+      WHERE i.issue_id = ? AND i.archived_at IS NULL
     `).get(issueId) as any;
     return r ? this.toIssueWithState(r) : undefined;
   }
 
-  getIssuesByColumn(column: BoardColumnId): IssueWithState[] {
+  /** Case-insensitive lookup by a team-prefixed identifier such as ENG-123 */
+  getIssueByIdentifier(identifier: string): IssueWithState | undefined {
+    const r = this.db.prepare(`
+      SELECT i.*, e.data_json AS enrichment_json, d.data_json AS draft_json
+      FROM issues i
+      LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
+      LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
+      WHERE i.identifier = ? COLLATE NOCASE AND i.archived_at IS NULL
+    `).get(identifier) as any;
+    return r ? this.toIssueWithState(r) : undefined;
+  }
+
+  getIssuesByColumn(column: BoardColumnId, teamKey?: string): IssueWithState[] {
     const rows = this.db.prepare(`
       SELECT i.*, e.data_json AS enrichment_json, d.data_json AS draft_json
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
-      WHERE i.board_column = ?
+      WHERE i.board_column = ? AND i.archived_at IS NULL AND (? IS NULL OR i.team_key = ?)
       ORDER BY i.priority ASC, datetime(i.updated_at) DESC
-    `).all(column) as any[];
+    `).all(column, teamKey ?? null, teamKey ?? null) as any[];
     return rows.map(r => this.toIssueWithState(r));
   }
 
-  getIssuesByAssignee(assigneeId: string): IssueWithState[] {
+  getIssuesByAssignee(assigneeId: string, teamKey?: string): IssueWithState[] {
     const rows = this.db.prepare(`
       SELECT i.*, e.data_json AS enrichment_json, d.data_json AS draft_json
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
-      WHERE i.assignee_id = ?
+      WHERE i.assignee_id = ? AND i.archived_at IS NULL AND (? IS NULL OR i.team_key = ?)
       ORDER BY datetime(i.updated_at) DESC
-    `).all(assigneeId) as any[];
+    `).all(assigneeId, teamKey ?? null, teamKey ?? null) as any[];
     return rows.map(r => this.toIssueWithState(r));
   }
 
@@ -502,7 +920,7 @@ export class StateDb {
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
-      WHERE i.cycle_id = ?
+      WHERE i.cycle_id = ? AND i.archived_at IS NULL
       ORDER BY datetime(i.updated_at) DESC
     `).all(cycleId) as any[];
     return rows.map(r => this.toIssueWithState(r));
@@ -513,16 +931,17 @@ export class StateDb {
       .run(column, new Date().toISOString(), issueId);
   }
 
-  searchIssues(query: string, limit = 20): IssueWithState[] {
+  searchIssues(query: string, limit = 20, teamKey?: string): IssueWithState[] {
     const rows = this.db.prepare(`
       SELECT i.*, e.data_json AS enrichment_json, d.data_json AS draft_json
       FROM issues i
       LEFT JOIN issue_enrichments e ON i.issue_id = e.issue_id
       LEFT JOIN issue_drafts d ON i.issue_id = d.issue_id
-      WHERE i.title LIKE ? OR i.identifier LIKE ? OR i.description LIKE ?
+      WHERE i.archived_at IS NULL AND (i.title LIKE ? OR i.identifier LIKE ? OR i.description LIKE ?)
+        AND (? IS NULL OR i.team_key = ?)
       ORDER BY datetime(i.updated_at) DESC
       LIMIT ?
-    `).all(`%${query}%`, `%${query}%`, `%${query}%`, limit) as any[];
+    `).all(`%${query}%`, `%${query}%`, `%${query}%`, teamKey ?? null, teamKey ?? null, limit) as any[];
     return rows.map(r => this.toIssueWithState(r));
   }
 
@@ -575,22 +994,59 @@ export class StateDb {
     this.db.prepare(`DELETE FROM issue_drafts WHERE issue_id = ?`).run(issueId);
   }
 
+  // ─── Issue Comments ───
+
+  upsertIssueComment(comment: IssueComment) {
+    this.db.prepare(`
+      INSERT INTO issue_comments (id, issue_id, body, user_name, created_at, updated_at)
+      VALUES (@id, @issueId, @body, @userName, @createdAt, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        issue_id=excluded.issue_id, body=excluded.body, user_name=excluded.user_name,
+        updated_at=excluded.updated_at, archived_at=NULL
+    `).run({ ...comment, userName: comment.userName ?? null });
+  }
+
+  tombstoneIssueComment(id: string) {
+    this.db.prepare(`UPDATE issue_comments SET archived_at = ? WHERE id = ? AND archived_at IS NULL`).run(new Date().toISOString(), id);
+  }
+
+  /** Linear's `updatedAt` for a stored comment, including tombstoned rows */
+  getIssueCommentUpdatedAt(id: string): string | undefined {
+    const r = this.db.prepare(`SELECT updated_at FROM issue_comments WHERE id = ?`).get(id) as any;
+    return r?.updated_at;
+  }
+
+  /** The latest `limit` comments on an issue, oldest first */
+  getIssueComments(issueId: string, limit = 20): IssueComment[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM issue_comments WHERE issue_id = ? AND archived_at IS NULL ORDER BY created_at DESC LIMIT ?
+      ) ORDER BY created_at ASC
+    `).all(issueId, limit) as any[];
+    return rows.map(r => ({
+      id: r.id, issueId: r.issue_id, body: r.body, userName: r.user_name ?? undefined,
+      createdAt: r.created_at, updatedAt: r.updated_at,
+    }));
+  }
+
   // ─── Cycles ───
 
   upsertCycles(cycles: Cycle[]) {
     const now = new Date().toISOString();
     const stmt = this.db.prepare(`
-      INSERT INTO cycles (id, name, number, starts_at, ends_at, completed_scope_count, total_scope_count, progress, is_active, synced_at)
-      VALUES (?,?,?,?,?,?,?,?,?,?)
+      INSERT INTO cycles (id, name, number, starts_at, ends_at, completed_scope_count, total_scope_count, progress, is_active, synced_at, team_id, team_key)
+      VALUES (?,?,?,?,?,?,?,?,?,?,?,?)
       ON CONFLICT(id) DO UPDATE SET
         name=excluded.name, number=excluded.number, starts_at=excluded.starts_at,
         ends_at=excluded.ends_at, completed_scope_count=excluded.completed_scope_count,
         total_scope_count=excluded.total_scope_count, progress=excluded.progress,
-        is_active=excluded.is_active, synced_at=excluded.synced_at
+        is_active=excluded.is_active, synced_at=excluded.synced_at, archived_at=NULL,
+        team_id=COALESCE(excluded.team_id, cycles.team_id), team_key=COALESCE(excluded.team_key, cycles.team_key)
     `);
     const tx = this.db.transaction((items: Cycle[]) => {
       for (const c of items) {
-        stmt.run(c.id, c.name, c.number, c.startsAt, c.endsAt, c.completedScopeCount, c.totalScopeCount, c.progress, c.isActive ? 1 : 0, now);
+        stmt.run(c.id, c.name, c.number, c.startsAt, c.endsAt, c.completedScopeCount, c.totalScopeCount, c.progress, c.isActive ? 1 : 0, now,
+          c.teamId ?? null, c.teamKey ?? null);
       }
     });
     tx(cycles);
@@ -601,22 +1057,75 @@ export class StateDb {
       id: r.id, name: r.name, number: r.number, startsAt: r.starts_at,
       endsAt: r.ends_at, completedScopeCount: r.completed_scope_count,
       totalScopeCount: r.total_scope_count, progress: r.progress,
-      isActive: Boolean(r.is_active),
+      isActive: Boolean(r.is_active), teamId: r.team_id ?? undefined, teamKey: r.team_key ?? undefined,
     };
   }
 
-  getActiveCycle(): Cycle | undefined {
-    const r = this.db.prepare(`SELECT * FROM cycles WHERE is_active = 1 LIMIT 1`).get() as any;
+  /**
+   * Each team runs its own cycles; without a team filter it is the active cycle that
+   * ends soonest (ties broken by team key), so the choice is stable across calls.
+   * Use getActiveCycles() to see every team's.
+   */
+  getActiveCycle(teamKey?: string): Cycle | undefined {
+    const r = (teamKey
+      ? this.db.prepare(`SELECT * FROM cycles WHERE is_active = 1 AND archived_at IS NULL AND team_key = ? ORDER BY ends_at, id LIMIT 1`).get(teamKey)
+      : this.db.prepare(`SELECT * FROM cycles WHERE is_active = 1 AND archived_at IS NULL ORDER BY ends_at, team_key, id LIMIT 1`).get()) as any;
     return r ? this.toCycle(r) : undefined;
   }
 
+  getActiveCycles(teamKey?: string): Cycle[] {
+    const rows = (teamKey
+      ? this.db.prepare(`SELECT * FROM cycles WHERE is_active = 1 AND archived_at IS NULL AND team_key = ? ORDER BY team_key`).all(teamKey)
+      : this.db.prepare(`SELECT * FROM cycles WHERE is_active = 1 AND archived_at IS NULL ORDER BY team_key`).all()) as any[];
+    return rows.map(r => this.toCycle(r));
+  }
+
   getCycleById(id: string): Cycle | undefined {
-    const r = this.db.prepare(`SELECT * FROM cycles WHERE id = ?`).get(id) as any;
+    const r = this.db.prepare(`SELECT * FROM cycles WHERE id = ? AND archived_at IS NULL`).get(id) as any;
     return r ? this.toCycle(r) : undefined;
   }
 
-  getAllCycles(): Cycle[] {
-    return (this.db.prepare(`SELECT * FROM cycles ORDER BY number DESC`).all() as any[]).map(r => this.toCycle(r));
+  getAllCycles(teamKey?: string): Cycle[] {
+    const rows = (teamKey
+      ? this.db.prepare(`SELECT * FROM cycles WHERE team_key = ? AND archived_at IS NULL ORDER BY number DESC`).all(teamKey)
+      : this.db.prepare(`SELECT * FROM cycles WHERE archived_at IS NULL ORDER BY number DESC`).all()) as any[];
+    return rows.map(r => this.toCycle(r));
+  }
+
+  /** Hidden from every query but kept, so snapshots and issue history still resolve it */
+  tombstoneCycle(id: string) {
+    this.db.prepare(`UPDATE cycles SET archived_at = ? WHERE id = ? AND archived_at IS NULL`).run(new Date().toISOString(), id);
+  }
+
+  // ─── Cycle Snapshots ───
+
+  upsertCycleSnapshot(s: CycleSnapshotRow) {
+    this.db.prepare(`
+      INSERT INTO cycle_snapshots (cycle_id, date, scope_count, completed_count, in_progress_count,
+        scope_points, completed_points, issues_json, captured_at)
+      VALUES (?,?,?,?,?,?,?,?,?)
+      ON CONFLICT(cycle_id, date) DO UPDATE SET
+        scope_count=excluded.scope_count, completed_count=excluded.completed_count,
+        in_progress_count=excluded.in_progress_count, scope_points=excluded.scope_points,
+        completed_points=excluded.completed_points, issues_json=excluded.issues_json,
+        captured_at=excluded.captured_at
+    `).run(s.cycleId, s.date, s.scopeCount, s.completedCount, s.inProgressCount,
+      s.scopePoints, s.completedPoints, JSON.stringify(s.issues), s.capturedAt);
+  }
+
+  getCycleSnapshots(cycleId: string): CycleSnapshotRow[] {
+    const rows = this.db.prepare(`SELECT * FROM cycle_snapshots WHERE cycle_id = ? ORDER BY date ASC`).all(cycleId) as any[];
+    return rows.map(r => ({
+      cycleId: r.cycle_id,
+      date: r.date,
+      scopeCount: r.scope_count,
+      completedCount: r.completed_count,
+      inProgressCount: r.in_progress_count,
+      scopePoints: r.scope_points,
+      completedPoints: r.completed_points,
+      issues: safeJson(r.issues_json, []),
+      capturedAt: r.captured_at,
+    }));
   }
 
   // ─── OKRs ───
@@ -766,45 +1275,291 @@ export class StateDb {
 
   // ─── Chat ───
 
-  createConversation(id: string, title: string): ChatConversation {
+  /** New conversations are private to their owner; without an owner they can only be team-wide */
+  createConversation(id: string, title: string, ownerId?: string): ChatConversation {
     const now = new Date().toISOString();
-    this.db.prepare(`INSERT INTO chat_conversations (id, title, created_at, updated_at) VALUES (?,?,?,?)`)
-      .run(id, title, now, now);
-    return { id, title, createdAt: now, updatedAt: now };
+    const visibility: ConversationVisibility = ownerId ? "private" : "team";
+    this.db.prepare(`INSERT INTO chat_conversations (id, title, owner_id, visibility, created_at, updated_at) VALUES (?,?,?,?,?,?)`)
+      .run(id, title, ownerId ?? null, visibility, now, now);
+    return { id, title, tags: [], titleSource: "default", ownerId, visibility, pinned: false, createdAt: now, updatedAt: now };
+  }
+
+  /** Conversations `viewerId` may see (team ones plus their own), pinned first */
+  getConversations(viewerId?: string): ChatConversation[] {
+    return (this.db.prepare(`
+      SELECT * FROM chat_conversations
+      WHERE visibility = 'team' OR owner_id = ?
+      ORDER BY pinned DESC, updated_at DESC
+    `).all(viewerId ?? null) as any[]).map(r => this.toConversation(r));
+  }
+
+  setConversationSharing(id: string, sharing: { visibility?: ConversationVisibility; pinned?: boolean }) {
+    this.db.prepare(`UPDATE chat_conversations SET visibility = COALESCE(?, visibility), pinned = COALESCE(?, pinned) WHERE id = ?`)
+      .run(sharing.visibility ?? null, sharing.pinned === undefined ? null : sharing.pinned ? 1 : 0, id);
+  }
+
+  getConversation(id: string): ChatConversation | undefined {
+    const r = this.db.prepare(`SELECT * FROM chat_conversations WHERE id = ?`).get(id) as any;
+    return r ? this.toConversation(r) : undefined;
+  }
+
+  /**
+   * Insert a complete conversation (every branch plus its proposals) in one
+   * transaction. Messages must come parents-first.
+   */
+  importConversation(conversation: ChatConversation, messages: ChatMessage[], proposals: ActionProposal[]) {
+    const tx = this.db.transaction(() => {
+      this.db.prepare(`INSERT INTO chat_conversations (id, title, tags_json, title_source, owner_id, visibility, pinned, created_at, updated_at) VALUES (?,?,?,?,?,?,?,?,?)`)
+        .run(
+          conversation.id, conversation.title, JSON.stringify(conversation.tags), conversation.titleSource,
+          conversation.ownerId ?? null, conversation.visibility, conversation.pinned ? 1 : 0,
+          conversation.createdAt, conversation.updatedAt,
+        );
+      for (const m of messages) this.addMessage(m);
+      for (const p of proposals) {
+        this.createActionProposal(p);
+        this.recordActionTransition({ proposalId: p.id, to: p.state, detail: "Imported from a conversation export", at: conversation.updatedAt });
+      }
+      this.db.prepare(`UPDATE chat_conversations SET active_leaf_id = ?, updated_at = ? WHERE id = ?`)
+        .run(conversation.activeLeafId ?? null, conversation.updatedAt, conversation.id);
+    });
+    tx();
   }
 
-  getConversations(): ChatConversation[] {
-    return (this.db.prepare(`SELECT * FROM chat_conversations ORDER BY updated_at DESC`).all() as any[]).map(r => ({
-      id: r.id, title: r.title, createdAt: r.created_at, updatedAt: r.updated_at,
-    }));
+  /**
+   * Set the title and/or tags. Generated metadata only lands while the title is
+   * still the default, so it can't overwrite a rename that happened meanwhile.
+   * Returns false when nothing was updated.
+   */
+  updateConversationMeta(id: string, meta: { title?: string; tags?: ConversationTag[] }, source: "generated" | "manual"): boolean {
+    return this.db.prepare(`
+      UPDATE chat_conversations SET title = COALESCE(?, title), tags_json = COALESCE(?, tags_json), title_source = ?
+      WHERE id = ?${source === "generated" ? ` AND title_source = 'default'` : ""}
+    `).run(meta.title ?? null, meta.tags ? JSON.stringify(meta.tags) : null, source, id).changes > 0;
+  }
+
+  private toConversation(r: any): ChatConversation {
+    return {
+      id: r.id,
+      title: r.title,
+      tags: safeJson<ConversationTag[]>(r.tags_json, []),
+      titleSource: r.title_source ?? "default",
+      ownerId: r.owner_id ?? undefined,
+      visibility: r.visibility ?? "team",
+      pinned: !!r.pinned,
+      activeLeafId: r.active_leaf_id ?? undefined,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at,
+    };
   }
 
+  /** Insert a message and make it the conversation's active leaf */
   addMessage(msg: ChatMessage) {
-    this.db.prepare(`INSERT INTO chat_messages (id, conversation_id, role, content, tool_calls_json, matched_skills_json, created_at) VALUES (?,?,?,?,?,?,?)`)
-      .run(msg.id, msg.conversationId, msg.role, msg.content, msg.toolCalls ? JSON.stringify(msg.toolCalls) : null, msg.matchedSkills ? JSON.stringify(msg.matchedSkills) : null, msg.createdAt);
-    this.db.prepare(`UPDATE chat_conversations SET updated_at = ? WHERE id = ?`)
-      .run(msg.createdAt, msg.conversationId);
+    this.db.prepare(`INSERT INTO chat_messages (id, conversation_id, parent_id, role, content, tool_calls_json, matched_skills_json, cancelled, created_at) VALUES (?,?,?,?,?,?,?,?,?)`)
+      .run(msg.id, msg.conversationId, msg.parentId ?? null, msg.role, msg.content, msg.toolCalls ? JSON.stringify(msg.toolCalls) : null, msg.matchedSkills ? JSON.stringify(msg.matchedSkills) : null, msg.cancelled ? 1 : 0, msg.createdAt);
+    this.db.prepare(`UPDATE chat_conversations SET active_leaf_id = ?, updated_at = ? WHERE id = ?`)
+      .run(msg.id, msg.createdAt, msg.conversationId);
   }
 
+  /** Every message of the conversation across all branches, oldest first */
+  getAllMessages(conversationId: string): ChatMessage[] {
+    return (this.db.prepare(`SELECT * FROM chat_messages WHERE conversation_id = ? ORDER BY created_at`).all(conversationId) as any[])
+      .map(r => this.toChatMessage(r));
+  }
+
+  getMessage(id: string): ChatMessage | undefined {
+    const r = this.db.prepare(`SELECT * FROM chat_messages WHERE id = ?`).get(id) as any;
+    return r ? this.toChatMessage(r) : undefined;
+  }
+
+  /**
+   * The active branch, root to leaf. Messages with siblings (other edits or
+   * regenerations of the same turn) carry `siblingIds` so the UI can switch.
+   */
   getMessages(conversationId: string): ChatMessage[] {
-    return (this.db.prepare(`SELECT * FROM chat_messages WHERE conversation_id = ? ORDER BY created_at`).all(conversationId) as any[]).map(r => ({
-      id: r.id, conversationId: r.conversation_id, role: r.role, content: r.content,
+    const all = this.getAllMessages(conversationId);
+    const byId = new Map(all.map(m => [m.id, m]));
+    const children = new Map<string | undefined, string[]>();
+    for (const m of all) children.set(m.parentId, [...(children.get(m.parentId) ?? []), m.id]);
+
+    const path: ChatMessage[] = [];
+    for (let m = byId.get(this.getActiveLeafId(conversationId) ?? ""); m; m = m.parentId ? byId.get(m.parentId) : undefined) {
+      const siblings = children.get(m.parentId) ?? [];
+      path.unshift(siblings.length > 1 ? { ...m, siblingIds: siblings } : m);
+    }
+    return path;
+  }
+
+  getActiveLeafId(conversationId: string): string | undefined {
+    const r = this.db.prepare(`SELECT active_leaf_id FROM chat_conversations WHERE id = ?`).get(conversationId) as any;
+    return r?.active_leaf_id ?? undefined;
+  }
+
+  /** Point the conversation at a different branch; null clears it (e.g. editing the first message) */
+  setActiveLeaf(conversationId: string, messageId: string | null) {
+    this.db.prepare(`UPDATE chat_conversations SET active_leaf_id = ? WHERE id = ?`).run(messageId, conversationId);
+  }
+
+  /** Newest leaf below `messageId`, following the latest child at each step */
+  getLatestLeafUnder(messageId: string): string {
+    let id = messageId;
+    for (;;) {
+      const child = this.db.prepare(`SELECT id FROM chat_messages WHERE parent_id = ? ORDER BY created_at DESC LIMIT 1`).get(id) as any;
+      if (!child) return id;
+      id = child.id;
+    }
+  }
+
+  private toChatMessage(r: any): ChatMessage {
+    return {
+      id: r.id, conversationId: r.conversation_id, parentId: r.parent_id ?? undefined, role: r.role, content: r.content,
       toolCalls: r.tool_calls_json ? safeJson(r.tool_calls_json, undefined) : undefined,
       matchedSkills: r.matched_skills_json ? safeJson<SkillMatch[] | undefined>(r.matched_skills_json, undefined) : undefined,
+      cancelled: r.cancelled ? true : undefined,
       createdAt: r.created_at,
-    }));
+    };
   }
 
+  /**
+   * Full-text search over message content, best matches first, limited to conversations
+   * `viewerId` may see. `hasApprovedActions` keeps only conversations where the user
+   * approved at least one action (true) or none (false).
+   */
+  searchMessages(query: string, filters: { viewerId?: string; from?: string; to?: string; hasApprovedActions?: boolean; limit?: number } = {}): ChatSearchHit[] {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+    const approved = filters.hasApprovedActions === undefined ? null : filters.hasApprovedActions ? 1 : 0;
+    const rows = this.db.prepare(`
+      SELECT m.id, m.conversation_id, m.role, m.created_at, c.title,
+        snippet(chat_messages_fts, 0, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', 16) AS snippet
+      FROM chat_messages_fts
+      JOIN chat_messages m ON m.rowid = chat_messages_fts.rowid
+      JOIN chat_conversations c ON c.id = m.conversation_id
+      WHERE chat_messages_fts MATCH ?
+        AND (c.visibility = 'team' OR c.owner_id = ?)
+        AND (? IS NULL OR m.created_at >= ?)
+        AND (? IS NULL OR m.created_at <= ?)
+        AND (? IS NULL OR EXISTS (
+          SELECT 1 FROM action_proposals p
+          WHERE p.conversation_id = m.conversation_id AND p.state IN ('approved', 'executing', 'succeeded', 'failed', 'reverted')
+        ) = ?)
+      ORDER BY bm25(chat_messages_fts)
+      LIMIT ?
+    `).all(
+      match,
+      filters.viewerId ?? null,
+      filters.from ?? null, filters.from ?? null,
+      filters.to ?? null, filters.to ?? null,
+      approved, approved,
+      filters.limit ?? 50,
+    ) as any[];
+
+    // Hits on abandoned branches are flagged so the UI can switch to them
+    const branches = new Map<string, Set<string>>();
+    return rows.map(r => {
+      if (!branches.has(r.conversation_id)) {
+        branches.set(r.conversation_id, new Set(this.getMessages(r.conversation_id).map(m => m.id)));
+      }
+      const { text, highlights } = parseSnippet(r.snippet ?? "");
+      return {
+        messageId: r.id,
+        conversationId: r.conversation_id,
+        conversationTitle: r.title,
+        role: r.role,
+        snippet: text,
+        highlights,
+        onActiveBranch: branches.get(r.conversation_id)!.has(r.id),
+        createdAt: r.created_at,
+      };
+    });
+  }
+
+  /** Running summary and the ID of the last message folded into it */
+  getConversationSummary(conversationId: string): { summary: string; summarizedThroughId: string } | undefined {
+    const r = this.db.prepare(`SELECT summary, summarized_through_id FROM chat_conversations WHERE id = ?`).get(conversationId) as any;
+    return r?.summary && r.summarized_through_id ? { summary: r.summary, summarizedThroughId: r.summarized_through_id } : undefined;
+  }
+
+  setConversationSummary(conversationId: string, summary: string, summarizedThroughId: string) {
+    this.db.prepare(`UPDATE chat_conversations SET summary = ?, summarized_through_id = ? WHERE id = ?`)
+      .run(summary, summarizedThroughId, conversationId);
+  }
+
+  /** Messages and runs go with it; its action proposals stay behind as audit history */
   deleteConversation(conversationId: string) {
+    this.db.prepare(`DELETE FROM chat_run_events WHERE run_id IN (SELECT id FROM chat_runs WHERE conversation_id = ?)`).run(conversationId);
+    this.db.prepare(`DELETE FROM chat_runs WHERE conversation_id = ?`).run(conversationId);
     this.db.prepare(`DELETE FROM chat_conversations WHERE id = ?`).run(conversationId);
   }
 
+  // ─── Chat Runs ───
+
+  createChatRun(run: ChatRun) {
+    this.db.prepare(`INSERT INTO chat_runs (id, conversation_id, status, created_at, updated_at) VALUES (?,?,?,?,?)`)
+      .run(run.id, run.conversationId, run.status, run.createdAt, run.updatedAt);
+  }
+
+  finishChatRun(id: string, status: ChatRunStatus, details: { messageId?: string; error?: string } = {}) {
+    this.db.prepare(`UPDATE chat_runs SET status = ?, message_id = COALESCE(?, message_id), error = ?, updated_at = ? WHERE id = ?`)
+      .run(status, details.messageId ?? null, details.error ?? null, new Date().toISOString(), id);
+  }
+
+  getChatRun(id: string): ChatRun | undefined {
+    const r = this.db.prepare(`SELECT * FROM chat_runs WHERE id = ?`).get(id) as any;
+    return r ? this.toChatRun(r) : undefined;
+  }
+
+  getActiveChatRun(conversationId: string): ChatRun | undefined {
+    const r = this.db.prepare(`SELECT * FROM chat_runs WHERE conversation_id = ? AND status = 'running' ORDER BY created_at DESC LIMIT 1`).get(conversationId) as any;
+    return r ? this.toChatRun(r) : undefined;
+  }
+
+  /** Runs left "running" by a previous process can never finish */
+  failInterruptedChatRuns(): number {
+    return this.db.prepare(`UPDATE chat_runs SET status = 'failed', error = 'Interrupted by a server restart', updated_at = ? WHERE status = 'running'`)
+      .run(new Date().toISOString()).changes;
+  }
+
+  /** Persist a batch of run events in one transaction */
+  appendChatRunEvents(runId: string, events: Array<{ seq: number; event: ChatStreamEvent }>) {
+    const stmt = this.db.prepare(`INSERT INTO chat_run_events (run_id, seq, event_json, created_at) VALUES (?,?,?,?)`);
+    const now = new Date().toISOString();
+    const tx = this.db.transaction(() => {
+      for (const { seq, event } of events) stmt.run(runId, seq, JSON.stringify(event), now);
+    });
+    tx();
+  }
+
+  getChatRunEvents(runId: string, afterSeq = 0): Array<{ seq: number; event: ChatStreamEvent }> {
+    const rows = this.db.prepare(`SELECT seq, event_json FROM chat_run_events WHERE run_id = ? AND seq > ? ORDER BY seq`).all(runId, afterSeq) as any[];
+    return rows.map(r => ({ seq: r.seq, event: JSON.parse(r.event_json) as ChatStreamEvent }));
+  }
+
+  /** Drop replay logs of finished runs; the saved messages remain the record */
+  pruneChatRunEvents(finishedBefore: string): number {
+    return this.db.prepare(`
+      DELETE FROM chat_run_events WHERE run_id IN (SELECT id FROM chat_runs WHERE status != 'running' AND updated_at < ?)
+    `).run(finishedBefore).changes;
+  }
+
+  private toChatRun(r: any): ChatRun {
+    return {
+      id: r.id,
+      conversationId: r.conversation_id,
+      status: r.status as ChatRunStatus,
+      messageId: r.message_id ?? undefined,
+      error: r.error ?? undefined,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at,
+    };
+  }
+
   // ─── Action Proposals ───
 
   createActionProposal(proposal: ActionProposal): void {
     this.db.prepare(`
-      INSERT INTO action_proposals (id, conversation_id, message_id, tool_name, tool_arguments_json, description, preview_json, state, category, idempotency_key, result, result_url, error, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO action_proposals (id, conversation_id, message_id, tool_name, tool_arguments_json, description, preview_json, state, category, idempotency_key, result, result_url, error, policy_json, snapshot_json, expires_at, imported, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       proposal.id,
       proposal.conversationId,
@@ -819,24 +1574,117 @@ export class StateDb {
       proposal.result ?? null,
       proposal.resultUrl ?? null,
       proposal.error ?? null,
+      proposal.policy ? JSON.stringify(proposal.policy) : null,
+      proposal.snapshot ? JSON.stringify(proposal.snapshot) : null,
+      proposal.expiresAt ?? null,
+      proposal.imported ? 1 : 0,
       proposal.createdAt,
       proposal.updatedAt,
     );
   }
 
-  updateActionState(id: string, state: ActionState, updates?: { result?: string; resultUrl?: string; error?: string }): void {
+  /** Re-baseline a proposal on its targets' current state, keeping the conflicts that prompted it */
+  setActionSnapshot(id: string, snapshot: ActionTargetSnapshot[], preview: ActionPreviewField[], conflicts: ActionConflict[]): void {
+    this.db.prepare(`UPDATE action_proposals SET snapshot_json = ?, preview_json = ?, conflicts_json = ?, updated_at = ? WHERE id = ?`)
+      .run(JSON.stringify(snapshot), JSON.stringify(preview), JSON.stringify(conflicts), new Date().toISOString(), id);
+  }
+
+  /** Proposals still awaiting a decision after their expiry */
+  getOverdueActionProposals(now: string): ActionProposal[] {
+    const rows = this.db.prepare(`SELECT * FROM action_proposals WHERE state = 'proposed' AND expires_at IS NOT NULL AND expires_at <= ?`).all(now) as any[];
+    return rows.map(r => this.toActionProposal(r));
+  }
+
+  /** Update the recorded policy decision, e.g. to add an approver */
+  setActionPolicy(id: string, policy: AppliedApprovalPolicy): void {
+    this.db.prepare(`UPDATE action_proposals SET policy_json = ?, updated_at = ? WHERE id = ?`)
+      .run(JSON.stringify(policy), new Date().toISOString(), id);
+  }
+
+  updateActionState(id: string, state: ActionState, updates?: { result?: string; resultUrl?: string; error?: string; retryable?: boolean }): void {
     this.db.prepare(`
-      UPDATE action_proposals SET state = ?, result = COALESCE(?, result), result_url = COALESCE(?, result_url), error = COALESCE(?, error), updated_at = ? WHERE id = ?
+      UPDATE action_proposals SET state = ?, result = COALESCE(?, result), result_url = COALESCE(?, result_url), error = COALESCE(?, error), retryable = COALESCE(?, retryable), updated_at = ? WHERE id = ?
     `).run(
       state,
       updates?.result ?? null,
       updates?.resultUrl ?? null,
       updates?.error ?? null,
+      updates?.retryable === undefined ? null : updates.retryable ? 1 : 0,
       new Date().toISOString(),
       id,
     );
   }
 
+  recordActionTransition(t: Omit<ActionTransition, "actorName">): void {
+    this.db.prepare(`INSERT INTO action_transitions (proposal_id, from_state, to_state, actor_id, detail, created_at) VALUES (?,?,?,?,?,?)`)
+      .run(t.proposalId, t.from ?? null, t.to, t.actorId ?? null, t.detail ?? null, t.at);
+  }
+
+  /** Transition timelines for the given proposals, oldest first */
+  getActionTransitions(proposalIds: string[]): ActionTransition[] {
+    if (proposalIds.length === 0) return [];
+    const rows = this.db.prepare(`
+      SELECT * FROM action_transitions
+      WHERE proposal_id IN (SELECT value FROM json_each(?))
+      ORDER BY id
+    `).all(JSON.stringify(proposalIds)) as any[];
+    return rows.map(r => ({
+      proposalId: r.proposal_id,
+      from: r.from_state ?? undefined,
+      to: r.to_state,
+      actorId: r.actor_id ?? undefined,
+      detail: r.detail ?? undefined,
+      at: r.created_at,
+    }));
+  }
+
+  /**
+   * Proposals across all conversations, newest first. `issue` matches an issue ID or
+   * identifier in the tool arguments or in what the action recorded (e.g. a created issue).
+   */
+  queryActionProposals(filters: {
+    states?: ActionState[];
+    toolName?: string;
+    category?: ActionCategory;
+    from?: string;
+    to?: string;
+    issue?: string;
+    limit?: number;
+  } = {}): ActionProposal[] {
+    const states = filters.states?.length ? JSON.stringify(filters.states) : null;
+    const issue = filters.issue ? `%"${filters.issue.replace(/[%"]/g, "")}"%` : null;
+    const rows = this.db.prepare(`
+      SELECT * FROM action_proposals
+      WHERE (? IS NULL OR state IN (SELECT value FROM json_each(?)))
+        AND (? IS NULL OR tool_name = ?)
+        AND (? IS NULL OR category = ?)
+        AND (? IS NULL OR created_at >= ?)
+        AND (? IS NULL OR created_at <= ?)
+        AND (? IS NULL OR tool_arguments_json LIKE ? OR before_image_json LIKE ?)
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).all(
+      states, states,
+      filters.toolName ?? null, filters.toolName ?? null,
+      filters.category ?? null, filters.category ?? null,
+      filters.from ?? null, filters.from ?? null,
+      filters.to ?? null, filters.to ?? null,
+      issue, issue, issue,
+      filters.limit ?? 200,
+    ) as any[];
+    return rows.map(r => this.toActionProposal(r));
+  }
+
+  /** Record (or, after a partial undo, narrow) what an executed action changed */
+  setActionBeforeImage(id: string, image: ActionBeforeImage): void {
+    this.db.prepare(`UPDATE action_proposals SET before_image_json = ? WHERE id = ?`).run(JSON.stringify(image), id);
+  }
+
+  getActionBeforeImage(id: string): ActionBeforeImage | undefined {
+    const r = this.db.prepare(`SELECT before_image_json FROM action_proposals WHERE id = ?`).get(id) as any;
+    return r?.before_image_json ? safeJson<ActionBeforeImage | undefined>(r.before_image_json, undefined) : undefined;
+  }
+
   getActionProposal(id: string): ActionProposal | null {
     const r = this.db.prepare(`SELECT * FROM action_proposals WHERE id = ?`).get(id) as any;
     return r ? this.toActionProposal(r) : null;
@@ -872,6 +1720,13 @@ export class StateDb {
       result: r.result ?? undefined,
       resultUrl: r.result_url ?? undefined,
       error: r.error ?? undefined,
+      retryable: r.retryable == null ? undefined : Boolean(r.retryable),
+      undoable: r.state === "succeeded" && r.before_image_json ? true : undefined,
+      policy: r.policy_json ? safeJson<AppliedApprovalPolicy | undefined>(r.policy_json, undefined) : undefined,
+      snapshot: r.snapshot_json ? safeJson<ActionTargetSnapshot[] | undefined>(r.snapshot_json, undefined) : undefined,
+      expiresAt: r.expires_at ?? undefined,
+      conflicts: r.conflicts_json ? safeJson<ActionConflict[] | undefined>(r.conflicts_json, undefined) : undefined,
+      imported: r.imported ? true : undefined,
       createdAt: r.created_at,
       updatedAt: r.updated_at,
     };
@@ -940,6 +1795,62 @@ export class StateDb {
     };
   }
 
+  // ─── Approval Policies ───
+
+  createApprovalPolicy(policy: ApprovalPolicy): void {
+    this.db.prepare(`
+      INSERT INTO approval_policies (id, name, description, priority, enabled, match_json, effect, created_at, updated_at)
+      VALUES (?,?,?,?,?,?,?,?,?)
+    `).run(policy.id, policy.name, policy.description ?? null, policy.priority, policy.enabled ? 1 : 0, JSON.stringify(policy.match), policy.effect, policy.createdAt, policy.updatedAt);
+  }
+
+  updateApprovalPolicy(id: string, updates: Partial<Omit<ApprovalPolicy, "id" | "createdAt">>): void {
+    const existing = this.getApprovalPolicy(id);
+    if (!existing) return;
+    const next = { ...existing, ...updates };
+    this.db.prepare(`
+      UPDATE approval_policies SET name=?, description=?, priority=?, enabled=?, match_json=?, effect=?, updated_at=? WHERE id=?
+    `).run(
+      next.name,
+      next.description ?? null,
+      next.priority,
+      next.enabled ? 1 : 0,
+      JSON.stringify(next.match),
+      next.effect,
+      updates.updatedAt ?? new Date().toISOString(),
+      id,
+    );
+  }
+
+  deleteApprovalPolicy(id: string): boolean {
+    return this.db.prepare(`DELETE FROM approval_policies WHERE id = ?`).run(id).changes > 0;
+  }
+
+  getApprovalPolicy(id: string): ApprovalPolicy | undefined {
+    const r = this.db.prepare(`SELECT * FROM approval_policies WHERE id = ?`).get(id) as any;
+    return r ? this.toApprovalPolicy(r) : undefined;
+  }
+
+  /** In evaluation order */
+  getApprovalPolicies(): ApprovalPolicy[] {
+    return (this.db.prepare(`SELECT * FROM approval_policies ORDER BY priority, created_at`).all() as any[])
+      .map(r => this.toApprovalPolicy(r));
+  }
+
+  private toApprovalPolicy(r: any): ApprovalPolicy {
+    return {
+      id: r.id,
+      name: r.name,
+      description: r.description ?? undefined,
+      priority: r.priority,
+      enabled: Boolean(r.enabled),
+      match: safeJson(r.match_json, {}),
+      effect: r.effect,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at,
+    };
+  }
+
   // ─── WIP Limits ───
 
   getWipLimits(): WipLimit[] {
@@ -990,21 +1901,42 @@ export class StateDb {
     });
   }
 
+  // ─── Sync Cursors ───
+
+  /** Cursors are keyed per resource, and per team (`scope`) for team-owned resources */
+  getSyncCursor(resource: SyncResource, scope?: string): SyncCursor {
+    const r = this.db.prepare(`SELECT cursors_json FROM sync_state WHERE id = 1`).get() as any;
+    const cursors = safeJson<Record<string, SyncCursor>>(r?.cursors_json, {});
+    return cursors[scope ? `${resource}:${scope}` : resource] ?? {};
+  }
+
+  setSyncCursor(resource: SyncResource, cursor: SyncCursor, scope?: string) {
+    const r = this.db.prepare(`SELECT cursors_json FROM sync_state WHERE id = 1`).get() as any;
+    const cursors = safeJson<Record<string, SyncCursor>>(r?.cursors_json, {});
+    cursors[scope ? `${resource}:${scope}` : resource] = cursor;
+    this.db.prepare(`UPDATE sync_state SET cursors_json = ? WHERE id = 1`).run(JSON.stringify(cursors));
+  }
+
   // ─── Aggregate Queries ───
 
-  getWipCountByAssignee(): Map<string, number> {
+  getWipCountByAssignee(teamKey?: string): Map<string, number> {
     const rows = this.db.prepare(`
       SELECT assignee_id, COUNT(*) as cnt FROM issues
-      WHERE board_column IN ('in_progress','in_review') AND assignee_id IS NOT NULL
+      WHERE board_column IN ('in_progress','in_review') AND assignee_id IS NOT NULL AND archived_at IS NULL
+        AND (? IS NULL OR team_key = ?)
       GROUP BY assignee_id
-    `).all() as any[];
+    `).all(teamKey ?? null, teamKey ?? null) as any[];
     const map = new Map<string, number>();
     for (const r of rows) map.set(r.assignee_id, r.cnt);
     return map;
   }
 
-  getColumnCounts(): Record<BoardColumnId, number> {
-    const rows = this.db.prepare(`SELECT board_column, COUNT(*) as cnt FROM issues GROUP BY board_column`).all() as any[];
+  getColumnCounts(teamKey?: string): Record<BoardColumnId, number> {
+    const rows = this.db.prepare(`
+      SELECT board_column, COUNT(*) as cnt FROM issues
+      WHERE archived_at IS NULL AND (? IS NULL OR team_key = ?)
+      GROUP BY board_column
+    `).all(teamKey ?? null, teamKey ?? null) as any[];
     const result: Record<string, number> = { backlog: 0, todo: 0, in_progress: 0, in_review: 0, done: 0 };
     for (const r of rows) result[r.board_column] = r.cnt;
     return result as Record<BoardColumnId, number>;
@@ -1114,7 +2046,8 @@ export class StateDb {
         name=excluded.name, description=excluded.description, state=excluded.state,
         progress=excluded.progress, start_date=excluded.start_date, target_date=excluded.target_date,
         url=excluded.url, issue_count=excluded.issue_count, completed_issue_count=excluded.completed_issue_count,
-        member_ids_json=excluded.member_ids_json, synced_at=excluded.synced_at, updated_at=datetime('now')
+        member_ids_json=excluded.member_ids_json, synced_at=excluded.synced_at, updated_at=datetime('now'),
+        archived_at=NULL
     `);
     const tx = this.db.transaction((items: typeof projects) => {
       for (const p of items) {
@@ -1127,16 +2060,20 @@ export class StateDb {
   }
 
   getAllProjects(): ProjectRow[] {
-    return (this.db.prepare(`SELECT * FROM projects ORDER BY name`).all() as any[]).map(r => this.toProjectRow(r));
+    return (this.db.prepare(`SELECT * FROM projects WHERE archived_at IS NULL ORDER BY name`).all() as any[]).map(r => this.toProjectRow(r));
   }
 
   getProjectById(id: string): ProjectRow | undefined {
-    const r = this.db.prepare(`SELECT * FROM projects WHERE id = ?`).get(id) as any;
+    const r = this.db.prepare(`SELECT * FROM projects WHERE id = ? AND archived_at IS NULL`).get(id) as any;
     return r ? this.toProjectRow(r) : undefined;
   }
 
+  tombstoneProject(id: string) {
+    this.db.prepare(`UPDATE projects SET archived_at = ? WHERE id = ? AND archived_at IS NULL`).run(new Date().toISOString(), id);
+  }
+
   getProjectsByState(state: string): ProjectRow[] {
-    return (this.db.prepare(`SELECT * FROM projects WHERE state = ? ORDER BY name`).all(state) as any[]).map(r => this.toProjectRow(r));
+    return (this.db.prepare(`SELECT * FROM projects WHERE state = ? AND archived_at IS NULL ORDER BY name`).all(state) as any[]).map(r => this.toProjectRow(r));
   }
 
   private toProjectRow(r: any): ProjectRow {
@@ -1197,6 +2134,15 @@ export class StateDb {
 
 // ─── Row Types ───
 
+export type SyncResource = "issues" | "cycles" | "projects" | "customers";
+
+export type SyncCursor = {
+  /** Largest `updatedAt` seen from Linear for this resource */
+  highWaterMark?: string;
+  /** When the last full (non-incremental) reconciliation pass completed */
+  lastFullSync?: string;
+};
+
 export type ClientRow = {
   id: number;
   linearCustomerId: string;
@@ -1218,6 +2164,19 @@ export type ClientRow = {
   updatedAt: string;
 };
 
+export type CycleSnapshotRow = {
+  cycleId: string;
+  /** UTC day (YYYY-MM-DD) */
+  date: string;
+  scopeCount: number;
+  completedCount: number;
+  inProgressCount: number;
+  scopePoints: number;
+  completedPoints: number;
+  issues: Array<{ issueId: string; identifier: string }>;
+  capturedAt: string;
+};
+
 export type ProjectRow = {
   id: string;
   name: string;
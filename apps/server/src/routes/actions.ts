@@ -0,0 +1,48 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import type { ActionState } from "@linearapp/shared";
+import type { ActionAuditService } from "../services/actionAuditService";
+import { isoTimestamp, viewerOf } from "./chat";
+
+const ACTION_STATES: [ActionState, ...ActionState[]] = ["proposed", "approved", "declined", "executing", "succeeded", "failed", "reverted", "expired"];
+
+const filtersSchema = z.object({
+  // Comma-separated, e.g. state=succeeded,reverted
+  state: z.string().optional()
+    .transform(s => s?.split(",").map(v => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(ACTION_STATES)).optional()),
+  toolName: z.string().min(1).optional(),
+  category: z.enum(["linear", "okr", "internal"]).optional(),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+  issue: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export function registerActionRoutes(app: FastifyInstance, audit: ActionAuditService) {
+  // Audit log of assistant actions across all conversations, with their state timelines
+  app.get("/api/actions", async (request, reply) => {
+    const parsed = filtersSchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const { state, ...filters } = parsed.data;
+    return { ok: true, actions: audit.list({ ...filters, states: state }, viewerOf(request)) };
+  });
+
+  // Download the filtered audit log as CSV or JSON
+  app.get("/api/actions/export", async (request, reply) => {
+    const parsed = filtersSchema.extend({ format: z.enum(["csv", "json"]).default("csv") }).safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const { state, format, ...filters } = parsed.data;
+    const actions = audit.list({ ...filters, states: state }, viewerOf(request));
+
+    reply.header("Content-Disposition", `attachment; filename="actions-${new Date().toISOString().slice(0, 10)}.${format}"`);
+    if (format === "csv") {
+      return reply.type("text/csv; charset=utf-8").send(audit.toCsv(actions));
+    }
+    return { exportedAt: new Date().toISOString(), actions };
+  });
+}
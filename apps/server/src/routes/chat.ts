@@ -1,25 +1,259 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import type { ChatConversation, ChatStreamEvent, ConversationTag } from "@linearapp/shared";
 import { z } from "zod";
 import type { ChatService } from "../services/chatService";
-import type { ApprovalManager } from "../services/approvalManager";
+import { ActionConflictError, type ApprovalManager } from "../services/approvalManager";
+import type { ChatRunService } from "../services/chatRunService";
+import type { ChatExportService } from "../services/chatExportService";
+import { CONVERSATION_TAGS } from "../services/conversationTitleService";
 import type { StateDb } from "../db";
 
-export function registerChatRoutes(app: FastifyInstance, db: StateDb, chatService: ChatService, approvalManager: ApprovalManager) {
+/** JSON exports carry full tool results, so long conversations outgrow Fastify's 1 MiB default */
+const IMPORT_BODY_LIMIT = 20 * 1024 * 1024;
+
+const tagSchema = z.enum(CONVERSATION_TAGS as [ConversationTag, ...ConversationTag[]]);
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.string(),
+  result: z.string().optional(),
+});
+
+const exportSchema = z.object({
+  format: z.literal("linearapp.chat"),
+  version: z.literal(1),
+  exportedAt: z.string(),
+  conversation: z.object({
+    id: z.string(),
+    title: z.string().min(1),
+    tags: z.array(tagSchema).default([]),
+    titleSource: z.enum(["default", "generated", "manual"]).default("default"),
+    ownerId: z.string().optional(),
+    visibility: z.enum(["private", "team"]).default("team"),
+    pinned: z.boolean().default(false),
+    activeLeafId: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  }),
+  messages: z.array(z.object({
+    id: z.string().min(1),
+    conversationId: z.string(),
+    parentId: z.string().optional(),
+    role: z.enum(["user", "assistant", "system"]),
+    content: z.string(),
+    toolCalls: z.array(toolCallSchema).optional(),
+    matchedSkills: z.array(z.object({ skillId: z.string(), skillName: z.string() })).optional(),
+    cancelled: z.boolean().optional(),
+    createdAt: z.string(),
+  })),
+  proposals: z.array(z.object({
+    id: z.string().min(1),
+    conversationId: z.string(),
+    messageId: z.string(),
+    toolName: z.string(),
+    toolArguments: z.record(z.unknown()),
+    description: z.string(),
+    preview: z.array(z.object({ field: z.string(), oldValue: z.string().optional(), newValue: z.string() })),
+    state: z.enum(["proposed", "approved", "declined", "executing", "succeeded", "failed", "reverted", "expired"]),
+    category: z.enum(["linear", "okr", "internal"]).optional(),
+    idempotencyKey: z.string(),
+    result: z.string().optional(),
+    resultUrl: z.string().optional(),
+    error: z.string().optional(),
+    retryable: z.boolean().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })),
+}).refine(data => {
+  // Parents must be part of the export, or the branch tree can't be rebuilt
+  const ids = new Set(data.messages.map(m => m.id));
+  return data.messages.every(m => !m.parentId || ids.has(m.parentId));
+}, { message: "Every parentId must refer to a message in the export" });
+
+/**
+ * Team member making the request (Linear user ID), from the X-User-Id header the
+ * web app sends, or a `userId` query parameter on plain download links. It scopes
+ * conversations; it is not authentication. app.ts refuses IDs that aren't tracked
+ * members before any chat or action route runs.
+ */
+export function viewerOf(request: FastifyRequest): string | undefined {
+  const header = request.headers["x-user-id"];
+  const value = typeof header === "string" ? header : (request.query as { userId?: string } | undefined)?.userId;
+  return value?.trim() || undefined;
+}
+
+/**
+ * An ISO timestamp with any offset, normalized to UTC `Z` form so it compares
+ * correctly against the stored timestamps as a string.
+ */
+export const isoTimestamp = z.string().datetime({ offset: true }).transform(v => new Date(v).toISOString());
+
+/** Team conversations are open to everyone; private ones only to their owner */
+function canView(request: FastifyRequest, conversation: ChatConversation | undefined): conversation is ChatConversation {
+  return !!conversation && (conversation.visibility === "team" || conversation.ownerId === viewerOf(request));
+}
+
+/** Renaming, sharing, pinning and deleting are the owner's; conversations without one are anyone's */
+function canManage(request: FastifyRequest, conversation: ChatConversation): boolean {
+  return !conversation.ownerId || conversation.ownerId === viewerOf(request);
+}
+
+/** Conversations the requester can't see are reported as missing rather than forbidden */
+function conversationNotFound(reply: FastifyReply) {
+  return reply.status(404).send({ ok: false, error: "Conversation not found" });
+}
+
+/**
+ * Stream a chat run as server-sent events, replaying everything after `afterSeq`
+ * first. Each frame carries its sequence number as the SSE `id`. A client that
+ * disconnects only detaches; the run keeps going for a grace period in which it
+ * can be reattached, and is cancelled if nobody does.
+ */
+function pipeRun(reply: FastifyReply, runs: ChatRunService, runId: string, afterSeq: number): Promise<void> {
+  return new Promise(resolve => {
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+    });
+
+    let unsubscribe: (() => void) | undefined;
+    let ended = false;
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      unsubscribe?.();
+      if (!reply.raw.writableEnded) reply.raw.end();
+      resolve();
+    };
+    reply.raw.on("close", end);
+
+    unsubscribe = runs.subscribe(runId, afterSeq, {
+      onEvent: (seq, event: ChatStreamEvent) => {
+        if (!ended) reply.raw.write(`id: ${seq}\ndata: ${JSON.stringify(event)}\n\n`);
+      },
+      onEnd: end,
+    });
+    if (!unsubscribe) end();
+    else if (ended) unsubscribe();
+  });
+}
+
+export function registerChatRoutes(
+  app: FastifyInstance,
+  db: StateDb,
+  chatService: ChatService,
+  approvalManager: ApprovalManager,
+  runs: ChatRunService,
+  exporter: ChatExportService,
+) {
+  /**
+   * One generation per conversation at a time: a second one would interleave with it,
+   * and moving the active leaf meanwhile would attach the reply to the wrong branch
+   */
+  const activeRunBlocker = (conversationId: string) =>
+    db.getActiveChatRun(conversationId) ? "Wait for the current reply to finish or stop it first" : undefined;
+
   // List conversations
-  app.get("/api/chat/conversations", async () => {
-    return { conversations: db.getConversations() };
+  app.get("/api/chat/conversations", async (request) => {
+    return { conversations: db.getConversations(viewerOf(request)) };
   });
 
   // Get messages for a conversation
-  app.get("/api/chat/conversations/:id/messages", async (request, _reply) => {
+  app.get("/api/chat/conversations/:id/messages", async (request, reply) => {
     const { id } = request.params as { id: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
     const messages = db.getMessages(id);
     return { messages };
   });
 
+  // Full-text search over messages, with date and approved-action filters
+  app.get("/api/chat/search", async (request, reply) => {
+    const schema = z.object({
+      q: z.string().trim().min(1),
+      from: isoTimestamp.optional(),
+      to: isoTimestamp.optional(),
+      approvedActions: z.enum(["true", "false"]).transform(v => v === "true").optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    });
+    const parsed = schema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const { q, from, to, approvedActions, limit } = parsed.data;
+    return { hits: db.searchMessages(q, { viewerId: viewerOf(request), from, to, hasApprovedActions: approvedActions, limit }) };
+  });
+
+  // Export a conversation: Markdown of the shown branch, or lossless JSON for re-import
+  app.get("/api/chat/conversations/:id/export", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const parsed = z.object({ format: z.enum(["md", "json"]).default("json") }).safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const conversation = db.getConversation(id);
+    if (!canView(request, conversation)) return conversationNotFound(reply);
+
+    const filename = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "conversation";
+    reply.header("Content-Disposition", `attachment; filename="${filename}.${parsed.data.format}"`);
+    if (parsed.data.format === "md") {
+      return reply.type("text/markdown; charset=utf-8").send(exporter.exportMarkdown(id));
+    }
+    return exporter.exportJson(id);
+  });
+
+  // Import a JSON export as a new conversation
+  app.post("/api/chat/conversations/import", { bodyLimit: IMPORT_BODY_LIMIT }, async (request, reply) => {
+    const parsed = exportSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const conversation = exporter.importJson(parsed.data, viewerOf(request));
+    return { ok: true, conversation };
+  });
+
+  // Rename, retag, share or pin a conversation; a manual rename or retag stops automatic titling
+  app.patch("/api/chat/conversations/:id", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const schema = z.object({
+      title: z.string().trim().min(1).max(200).optional(),
+      tags: z.array(tagSchema).max(CONVERSATION_TAGS.length).optional(),
+      visibility: z.enum(["private", "team"]).optional(),
+      pinned: z.boolean().optional(),
+    }).refine(d => Object.values(d).some(v => v !== undefined), { message: "Nothing to update" });
+    const parsed = schema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const conversation = db.getConversation(id);
+    if (!canView(request, conversation)) return conversationNotFound(reply);
+    if (!canManage(request, conversation)) {
+      return reply.status(403).send({ ok: false, error: "Only the owner can change this conversation" });
+    }
+
+    const { title, tags, visibility, pinned } = parsed.data;
+    if (visibility === "private" && !conversation.ownerId) {
+      return reply.status(400).send({ ok: false, error: "A conversation without an owner can't be made private" });
+    }
+    if (title !== undefined || tags !== undefined) {
+      db.updateConversationMeta(id, { title, tags: tags && [...new Set(tags)] }, "manual");
+    }
+    if (visibility !== undefined || pinned !== undefined) {
+      db.setConversationSharing(id, { visibility, pinned });
+    }
+    return { ok: true, conversation: db.getConversation(id) };
+  });
+
   // Delete a conversation
-  app.delete("/api/chat/conversations/:id", async (request) => {
+  app.delete("/api/chat/conversations/:id", async (request, reply) => {
     const { id } = request.params as { id: string };
+    const conversation = db.getConversation(id);
+    if (!canView(request, conversation)) return conversationNotFound(reply);
+    if (!canManage(request, conversation)) {
+      return reply.status(403).send({ ok: false, error: "Only the owner can delete this conversation" });
+    }
     db.deleteConversation(id);
     return { ok: true };
   });
@@ -36,25 +270,118 @@ export function registerChatRoutes(app: FastifyInstance, db: StateDb, chatServic
     }
 
     const { conversationId, message } = parsed.data;
+    const existing = db.getConversation(conversationId);
+    if (existing && !canView(request, existing)) return conversationNotFound(reply);
+    const busy = activeRunBlocker(conversationId);
+    if (busy) {
+      return reply.status(409).send({ ok: false, error: busy });
+    }
+    const owner = viewerOf(request);
+    const run = runs.start(conversationId, signal => chatService.handleMessageStream(conversationId, message, signal, owner));
+    await pipeRun(reply, runs, run.id, 0);
+  });
 
-    // SSE headers
-    reply.raw.writeHead(200, {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-      "Access-Control-Allow-Origin": "*",
-    });
+  // Resume the assistant after its proposals were approved/declined -- SSE streaming
+  app.post("/api/chat/conversations/:id/continue", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
+    const blocker = activeRunBlocker(id) ?? chatService.getContinuationBlocker(id);
+    if (blocker) {
+      return reply.status(409).send({ ok: false, error: blocker });
+    }
+    const run = runs.start(id, signal => chatService.continueAfterActions(id, signal));
+    await pipeRun(reply, runs, run.id, 0);
+  });
 
-    try {
-      for await (const event of chatService.handleMessageStream(conversationId, message)) {
-        reply.raw.write(`data: ${JSON.stringify(event)}\n\n`);
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : "Chat failed";
-      reply.raw.write(`data: ${JSON.stringify({ type: "error", error: errorMsg })}\n\n`);
+  // ─── Branching ───
+
+  // Edit an earlier user message -- starts a new branch from there, SSE streaming
+  app.post("/api/chat/conversations/:id/messages/:messageId/edit", async (request, reply) => {
+    const { id, messageId } = request.params as { id: string; messageId: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
+    const parsed = z.object({ message: z.string().min(1) }).safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const blocker = activeRunBlocker(id) ?? chatService.getBranchBlocker(id, messageId, "edit");
+    if (blocker) {
+      return reply.status(409).send({ ok: false, error: blocker });
+    }
+    const run = runs.start(id, signal => chatService.editMessageStream(id, messageId, parsed.data.message, signal));
+    await pipeRun(reply, runs, run.id, 0);
+  });
+
+  // Regenerate an assistant reply as a new sibling branch -- SSE streaming
+  app.post("/api/chat/conversations/:id/messages/:messageId/regenerate", async (request, reply) => {
+    const { id, messageId } = request.params as { id: string; messageId: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
+    const blocker = activeRunBlocker(id) ?? chatService.getBranchBlocker(id, messageId, "regenerate");
+    if (blocker) {
+      return reply.status(409).send({ ok: false, error: blocker });
+    }
+    const run = runs.start(id, signal => chatService.regenerateStream(id, messageId, signal));
+    await pipeRun(reply, runs, run.id, 0);
+  });
+
+  // Switch to the branch through `messageId` (its newest leaf) and return that branch
+  app.post("/api/chat/conversations/:id/branch", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
+    const parsed = z.object({ messageId: z.string().min(1) }).safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const message = db.getMessage(parsed.data.messageId);
+    if (!message || message.conversationId !== id) {
+      return reply.status(404).send({ ok: false, error: "Message not found" });
+    }
+    const blocker = activeRunBlocker(id);
+    if (blocker) {
+      return reply.status(409).send({ ok: false, error: blocker });
+    }
+    db.setActiveLeaf(id, db.getLatestLeafUnder(message.id));
+    return { ok: true, messages: db.getMessages(id) };
+  });
+
+  // ─── Chat Runs ───
+
+  // The generation still running for a conversation, if any (to reattach after a reload)
+  app.get("/api/chat/conversations/:id/active-run", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
+    return { run: db.getActiveChatRun(id) ?? null };
+  });
+
+  // Reattach to a run -- SSE replay of events after `after`, then live until it ends
+  app.get("/api/chat/runs/:id/events", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const parsed = z.object({ after: z.coerce.number().int().min(0).default(0) }).safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const run = db.getChatRun(id);
+    if (!run || !canView(request, db.getConversation(run.conversationId))) {
+      return reply.status(404).send({ ok: false, error: "Run not found" });
     }
+    await pipeRun(reply, runs, id, parsed.data.after);
+  });
+
+  // Stop a running generation; the partial reply is saved as cancelled
+  app.post("/api/chat/runs/:id/cancel", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const run = db.getChatRun(id);
+    if (!run || !canView(request, db.getConversation(run.conversationId))) {
+      return reply.status(404).send({ ok: false, error: "Run not found" });
+    }
+    return { ok: true, cancelled: runs.cancel(id) };
+  });
 
-    reply.raw.end();
+  // Stop whatever is generating for a conversation, for clients that never saw the run ID
+  app.post("/api/chat/conversations/:id/cancel", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
+    const run = db.getActiveChatRun(id);
+    return { ok: true, cancelled: run ? runs.cancel(run.id) : false };
   });
 
   // Create a new conversation
@@ -62,20 +389,38 @@ export function registerChatRoutes(app: FastifyInstance, db: StateDb, chatServic
     const schema = z.object({ title: z.string().default("New conversation") });
     const parsed = schema.safeParse(request.body || {});
     const title = parsed.success ? parsed.data.title : "New conversation";
-    const conversation = db.createConversation(crypto.randomUUID(), title);
+    const conversation = db.createConversation(crypto.randomUUID(), title, viewerOf(request));
     return { ok: true, conversation };
   });
 
   // ─── Action Approval Endpoints ───
 
+  /** Proposals are acted on by anyone who can see their conversation */
+  const canActOn = (request: FastifyRequest, proposalId: string) => {
+    const proposal = approvalManager.getProposal(proposalId);
+    return !!proposal && canView(request, db.getConversation(proposal.conversationId));
+  };
+
   // Approve and execute a proposed action
   app.post("/api/chat/actions/:id/approve", async (request, reply) => {
     const { id } = request.params as { id: string };
+    if (!canActOn(request, id)) {
+      return reply.status(404).send({ ok: false, error: `Action proposal not found: ${id}` });
+    }
+    const body = z.object({ confirmation: z.string().optional() }).safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.status(400).send({ ok: false, error: body.error.message });
+    }
     try {
-      await approvalManager.approve(id);
-      const executed = await approvalManager.execute(id);
+      const approved = await approvalManager.approve(id, viewerOf(request), body.data.confirmation);
+      // A first approval under a second-approver policy isn't enough to run it
+      if (approved.state !== "approved") return { ok: true, proposal: approved };
+      const executed = await approvalManager.execute(id, viewerOf(request));
       return { ok: true, proposal: executed };
     } catch (error) {
+      if (error instanceof ActionConflictError) {
+        return reply.status(409).send({ ok: false, error: error.message, conflicts: error.conflicts, proposal: error.proposal });
+      }
       const msg = error instanceof Error ? error.message : "Approve failed";
       return reply.status(400).send({ ok: false, error: msg });
     }
@@ -84,8 +429,11 @@ export function registerChatRoutes(app: FastifyInstance, db: StateDb, chatServic
   // Decline a proposed action
   app.post("/api/chat/actions/:id/decline", async (request, reply) => {
     const { id } = request.params as { id: string };
+    if (!canActOn(request, id)) {
+      return reply.status(404).send({ ok: false, error: `Action proposal not found: ${id}` });
+    }
     try {
-      const declined = await approvalManager.decline(id);
+      const declined = await approvalManager.decline(id, viewerOf(request));
       return { ok: true, proposal: declined };
     } catch (error) {
       const msg = error instanceof Error ? error.message : "Decline failed";
@@ -96,18 +444,40 @@ export function registerChatRoutes(app: FastifyInstance, db: StateDb, chatServic
   // Retry a failed action
   app.post("/api/chat/actions/:id/retry", async (request, reply) => {
     const { id } = request.params as { id: string };
+    if (!canActOn(request, id)) {
+      return reply.status(404).send({ ok: false, error: `Action proposal not found: ${id}` });
+    }
     try {
-      const retried = await approvalManager.retry(id);
+      const retried = await approvalManager.retry(id, viewerOf(request));
       return { ok: true, proposal: retried };
     } catch (error) {
+      if (error instanceof ActionConflictError) {
+        return reply.status(409).send({ ok: false, error: error.message, conflicts: error.conflicts, proposal: error.proposal });
+      }
       const msg = error instanceof Error ? error.message : "Retry failed";
       return reply.status(400).send({ ok: false, error: msg });
     }
   });
 
+  // Undo a succeeded action with compensating operations (succeeded -> reverted)
+  app.post("/api/chat/actions/:id/undo", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!canActOn(request, id)) {
+      return reply.status(404).send({ ok: false, error: `Action proposal not found: ${id}` });
+    }
+    try {
+      const reverted = await approvalManager.undo(id, viewerOf(request));
+      return { ok: true, proposal: reverted };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Undo failed";
+      return reply.status(400).send({ ok: false, error: msg, proposal: approvalManager.getProposal(id) });
+    }
+  });
+
   // Get all proposals for a conversation (for re-rendering on refresh, INFRA-04)
-  app.get("/api/chat/conversations/:id/proposals", async (request) => {
+  app.get("/api/chat/conversations/:id/proposals", async (request, reply) => {
     const { id } = request.params as { id: string };
+    if (!canView(request, db.getConversation(id))) return conversationNotFound(reply);
     const proposals = approvalManager.getProposalsByConversation(id);
     return { proposals };
   });
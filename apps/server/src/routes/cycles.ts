@@ -1,5 +1,7 @@
 import type { FastifyInstance } from "fastify";
 import type { StateDb } from "../db";
+import type { CycleSnapshotService } from "../services/cycleSnapshotService";
+import type { RolloverRiskService } from "../services/rolloverRiskService";
 import type { Cycle } from "@linearapp/shared";
 
 function buildCycleDetail(cycle: Cycle, db: StateDb) {
@@ -42,23 +44,31 @@ function buildCycleDetail(cycle: Cycle, db: StateDb) {
   };
 }
 
-export function registerCycleRoutes(app: FastifyInstance, db: StateDb, trackedLinearIds: Set<string>) {
-  app.get("/api/cycles", async () => {
-    const cycles = db.getAllCycles();
+export function registerCycleRoutes(
+  app: FastifyInstance,
+  db: StateDb,
+  trackedLinearIds: Set<string>,
+  snapshots: CycleSnapshotService,
+  rolloverRisk: RolloverRiskService,
+) {
+  app.get("/api/cycles", async (request) => {
+    const { team } = request.query as { team?: string };
+    const cycles = db.getAllCycles(team ? team.toUpperCase() : undefined);
     return { ok: true, data: cycles };
   });
 
-  app.get("/api/cycles/active", async () => {
-    const cycle = db.getActiveCycle();
+  app.get("/api/cycles/active", async (request) => {
+    const { team } = request.query as { team?: string };
+    const cycle = db.getActiveCycle(team ? team.toUpperCase() : undefined);
     if (!cycle) return { ok: false, error: "No active cycle" };
-    return { ok: true, data: buildCycleDetail(cycle, db) };
+    return { ok: true, data: { ...buildCycleDetail(cycle, db), ...snapshots.buildBurndown(cycle), rolloverRisk: rolloverRisk.assess(cycle) } };
   });
 
   app.get("/api/cycles/:id", async (request, reply) => {
     const { id } = request.params as { id: string };
     const cycle = db.getCycleById(id);
     if (!cycle) return reply.status(404).send({ ok: false, error: "Cycle not found" });
-    return { ok: true, data: buildCycleDetail(cycle, db) };
+    return { ok: true, data: { ...buildCycleDetail(cycle, db), ...snapshots.buildBurndown(cycle), rolloverRisk: rolloverRisk.assess(cycle) } };
   });
 
   app.get("/api/cycles/:id/members", async (request, reply) => {
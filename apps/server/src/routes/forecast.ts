@@ -0,0 +1,31 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import type { ForecastService } from "../services/forecastService";
+
+export function registerForecastRoutes(app: FastifyInstance, forecast: ForecastService) {
+  // Monte Carlo completion forecast for a cycle (default: active), a project, or a set of issues
+  app.get("/api/forecast", async (request, reply) => {
+    const schema = z.object({
+      cycleId: z.string().min(1).optional(),
+      projectId: z.string().min(1).optional(),
+      issueIds: z.string().min(1).optional(),
+      unit: z.enum(["issues", "points"]).optional(),
+      team: z.string().min(1).transform(t => t.toUpperCase()).optional(),
+    });
+    const parsed = schema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+
+    const { cycleId, projectId, issueIds, unit, team } = parsed.data;
+    const options = { unit, teamKey: team };
+    const result = projectId
+      ? await forecast.forecastProject(projectId, options)
+      : issueIds
+        ? await forecast.forecastIssues(issueIds.split(",").map(s => s.trim()).filter(Boolean), options)
+        : await forecast.forecastCycle(cycleId, options);
+
+    if ("error" in result) return reply.status(404).send({ ok: false, error: result.error });
+    return { ok: true, data: result };
+  });
+}
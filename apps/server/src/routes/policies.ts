@@ -0,0 +1,58 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import type { ApprovalPolicyService } from "../services/approvalPolicyService";
+import { isWriteTool } from "../tools/index";
+
+const matchSchema = z.object({
+  toolNames: z.array(z.string().min(1)).optional()
+    .refine(names => !names || names.every(isWriteTool), { message: "toolNames must be write tools" }),
+  categories: z.array(z.enum(["linear", "okr", "internal"])).optional(),
+  destructive: z.boolean().optional(),
+  minBatchSize: z.number().int().min(1).optional(),
+  maxBatchSize: z.number().int().min(1).optional(),
+  fields: z.array(z.string().min(1)).optional(),
+}).strict();
+
+const policySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  priority: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+  match: matchSchema.optional(),
+  effect: z.enum(["auto_approve", "require_approval", "require_confirmation", "require_second_approver", "block"]),
+});
+
+export function registerPolicyRoutes(app: FastifyInstance, policies: ApprovalPolicyService) {
+  // Approval policies in evaluation order. Second approvers are identified by X-User-Id,
+  // which any client can set, so require_second_approver is a four-eyes habit, not a control.
+  app.get("/api/approval-policies", async () => {
+    return { ok: true, policies: policies.list() };
+  });
+
+  app.post("/api/approval-policies", async (request, reply) => {
+    const parsed = policySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    return { ok: true, policy: policies.create(parsed.data) };
+  });
+
+  app.patch("/api/approval-policies/:id", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const parsed = policySchema.partial().safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ ok: false, error: parsed.error.message });
+    }
+    const policy = policies.update(id, parsed.data);
+    if (!policy) return reply.status(404).send({ ok: false, error: `Approval policy not found: ${id}` });
+    return { ok: true, policy };
+  });
+
+  app.delete("/api/approval-policies/:id", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!policies.delete(id)) {
+      return reply.status(404).send({ ok: false, error: `Approval policy not found: ${id}` });
+    }
+    return { ok: true };
+  });
+}
@@ -0,0 +1,43 @@
+import type { FastifyInstance } from "fastify";
+import type { AppConfig } from "../config";
+import {
+  isFreshWebhook,
+  verifyLinearSignature,
+  type LinearWebhookPayload,
+  type LinearWebhookService,
+} from "../services/linearWebhookService";
+
+export function registerWebhookRoutes(app: FastifyInstance, cfg: AppConfig, webhookService: LinearWebhookService) {
+  // Encapsulated so the raw-body JSON parser only applies to webhook routes
+  app.register(async (scope) => {
+    scope.addContentTypeParser("application/json", { parseAs: "buffer" }, (_request, body, done) => {
+      done(null, body);
+    });
+
+    scope.post("/api/webhooks/linear", async (request, reply) => {
+      if (!cfg.linearWebhookSecret) {
+        return reply.status(503).send({ ok: false, error: "Linear webhook secret not configured" });
+      }
+
+      const rawBody = request.body as Buffer;
+      const signature = request.headers["linear-signature"];
+      if (!verifyLinearSignature(rawBody, typeof signature === "string" ? signature : undefined, cfg.linearWebhookSecret)) {
+        return reply.status(401).send({ ok: false, error: "Invalid signature" });
+      }
+
+      let payload: LinearWebhookPayload;
+      try {
+        payload = JSON.parse(rawBody.toString("utf8"));
+      } catch {
+        return reply.status(400).send({ ok: false, error: "Invalid JSON body" });
+      }
+      if (!isFreshWebhook(payload)) {
+        return reply.status(401).send({ ok: false, error: "Webhook timestamp outside allowed window" });
+      }
+
+      const result = webhookService.apply(payload);
+      request.log.info({ webhookId: payload.webhookId, ...result }, "Linear webhook processed");
+      return { ok: true, result };
+    });
+  });
+}
@@ -0,0 +1,106 @@
+import type { ActionAuditEntry, ActionCategory, ActionProposal, ActionState, ActionTransition } from "@linearapp/shared";
+import type { StateDb } from "../db";
+
+export type ActionAuditFilters = {
+  states?: ActionState[];
+  toolName?: string;
+  category?: ActionCategory;
+  from?: string;
+  to?: string;
+  /** Issue ID or identifier */
+  issue?: string;
+  limit?: number;
+};
+
+const CSV_COLUMNS = [
+  "id", "createdAt", "updatedAt", "state", "toolName", "category", "description", "affectedIssues",
+  "conversationId", "conversationTitle", "policy", "approvedBy", "approvedAt", "result", "resultUrl", "error", "timeline",
+] as const;
+
+/**
+ * Answers "what did the assistant change": proposals across every conversation
+ * with their state-transition timelines, for the Audit page and CSV/JSON export.
+ */
+export class ActionAuditService {
+  constructor(private readonly db: StateDb) {}
+
+  /**
+   * Matching proposals, newest first. Conversation titles are only included for
+   * conversations `viewerId` can see; the actions themselves are team-wide.
+   */
+  list(filters: ActionAuditFilters, viewerId?: string): ActionAuditEntry[] {
+    const proposals = this.db.queryActionProposals(filters);
+    const memberNames = new Map(this.db.getMembers().filter(m => m.linearUserId).map(m => [m.linearUserId!, m.name]));
+    const transitions = new Map<string, ActionTransition[]>();
+    for (const t of this.db.getActionTransitions(proposals.map(p => p.id))) {
+      const list = transitions.get(t.proposalId) ?? [];
+      list.push({ ...t, actorName: t.actorId ? memberNames.get(t.actorId) : undefined });
+      transitions.set(t.proposalId, list);
+    }
+
+    const titles = new Map<string, string | undefined>();
+    const titleFor = (conversationId: string) => {
+      if (!titles.has(conversationId)) {
+        const c = this.db.getConversation(conversationId);
+        titles.set(conversationId, c && (c.visibility === "team" || c.ownerId === viewerId) ? c.title : undefined);
+      }
+      return titles.get(conversationId);
+    };
+
+    return proposals.map(p => ({
+      ...p,
+      conversationTitle: titleFor(p.conversationId),
+      affectedIssues: this.affectedIssues(p),
+      transitions: transitions.get(p.id) ?? [],
+    }));
+  }
+
+  toCsv(entries: ActionAuditEntry[]): string {
+    const rows = entries.map(e => {
+      const approval = e.transitions.find(t => t.to === "approved");
+      const values: Record<(typeof CSV_COLUMNS)[number], string | undefined> = {
+        id: e.id,
+        createdAt: e.createdAt,
+        updatedAt: e.updatedAt,
+        state: e.state,
+        toolName: e.toolName,
+        category: e.category,
+        description: e.description,
+        affectedIssues: e.affectedIssues.join(" "),
+        conversationId: e.conversationId,
+        conversationTitle: e.conversationTitle,
+        policy: e.policy?.policyName,
+        approvedBy: approval?.actorName ?? approval?.actorId,
+        approvedAt: approval?.at,
+        result: e.result,
+        resultUrl: e.resultUrl,
+        error: e.error,
+        timeline: e.transitions.map(describeTransition).join("; "),
+      };
+      return CSV_COLUMNS.map(c => csvCell(values[c])).join(",");
+    });
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+  }
+
+  /** Issues named in the arguments, plus any the action created */
+  private affectedIssues(p: ActionProposal): string[] {
+    const args = p.toolArguments;
+    const issues = [
+      ...(typeof args.issueId === "string" && args.issueId ? [args.issueId] : []),
+      ...(Array.isArray(args.issueIds) ? args.issueIds.map(String) : []),
+    ];
+    const image = this.db.getActionBeforeImage(p.id);
+    if (image?.kind === "issue_created") issues.push(image.identifier);
+    return [...new Set(issues)];
+  }
+}
+
+function describeTransition(t: ActionTransition): string {
+  const actor = t.actorName ?? t.actorId;
+  return `${t.at} ${t.from ?? "-"}→${t.to}${actor ? ` by ${actor}` : ""}${t.detail ? ` (${t.detail})` : ""}`;
+}
+
+function csvCell(value: string | undefined): string {
+  if (value === undefined) return "";
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,221 @@
+import type { ActionConflict, ActionPreviewField, ActionTargetSnapshot, IssueSnapshot } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import type { LinearGraphqlClient, LinearIssueFields } from "../adapters/linearGraphql";
+
+const PRIORITY_LABELS = ["None", "Urgent", "High", "Medium", "Low"];
+
+/** Issue tool arguments -> the snapshot field (named like its preview row) they change */
+const ISSUE_ARG_FIELDS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  assigneeName: "Assignee",
+  assigneeId: "Assignee",
+  status: "Status",
+  labelNames: "Labels",
+  projectName: "Project",
+};
+
+const OKR_ARG_FIELDS: Record<string, string> = {
+  objective: "Objective",
+  quarter: "Quarter",
+  owner: "Owner",
+  status: "Status",
+};
+
+const CLIENT_ARG_FIELDS: Record<string, string> = {
+  weight: "Weight",
+  notes: "Notes",
+  contractValue: "Contract Value",
+};
+
+/** Snapshot field names for the arguments a call sets */
+function fieldsFor(args: Record<string, unknown>, map: Record<string, string>): string[] {
+  const set = Object.entries(args).filter(([key, value]) => key in map && value !== undefined && value !== null);
+  return [...new Set(set.map(([key]) => map[key]))];
+}
+
+function issueValue(issue: IssueSnapshot, field: string): string | null {
+  switch (field) {
+    case "Title": return issue.title;
+    case "Description": return issue.description || null;
+    case "Priority": return issue.priority === undefined ? null : PRIORITY_LABELS[issue.priority] ?? String(issue.priority);
+    case "Assignee": return issue.assigneeName ?? null;
+    case "Status": return issue.status;
+    case "Labels": return issue.labels.length ? [...issue.labels].sort().join(", ") : null;
+    case "Project": return issue.projectName ?? null;
+    case "Cycle": return issue.cycleName ?? null;
+    default: return null;
+  }
+}
+
+/** The same values as issueValue(), from a live read */
+function liveIssueValue(issue: LinearIssueFields, field: string): string | null {
+  switch (field) {
+    case "Title": return issue.title;
+    case "Description": return issue.description || null;
+    case "Priority": return PRIORITY_LABELS[issue.priority] ?? String(issue.priority);
+    case "Assignee": return issue.assigneeName;
+    case "Status": return issue.status;
+    case "Labels": return issue.labelNames.length ? [...issue.labelNames].sort().join(", ") : null;
+    case "Project": return issue.projectName;
+    default: return null;
+  }
+}
+
+/**
+ * Records the fields of an action's targets that it is about to change, and later
+ * compares them with the current local state (kept up to date by sync and webhooks),
+ * or with Linear itself, so an action isn't executed against a target that changed
+ * since it was proposed.
+ */
+export class ActionSnapshotService {
+  constructor(
+    private readonly db: StateDb,
+    private readonly linear: LinearGraphqlClient,
+  ) {}
+
+  /** Snapshot of the targets a write tool call changes; empty for calls that only create */
+  capture(toolName: string, args: Record<string, unknown>): ActionTargetSnapshot[] {
+    const issue = (ref: unknown, fields: string[]) => {
+      const found = typeof ref === "string" && ref ? this.findIssue(ref) : undefined;
+      return found ? [this.issueSnapshot(found, fields)] : [];
+    };
+
+    switch (toolName) {
+      case "update_issue":
+        return issue(args.issueId, fieldsFor(args, ISSUE_ARG_FIELDS));
+      case "bulk_update_issues": {
+        const updates = (args.updates || {}) as Record<string, unknown>;
+        const fields = fieldsFor(updates, ISSUE_ARG_FIELDS);
+        const ids = Array.isArray(args.issueIds) ? args.issueIds : [];
+        return ids.flatMap(id => issue(id, fields));
+      }
+      case "delete_issue":
+        return issue(args.issueId, ["Title", "Status"]);
+      case "manage_cycle":
+        return issue(args.issueId, ["Cycle"]);
+      case "manage_labels":
+        return issue(args.issueId, ["Labels"]);
+      case "add_comment":
+      case "link_issue_to_kr":
+        // Nothing it overwrites; only that the issue is still there
+        return issue(args.issueId, []);
+      case "update_okr":
+      case "delete_okr": {
+        const okr = this.db.getOkrById(String(args.okrId || ""));
+        const fields = toolName === "delete_okr" ? ["Objective", "Status"] : fieldsFor(args, OKR_ARG_FIELDS);
+        const target = okr && this.readTarget({ kind: "okr", id: okr.okrId, label: okr.objective, fields: Object.fromEntries(fields.map(f => [f, null])) });
+        return target ? [target] : [];
+      }
+      case "update_key_result": {
+        const id = String(args.keyResultId || "");
+        const target = this.readTarget({ kind: "key_result", id, label: id, fields: { "Current Value": null } });
+        return target ? [target] : [];
+      }
+      case "update_client_weight": {
+        const id = String(args.clientId || "");
+        const fields = fieldsFor(args, CLIENT_ARG_FIELDS);
+        const target = this.readTarget({ kind: "client", id, label: id, fields: Object.fromEntries(fields.map(f => [f, null])) });
+        return target ? [target] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Compare a snapshot with the targets as they are now. With `live`, issues are
+   * re-read from Linear rather than the local copy, which lags until the next sync;
+   * `unverified` lists the targets Linear couldn't be asked about, so only the local copy was compared.
+   */
+  async findConflicts(
+    snapshot: ActionTargetSnapshot[],
+    live = false,
+  ): Promise<{ conflicts: ActionConflict[]; current: ActionTargetSnapshot[]; unverified: string[] }> {
+    const conflicts: ActionConflict[] = [];
+    const current: ActionTargetSnapshot[] = [];
+    const unverified: string[] = [];
+    for (const target of snapshot) {
+      let now = live && target.kind === "issue" ? await this.readLiveIssue(target) : this.readTarget(target);
+      if (now === null) {
+        unverified.push(target.label);
+        now = this.readTarget(target);
+      }
+      if (!now) {
+        conflicts.push({ target: target.label, field: "Exists", proposed: "yes", current: "deleted or archived" });
+        continue;
+      }
+      current.push(now);
+      for (const [field, value] of Object.entries(target.fields)) {
+        if (now.fields[field] !== value) {
+          conflicts.push({ target: target.label, field, proposed: value, current: now.fields[field] });
+        }
+      }
+    }
+    return { conflicts, current, unverified };
+  }
+
+  /** Fill in the old values of a single-target preview from its snapshot */
+  applyToPreview(preview: ActionPreviewField[], snapshot: ActionTargetSnapshot[]): ActionPreviewField[] {
+    if (snapshot.length !== 1) return preview;
+    const fields = snapshot[0].fields;
+    return preview.map(p => p.field in fields ? { ...p, oldValue: fields[p.field] ?? "(none)" } : p);
+  }
+
+  /** Re-read the same fields of a target; undefined when it no longer exists */
+  private readTarget(target: ActionTargetSnapshot): ActionTargetSnapshot | undefined {
+    const fieldNames = Object.keys(target.fields);
+    switch (target.kind) {
+      case "issue": {
+        const issue = this.db.getIssueById(target.id)?.snapshot;
+        return issue && this.issueSnapshot(issue, fieldNames);
+      }
+      case "okr": {
+        const okr = this.db.getOkrById(target.id);
+        if (!okr) return undefined;
+        const values: Record<string, string> = { Objective: okr.objective, Quarter: okr.quarter, Owner: okr.owner, Status: okr.status };
+        return { ...target, fields: Object.fromEntries(fieldNames.map(f => [f, values[f] ?? null])) };
+      }
+      case "key_result": {
+        const kr = this.db.getOkrs().flatMap(o => o.keyResults).find(k => k.id === target.id);
+        return kr && { ...target, label: kr.description, fields: { "Current Value": String(kr.currentValue) } };
+      }
+      case "client": {
+        const client = this.db.getClientById(Number(target.id));
+        if (!client) return undefined;
+        const values: Record<string, string | null> = {
+          Weight: String(client.weight),
+          Notes: client.notes || null,
+          "Contract Value": client.contractValue == null ? null : String(client.contractValue),
+        };
+        return { ...target, label: client.name, fields: Object.fromEntries(fieldNames.map(f => [f, values[f] ?? null])) };
+      }
+    }
+  }
+
+  /** An issue target read from Linear; undefined when it no longer exists, null when Linear can't be reached */
+  private async readLiveIssue(target: ActionTargetSnapshot): Promise<ActionTargetSnapshot | undefined | null> {
+    const issue = await this.linear.getIssueFields(target.id).catch(() => null);
+    if (issue === null) return null;
+    if (!issue) return undefined;
+    const fields = Object.keys(target.fields);
+    return { ...target, label: issue.identifier, fields: Object.fromEntries(fields.map(f => [f, liveIssueValue(issue, f)])) };
+  }
+
+  private issueSnapshot(issue: IssueSnapshot, fields: string[]): ActionTargetSnapshot {
+    return {
+      kind: "issue",
+      id: issue.issueId,
+      label: issue.identifier,
+      fields: Object.fromEntries(fields.map(f => [f, issueValue(issue, f)])),
+    };
+  }
+
+  /** Tool arguments name issues by identifier (e.g. "ENG-123") or ID */
+  private findIssue(ref: string): IssueSnapshot | undefined {
+    const byId = this.db.getIssueById(ref)?.snapshot;
+    if (byId) return byId;
+    return this.db.searchIssues(ref, 5).find(i => i.snapshot.identifier.toLowerCase() === ref.toLowerCase())?.snapshot;
+  }
+}
@@ -1,4 +1,5 @@
-import type { ActionProposal, ActionCategory, ActionPreviewField, ActionState } from "@linearapp/shared";
+import type { ActionBeforeImage, ActionProposal, ActionCategory, ActionPreviewField, ActionState, ActionTargetSnapshot, AppliedApprovalPolicy } from "@linearapp/shared";
+import { createHash } from "node:crypto";
 import type { StateDb } from "../db";
 import { createLogger } from "../lib/logger";
 
@@ -6,14 +7,40 @@ const log = createLogger("ActionStateMachine");
 
 /** Valid transitions: from state -> allowed next states */
 const VALID_TRANSITIONS: Record<ActionState, ActionState[]> = {
-  proposed: ["approved", "declined"],
-  approved: ["executing"],
+  proposed: ["approved", "declined", "expired"],
+  approved: ["executing", "proposed"], // back to review when the target changed
   executing: ["succeeded", "failed"],
   failed: ["executing"], // retry
-  succeeded: [],         // terminal
+  succeeded: ["reverted"], // undo
   declined: [],          // terminal
+  reverted: [],          // terminal
+  expired: [],           // terminal
 };
 
+/** Arguments in a canonical form: keys sorted, empty values dropped, strings trimmed, string lists sorted */
+function normalizeArguments(value: unknown): unknown {
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeArguments);
+    return items.every(i => typeof i === "string") ? [...items].sort() : items;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null)
+        .sort(([a], [b]) => (a < b ? -1 : 1))
+        .map(([k, v]) => [k, normalizeArguments(v)]),
+    );
+  }
+  return value;
+}
+
+/** The same logical action in the same conversation always gets the same key */
+export function idempotencyKeyFor(conversationId: string, toolName: string, args: Record<string, unknown>): string {
+  const hash = createHash("sha256").update(JSON.stringify(normalizeArguments(args))).digest("hex").slice(0, 32);
+  return `${conversationId}:${toolName}:${hash}`;
+}
+
 export class ActionStateMachine {
   constructor(private readonly db: StateDb) {}
 
@@ -22,13 +49,16 @@ export class ActionStateMachine {
     messageId: string;
     toolName: string;
     toolArguments: Record<string, unknown>;
+    idempotencyKey: string;
     description: string;
     preview: ActionPreviewField[];
     category?: ActionCategory;
+    policy?: AppliedApprovalPolicy;
+    snapshot?: ActionTargetSnapshot[];
+    expiresAt?: string;
   }): ActionProposal {
     const now = new Date().toISOString();
     const id = crypto.randomUUID();
-    const idempotencyKey = `${params.conversationId}:${params.toolName}:${JSON.stringify(params.toolArguments)}:${Date.now()}`;
 
     const proposal: ActionProposal = {
       id,
@@ -40,25 +70,72 @@ export class ActionStateMachine {
       preview: params.preview,
       state: "proposed",
       category: params.category,
-      idempotencyKey,
+      policy: params.policy,
+      snapshot: params.snapshot,
+      expiresAt: params.expiresAt,
+      idempotencyKey: params.idempotencyKey,
       createdAt: now,
       updatedAt: now,
     };
 
     this.db.createActionProposal(proposal);
+    this.db.recordActionTransition({ proposalId: id, to: "proposed", at: now });
     log.info("Created proposal", { id, toolName: params.toolName, conversationId: params.conversationId });
     return proposal;
   }
 
-  approve(proposalId: string): ActionProposal {
-    return this.transition(proposalId, ["proposed"], "approved");
+  /** `note` is recorded on the transition, e.g. which policy approved it */
+  approve(proposalId: string, actorId?: string, note?: string): ActionProposal {
+    return this.transition(proposalId, ["proposed"], "approved", undefined, actorId, note);
   }
 
-  decline(proposalId: string): ActionProposal {
-    return this.transition(proposalId, ["proposed"], "declined");
+  decline(proposalId: string, actorId?: string): ActionProposal {
+    return this.transition(proposalId, ["proposed"], "declined", undefined, actorId);
   }
 
-  markExecuting(proposalId: string): ActionProposal {
+  /** Nobody decided before the proposal's TTL ran out */
+  markExpired(proposalId: string): ActionProposal {
+    return this.transition(proposalId, ["proposed"], "expired", undefined, undefined, "Not approved before it expired");
+  }
+
+  /** Approved, but a target changed since it was proposed; it needs approving again */
+  sendBackForReview(proposalId: string, reason: string): ActionProposal {
+    return this.transition(proposalId, ["approved"], "proposed", undefined, undefined, reason);
+  }
+
+  /** Declined on creation because an approval policy forbids it */
+  markBlocked(proposalId: string, reason: string): ActionProposal {
+    return this.transition(proposalId, ["proposed"], "declined", { error: reason });
+  }
+
+  /**
+   * Record an approval that isn't enough on its own (a second approver is required).
+   * The proposal stays proposed; the approval shows in its timeline as proposed -> proposed.
+   */
+  addApproval(proposalId: string, actorId: string): ActionProposal {
+    const proposal = this.db.getActionProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`Action proposal not found: ${proposalId}`);
+    }
+    if (proposal.state !== "proposed" || !proposal.policy) {
+      throw new Error(`Cannot add an approval to action in state '${proposal.state}'`);
+    }
+    const approvals = [...(proposal.policy.approvals ?? []), actorId];
+    this.db.setActionPolicy(proposalId, { ...proposal.policy, approvals });
+    this.db.recordActionTransition({
+      proposalId,
+      from: "proposed",
+      to: "proposed",
+      actorId,
+      detail: "Approved; waiting for a second approver",
+      at: new Date().toISOString(),
+    });
+    log.info("Recorded approval", { proposalId, actorId, approvals: approvals.length });
+    return this.db.getActionProposal(proposalId)!;
+  }
+
+  /** `actorId` is whoever approved or retried the action; `note` is kept on the transition */
+  markExecuting(proposalId: string, actorId?: string, note?: string): ActionProposal {
     const proposal = this.db.getActionProposal(proposalId);
     if (!proposal) {
       throw new Error(`Action proposal not found: ${proposalId}`);
@@ -71,15 +148,22 @@ export class ActionStateMachine {
     }
 
     // Allow transition from approved or failed (retry)
-    return this.transition(proposalId, ["approved", "failed"], "executing");
+    return this.transition(proposalId, ["approved", "failed"], "executing", undefined, actorId, note);
   }
 
-  markSucceeded(proposalId: string, result: string, resultUrl?: string): ActionProposal {
+  markSucceeded(proposalId: string, result: string, resultUrl?: string, beforeImage?: ActionBeforeImage): ActionProposal {
+    if (beforeImage) this.db.setActionBeforeImage(proposalId, beforeImage);
     return this.transition(proposalId, ["executing"], "succeeded", { result, resultUrl });
   }
 
-  markFailed(proposalId: string, error: string): ActionProposal {
-    return this.transition(proposalId, ["executing"], "failed", { error });
+  /** The compensating operations ran; `result` describes what was undone */
+  markReverted(proposalId: string, result: string, actorId?: string): ActionProposal {
+    return this.transition(proposalId, ["succeeded"], "reverted", { result }, actorId);
+  }
+
+  /** Always records `retryable`, so a permanent failure replaces the flag an earlier attempt left */
+  markFailed(proposalId: string, error: string, retryable = false): ActionProposal {
+    return this.transition(proposalId, ["executing"], "failed", { error, retryable });
   }
 
   getProposal(proposalId: string): ActionProposal | null {
@@ -94,7 +178,9 @@ export class ActionStateMachine {
     proposalId: string,
     expectedStates: ActionState[],
     newState: ActionState,
-    updates?: { result?: string; resultUrl?: string; error?: string },
+    updates?: { result?: string; resultUrl?: string; error?: string; retryable?: boolean },
+    actorId?: string,
+    note?: string,
   ): ActionProposal {
     const proposal = this.db.getActionProposal(proposalId);
     if (!proposal) {
@@ -118,7 +204,15 @@ export class ActionStateMachine {
     }
 
     this.db.updateActionState(proposalId, newState, updates);
-    log.info("State transition", { proposalId, from: proposal.state, to: newState });
+    this.db.recordActionTransition({
+      proposalId,
+      from: proposal.state,
+      to: newState,
+      actorId,
+      detail: note ?? updates?.error ?? updates?.result,
+      at: new Date().toISOString(),
+    });
+    log.info("State transition", { proposalId, from: proposal.state, to: newState, actorId });
 
     // Return the updated proposal
     const updated = this.db.getActionProposal(proposalId);
@@ -0,0 +1,144 @@
+import type { ActionBeforeImage, IssueFieldsBefore } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import type { LinearGraphqlClient, LinearIssueFields } from "../adapters/linearGraphql";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ActionUndoService");
+
+/** Issue update input keys that a before-image can restore */
+const RESTORABLE_ISSUE_FIELDS: Array<keyof IssueFieldsBefore> = [
+  "title", "description", "priority", "assigneeId", "stateId", "labelIds", "projectId", "cycleId",
+];
+
+/** Previous values of exactly the fields `input` is about to change */
+export function pickIssueFields(before: LinearIssueFields, input: Record<string, unknown>): IssueFieldsBefore {
+  const fields: Record<string, unknown> = {};
+  for (const key of RESTORABLE_ISSUE_FIELDS) {
+    if (key in input) fields[key] = before[key];
+  }
+  return fields as IssueFieldsBefore;
+}
+
+/**
+ * Thrown when only part of an undo went through. `remaining` is the part of the
+ * before-image that still needs compensating, so undo can be tried again.
+ */
+export class PartialUndoError extends Error {
+  constructor(message: string, readonly remaining: ActionBeforeImage) {
+    super(message);
+    this.name = "PartialUndoError";
+  }
+}
+
+/**
+ * Turns a before-image into compensating operations and runs them: restores issue
+ * fields, archives created issues, restores deleted ones, removes created comments,
+ * labels and projects, restores changed or archived projects, and puts local OKR,
+ * key result, client and link data back as it was.
+ */
+export class ActionUndoService {
+  constructor(
+    private readonly db: StateDb,
+    private readonly linear: LinearGraphqlClient,
+  ) {}
+
+  /** Run the compensation and return a summary of what was undone */
+  async compensate(image: ActionBeforeImage): Promise<string> {
+    switch (image.kind) {
+      case "issue_fields":
+        return this.restoreIssueFields(image);
+      case "issue_created": {
+        await this.linear.archiveIssue(image.issueId);
+        this.db.tombstoneIssues([image.issueId]);
+        return `Archived ${image.identifier}`;
+      }
+      case "issue_deleted":
+        await this.linear.unarchiveIssue(image.issueId);
+        return `Restored ${image.identifier}`;
+      case "comment_created":
+        await this.linear.deleteComment(image.commentId);
+        return `Removed comment from ${image.issueIdentifier}`;
+      case "project_created":
+        await this.linear.deleteProject(image.projectId);
+        return `Removed project ${image.name}`;
+      case "project_fields": {
+        const { name, description, state } = image.fields;
+        // A project that had no description gets an empty one back
+        await this.linear.updateProject(image.projectId, {
+          name,
+          description: description === null ? "" : description,
+          state,
+        });
+        return `Restored project ${name ?? image.name}`;
+      }
+      case "label_created":
+        await this.linear.deleteLabel(image.labelId);
+        return `Removed label ${image.name}`;
+      case "okr":
+        if (!image.okr) {
+          this.db.deleteOkr(image.okrId);
+          return "Removed the created OKR";
+        }
+        this.db.upsertOkr({ ...image.okr, updatedAt: new Date().toISOString() });
+        return `Restored OKR: ${image.okr.objective}`;
+      case "key_result":
+        this.db.updateKeyResultProgress(image.keyResultId, image.currentValue);
+        return `Key result progress restored to ${image.currentValue}`;
+      case "client": {
+        this.db.updateClientLocal(image.clientId, { weight: image.weight, notes: image.notes ?? "", contractValue: image.contractValue });
+        return `Restored client ${image.clientId}`;
+      }
+      case "okr_link":
+        return this.restoreOkrLink(image);
+    }
+  }
+
+  /** Restore issue by issue; whatever fails is kept for another attempt */
+  private async restoreIssueFields(image: Extract<ActionBeforeImage, { kind: "issue_fields" }>): Promise<string> {
+    const failed: typeof image.issues = [];
+    const errors: string[] = [];
+    for (const issue of image.issues) {
+      try {
+        await this.linear.updateIssue(issue.issueId, issue.fields);
+      } catch (error) {
+        failed.push(issue);
+        errors.push(`${issue.identifier}: ${error instanceof Error ? error.message : "restore failed"}`);
+      }
+    }
+    const restored = image.issues.length - failed.length;
+    if (failed.length > 0) {
+      log.warn("Undo partially failed", { restored, failed: failed.length });
+      throw new PartialUndoError(
+        `Restored ${restored}/${image.issues.length} issues; undo again to retry the rest (${errors.join("; ")})`,
+        { kind: "issue_fields", issues: failed },
+      );
+    }
+    return image.issues.length === 1
+      ? `Restored ${image.issues[0].identifier}`
+      : `Restored ${image.issues.length} issues`;
+  }
+
+  private restoreOkrLink(image: Extract<ActionBeforeImage, { kind: "okr_link" }>): string {
+    const enrichment = this.db.getEnrichment(image.issueId);
+    const current = enrichment?.okrId;
+    if (enrichment) {
+      this.db.saveEnrichment({
+        ...enrichment,
+        okrId: image.okrId,
+        okrObjective: image.okrObjective,
+        generatedAt: new Date().toISOString(),
+      });
+    }
+
+    // Both OKRs' linked-issue counts change
+    const allIssues = this.db.getAllIssues();
+    for (const okrId of new Set([current, image.okrId])) {
+      const okr = okrId ? this.db.getOkrById(okrId) : undefined;
+      if (!okr) continue;
+      okr.issueCount = allIssues.filter(i => i.enrichment?.okrId === okrId).length;
+      okr.updatedAt = new Date().toISOString();
+      this.db.upsertOkr(okr);
+    }
+    return image.okrId ? "Restored the key result link" : "Removed the key result link";
+  }
+}
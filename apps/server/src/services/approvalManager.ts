@@ -1,22 +1,69 @@
-import type { ActionProposal, ActionPreviewField } from "@linearapp/shared";
-import type { ActionStateMachine } from "./actionStateMachine";
+import type { ActionBeforeImage, ActionConflict, ActionProposal, ActionPreviewField, ActionState } from "@linearapp/shared";
+import { idempotencyKeyFor, type ActionStateMachine } from "./actionStateMachine";
+import type { ActionUndoService } from "./actionUndoService";
+import type { ApprovalPolicyService } from "./approvalPolicyService";
+import type { ActionSnapshotService } from "./actionSnapshotService";
 import type { ToolHandler } from "../tools/index";
 import type { StateDb } from "../db";
 import { generatePreviewForTool, getToolActionCategory } from "../tools/index";
+import { LinearApiError } from "../adapters/linearGraphql";
+import { PartialUndoError } from "./actionUndoService";
 import { createLogger } from "../lib/logger";
 
 const log = createLogger("ApprovalManager");
 
+/** Proposals left undecided this long expire, unless configured otherwise */
+const DEFAULT_PROPOSAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Tools whose targets are checked against Linear itself, not the synced copy, before they run */
+const LIVE_CHECKED_TOOLS = ["update_issue", "delete_issue"];
+
+/** Proposals still waiting or running; proposing the same action again returns them instead */
+const LIVE_STATES: ActionState[] = ["proposed", "approved", "executing"];
+
+/**
+ * Thrown instead of executing when an action's targets changed since it was
+ * proposed. The proposal has been re-based on the current state for review.
+ */
+export class ActionConflictError extends Error {
+  constructor(readonly conflicts: ActionConflict[], readonly proposal: ActionProposal) {
+    super(`Changed since this action was proposed: ${conflicts.map(describeConflict).join("; ")}`);
+    this.name = "ActionConflictError";
+  }
+}
+
+function describeConflict(c: ActionConflict): string {
+  const clip = (v: string | null) => v === null ? "(none)" : v.length > 60 ? `${v.slice(0, 60)}…` : v;
+  return `${c.target} ${c.field}: ${clip(c.proposed)} → ${clip(c.current)}`;
+}
+
+/** Proposals past their TTL read as expired before the periodic sweep records it, so reads don't write */
+function markOverdue(proposals: ActionProposal[]): ActionProposal[] {
+  const now = new Date().toISOString();
+  return proposals.map(p => p.state === "proposed" && p.expiresAt && p.expiresAt <= now ? { ...p, state: "expired" as const } : p);
+}
+
 export class ApprovalManager {
+  /** Proposals with an undo in flight (guards against double-clicks) */
+  private readonly undoing = new Set<string>();
+
   constructor(
     private readonly stateMachine: ActionStateMachine,
     private readonly toolHandlers: Record<string, ToolHandler>,
     private readonly db: StateDb,
+    private readonly undoService: ActionUndoService,
+    private readonly policies: ApprovalPolicyService,
+    private readonly snapshots: ActionSnapshotService,
+    private readonly options: { proposalTtlMs?: number } = {},
   ) {}
 
   /**
    * Create a proposal for a write tool call. The tool is NOT executed --
-   * instead, a proposal is created for user review.
+   * instead, a proposal is created for user review. The approval policies decide
+   * how it may be approved; a blocking policy declines it straight away, and an
+   * auto-approving one leaves it to the caller to runAutoApproved().
+   * Proposing an action that is still waiting or running in this conversation
+   * returns that proposal instead (see findDuplicate()).
    */
   createProposal(params: {
     conversationId: string;
@@ -24,31 +71,94 @@ export class ApprovalManager {
     toolName: string;
     toolArguments: Record<string, unknown>;
   }): ActionProposal {
-    const preview = generatePreviewForTool(params.toolName, params.toolArguments);
+    const claim = this.claimIdempotencyKey(params.conversationId, params.toolName, params.toolArguments);
+    if ("duplicate" in claim) {
+      log.info("Collapsed duplicate proposal", { id: claim.duplicate.id, toolName: params.toolName });
+      return claim.duplicate;
+    }
+
+    const snapshot = this.snapshots.capture(params.toolName, params.toolArguments);
+    const preview = this.snapshots.applyToPreview(generatePreviewForTool(params.toolName, params.toolArguments), snapshot);
     const description = this.buildDescription(params.toolName, params.toolArguments, preview);
     const category = getToolActionCategory(params.toolName) || "internal";
+    const policy = this.policies.evaluate(params.toolName, params.toolArguments);
 
     const proposal = this.stateMachine.createProposal({
       conversationId: params.conversationId,
       messageId: params.messageId,
       toolName: params.toolName,
       toolArguments: params.toolArguments,
+      idempotencyKey: claim.key,
       description,
       preview,
       category,
+      policy,
+      snapshot,
+      expiresAt: new Date(Date.now() + (this.options.proposalTtlMs ?? DEFAULT_PROPOSAL_TTL_MS)).toISOString(),
     });
 
-    log.info("Created proposal", { id: proposal.id, toolName: params.toolName });
+    log.info("Created proposal", { id: proposal.id, toolName: params.toolName, policy: policy.policyName, effect: policy.effect });
+    if (policy.effect === "block") {
+      return this.stateMachine.markBlocked(proposal.id, `Blocked by approval policy "${policy.policyName}"`);
+    }
     return proposal;
   }
 
+  /** The live proposal for the same action in this conversation, if there is one */
+  findDuplicate(params: { conversationId: string; toolName: string; toolArguments: Record<string, unknown> }): ActionProposal | undefined {
+    const claim = this.claimIdempotencyKey(params.conversationId, params.toolName, params.toolArguments);
+    return "duplicate" in claim ? claim.duplicate : undefined;
+  }
+
+  /** Approve and execute a proposal whose policy auto-approves it; `signal` cancels its Linear calls */
+  async runAutoApproved(proposalId: string, signal?: AbortSignal): Promise<ActionProposal> {
+    const policy = this.stateMachine.getProposal(proposalId)?.policy;
+    if (policy?.effect !== "auto_approve") {
+      throw new Error("This action is not auto-approved by a policy");
+    }
+    this.stateMachine.approve(proposalId, undefined, `Auto-approved by policy "${policy.policyName}"`);
+    log.info("Auto-approved proposal", { proposalId, policy: policy.policyName });
+    try {
+      return await this.execute(proposalId, undefined, signal);
+    } catch (error) {
+      // Back in review with a fresh preview; the user decides from here
+      if (error instanceof ActionConflictError) return error.proposal;
+      throw error;
+    }
+  }
+
   /**
-   * Approve a proposed action (transitions proposed -> approved).
+   * Approve a proposed action (transitions proposed -> approved), once its policy
+   * is satisfied: `confirmation` must match the text a confirmation policy asks
+   * for, and a second-approver policy needs two different members. The first of
+   * those approvals leaves the proposal proposed.
    * Does NOT execute -- call execute() separately.
    */
-  async approve(proposalId: string): Promise<ActionProposal> {
-    const approved = this.stateMachine.approve(proposalId);
-    log.info("Approved proposal", { proposalId });
+  async approve(proposalId: string, actorId?: string, confirmation?: string): Promise<ActionProposal> {
+    this.assertNotImported(proposalId);
+    this.assertNotStale(proposalId);
+    this.assertNotExpired(proposalId);
+    const policy = this.stateMachine.getProposal(proposalId)?.policy;
+
+    if (policy?.effect === "require_confirmation" && confirmation?.trim() !== policy.confirmationText) {
+      throw new Error(`Type "${policy.confirmationText}" to confirm this action`);
+    }
+    if (policy?.effect === "require_second_approver") {
+      if (!actorId) {
+        throw new Error("This action needs two approvers; choose who you are before approving");
+      }
+      const approvals = policy.approvals ?? [];
+      if (approvals.includes(actorId)) {
+        throw new Error("You already approved this action; it needs a second team member");
+      }
+      if (approvals.length === 0) {
+        return this.stateMachine.addApproval(proposalId, actorId);
+      }
+      this.db.setActionPolicy(proposalId, { ...policy, approvals: [...approvals, actorId] });
+    }
+
+    const approved = this.stateMachine.approve(proposalId, actorId);
+    log.info("Approved proposal", { proposalId, actorId });
     return approved;
   }
 
@@ -56,9 +166,15 @@ export class ApprovalManager {
    * Execute an approved (or failed-retry) action.
    * markExecuting is the idempotency gate (INFRA-05): if already executing/succeeded,
    * returns existing proposal without re-executing.
+   * Throws ActionConflictError, without executing, if a target changed since it was proposed.
    */
-  async execute(proposalId: string): Promise<ActionProposal> {
-    const proposal = this.stateMachine.markExecuting(proposalId);
+  async execute(proposalId: string, actorId?: string, signal?: AbortSignal): Promise<ActionProposal> {
+    this.assertNotImported(proposalId);
+    const unverified = await this.assertTargetsUnchanged(proposalId);
+    const retry = this.stateMachine.getProposal(proposalId)?.state === "failed";
+    const proposal = this.stateMachine.markExecuting(proposalId, actorId, unverified.length > 0
+      ? `Not checked against Linear, which couldn't be reached: ${unverified.join(", ")}`
+      : undefined);
 
     // Idempotency: if already succeeded, return as-is
     if (proposal.state === "succeeded") {
@@ -74,40 +190,47 @@ export class ApprovalManager {
     }
 
     try {
-      const resultStr = await handler(proposal.toolArguments);
+      const resultStr = await handler(proposal.toolArguments, { idempotencyKey: proposal.idempotencyKey, retry, signal });
       const parsed = JSON.parse(resultStr);
 
       if (parsed.error && !parsed.partialSuccess) {
         log.warn("Tool returned error", { proposalId, error: parsed.error });
-        return this.stateMachine.markFailed(proposalId, String(parsed.error));
+        return this.stateMachine.markFailed(proposalId, String(parsed.error), false);
       }
 
       // Build a summary string and extract URL if present
       const summary = this.buildResultSummary(proposal.toolName, parsed);
       const resultUrl = parsed.url || parsed.resultUrl || undefined;
+      const beforeImage = parsed.beforeImage as ActionBeforeImage | undefined;
 
       // Partial success: the action ran but had mixed results. Mark as succeeded
       // with a result string that clearly indicates partial success.
       if (parsed.partialSuccess) {
         log.info("Execution partially succeeded", { proposalId, summary });
-        return this.stateMachine.markSucceeded(proposalId, summary, resultUrl);
+        return this.stateMachine.markSucceeded(proposalId, summary, resultUrl, beforeImage);
       }
 
       log.info("Execution succeeded", { proposalId, summary });
-      return this.stateMachine.markSucceeded(proposalId, summary, resultUrl);
+      return this.stateMachine.markSucceeded(proposalId, summary, resultUrl, beforeImage);
     } catch (error) {
       const msg = error instanceof Error ? error.message : "Execution failed";
-      log.error("Execution failed", { proposalId, error: msg });
-      return this.stateMachine.markFailed(proposalId, msg);
+      // Only Linear errors are classified; anything else is assumed permanent
+      const retryable = error instanceof LinearApiError && error.retryable;
+      if (retryable) {
+        log.warn("Execution failed with a retryable error", { proposalId, error: msg, code: error.code });
+      } else {
+        log.error("Execution failed", { proposalId, error: msg, code: error instanceof LinearApiError ? error.code : undefined });
+      }
+      return this.stateMachine.markFailed(proposalId, msg, retryable);
     }
   }
 
   /**
    * Decline a proposed action (transitions proposed -> declined).
    */
-  async decline(proposalId: string): Promise<ActionProposal> {
-    const declined = this.stateMachine.decline(proposalId);
-    log.info("Declined proposal", { proposalId });
+  async decline(proposalId: string, actorId?: string): Promise<ActionProposal> {
+    const declined = this.stateMachine.decline(proposalId, actorId);
+    log.info("Declined proposal", { proposalId, actorId });
     return declined;
   }
 
@@ -115,7 +238,7 @@ export class ApprovalManager {
    * Retry a failed action. Only failed actions can be retried.
    * Re-executes via execute() which handles the failed -> executing transition.
    */
-  async retry(proposalId: string): Promise<ActionProposal> {
+  async retry(proposalId: string, actorId?: string): Promise<ActionProposal> {
     const proposal = this.stateMachine.getProposal(proposalId);
     if (!proposal) {
       throw new Error(`Action proposal not found: ${proposalId}`);
@@ -123,22 +246,154 @@ export class ApprovalManager {
     if (proposal.state !== "failed") {
       throw new Error(`Cannot retry action in state '${proposal.state}' -- only failed actions can be retried`);
     }
+    this.assertNotImported(proposalId);
+    this.assertNotStale(proposalId);
     log.info("Retrying failed proposal", { proposalId });
-    return this.execute(proposalId);
+    return this.execute(proposalId, actorId);
+  }
+
+  /**
+   * Undo a succeeded action by running compensating operations derived from its
+   * before-image (succeeded -> reverted). If only part of it could be undone, the
+   * proposal stays succeeded with the rest of the image so undo can be tried again.
+   */
+  async undo(proposalId: string, actorId?: string): Promise<ActionProposal> {
+    const proposal = this.stateMachine.getProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`Action proposal not found: ${proposalId}`);
+    }
+    if (proposal.state !== "succeeded") {
+      throw new Error(`Cannot undo action in state '${proposal.state}' -- only succeeded actions can be undone`);
+    }
+    this.assertNotImported(proposalId);
+    const image = this.db.getActionBeforeImage(proposalId);
+    if (!image) {
+      throw new Error("This action can't be undone: what it changed wasn't recorded");
+    }
+    if (this.undoing.has(proposalId)) {
+      throw new Error("Undo is already in progress for this action");
+    }
+
+    this.undoing.add(proposalId);
+    try {
+      const summary = await this.undoService.compensate(image);
+      log.info("Undid proposal", { proposalId, summary });
+      return this.stateMachine.markReverted(proposalId, summary, actorId);
+    } catch (error) {
+      if (error instanceof PartialUndoError) this.db.setActionBeforeImage(proposalId, error.remaining);
+      log.error("Undo failed", { proposalId, error: error instanceof Error ? error.message : "unknown" });
+      throw error;
+    } finally {
+      this.undoing.delete(proposalId);
+    }
+  }
+
+  /** Move proposals nobody decided on within their TTL to expired */
+  expireOverdue(): number {
+    const overdue = this.db.getOverdueActionProposals(new Date().toISOString());
+    for (const p of overdue) this.stateMachine.markExpired(p.id);
+    if (overdue.length > 0) log.info("Expired proposals", { count: overdue.length });
+    return overdue.length;
   }
 
   /**
    * Get a single proposal by ID.
    */
   getProposal(proposalId: string): ActionProposal | null {
-    return this.stateMachine.getProposal(proposalId);
+    const proposal = this.stateMachine.getProposal(proposalId);
+    return proposal ? this.markStale(proposal.conversationId, markOverdue([proposal]))[0] : null;
   }
 
   /**
    * Get all proposals for a conversation (for re-rendering on refresh, INFRA-04).
    */
   getProposalsByConversation(conversationId: string): ActionProposal[] {
-    return this.db.getActionProposalsByConversation(conversationId);
+    return this.markStale(conversationId, markOverdue(this.db.getActionProposalsByConversation(conversationId)));
+  }
+
+  /**
+   * Flag proposals whose message was saved but is no longer on the active branch
+   * (the user edited or regenerated an earlier turn). A message that isn't saved
+   * yet belongs to a reply that is still streaming, so it isn't stale.
+   */
+  private markStale(conversationId: string, proposals: ActionProposal[]): ActionProposal[] {
+    if (proposals.length === 0) return proposals;
+    const activeBranch = new Set(this.db.getMessages(conversationId).map(m => m.id));
+    return proposals.map(p =>
+      !activeBranch.has(p.messageId) && this.db.getMessage(p.messageId) ? { ...p, stale: true } : p,
+    );
+  }
+
+  /**
+   * Keys derive from the action itself, so proposing it again finds the earlier
+   * proposal. Once that one has finished (succeeded, failed, declined, expired or
+   * undone) or was left on an abandoned branch unapproved, the action gets the next
+   * free key (`<key>#2`, ...). Retries reuse their proposal's key, so they dedupe
+   * against what that proposal already wrote.
+   */
+  private claimIdempotencyKey(
+    conversationId: string,
+    toolName: string,
+    args: Record<string, unknown>,
+  ): { key: string } | { duplicate: ActionProposal } {
+    this.expireOverdue();
+    const base = idempotencyKeyFor(conversationId, toolName, args);
+    for (let n = 1; ; n++) {
+      const key = n === 1 ? base : `${base}#${n}`;
+      const existing = this.db.getActionProposalByIdempotencyKey(key);
+      if (!existing) return { key };
+      const [current] = this.markStale(conversationId, [existing]);
+      const superseded = !LIVE_STATES.includes(current.state) || (current.stale && current.state === "proposed");
+      if (!superseded) return { duplicate: current };
+    }
+  }
+
+  private assertNotExpired(proposalId: string) {
+    const proposal = this.stateMachine.getProposal(proposalId);
+    if (proposal?.state === "proposed" && proposal.expiresAt && proposal.expiresAt <= new Date().toISOString()) {
+      this.stateMachine.markExpired(proposalId);
+      throw new Error("This action expired before it was approved; ask for it again");
+    }
+  }
+
+  /**
+   * Compare the targets with the snapshot taken when the action was proposed. On a
+   * conflict the snapshot and preview are re-based on the current state and an
+   * approved proposal goes back to proposed (a failed one stays failed), then it throws.
+   */
+  /** Returns the targets that could only be compared with the local copy */
+  private async assertTargetsUnchanged(proposalId: string): Promise<string[]> {
+    const proposal = this.stateMachine.getProposal(proposalId);
+    if (!proposal?.snapshot?.length || (proposal.state !== "approved" && proposal.state !== "failed")) return [];
+
+    const live = LIVE_CHECKED_TOOLS.includes(proposal.toolName);
+    const { conflicts, current, unverified } = await this.snapshots.findConflicts(proposal.snapshot, live);
+    if (unverified.length > 0) log.warn("Linear unreachable; checked targets against the local copy", { proposalId, targets: unverified });
+    if (conflicts.length === 0) return unverified;
+
+    const preview = this.snapshots.applyToPreview(generatePreviewForTool(proposal.toolName, proposal.toolArguments), current);
+    this.db.setActionSnapshot(proposalId, current, preview, conflicts);
+    const reason = `Changed since proposed: ${conflicts.map(describeConflict).join("; ")}`;
+    if (proposal.state === "approved") {
+      // Approvals were given for the old state; a second approver has to look again too
+      if (proposal.policy?.effect === "require_second_approver") this.db.setActionPolicy(proposalId, { ...proposal.policy, approvals: [] });
+      this.stateMachine.sendBackForReview(proposalId, reason);
+    }
+    log.warn("Refused to execute: targets changed", { proposalId, conflicts: conflicts.length });
+    throw new ActionConflictError(conflicts, this.stateMachine.getProposal(proposalId)!);
+  }
+
+  /** Imported proposals record what happened in another conversation; they never touch Linear here */
+  private assertNotImported(proposalId: string) {
+    if (this.stateMachine.getProposal(proposalId)?.imported) {
+      throw new Error("This action was imported from a conversation export and can't be run from here");
+    }
+  }
+
+  private assertNotStale(proposalId: string) {
+    if (this.getProposal(proposalId)?.stale) {
+      throw new Error("This action was proposed on a conversation branch that is no longer active");
+    }
   }
 
   /**
@@ -276,8 +531,10 @@ export class ApprovalManager {
    */
   private buildResultSummary(toolName: string, parsed: Record<string, unknown>): string {
     switch (toolName) {
-      case "create_issue":
-        return `Created ${parsed.identifier || parsed.issueId || "unknown"}: ${parsed.title || ""}`;
+      case "create_issue": {
+        const created = `Created ${parsed.identifier || parsed.issueId || "unknown"}: ${parsed.title || ""}`;
+        return parsed.alreadyCreated ? `${created} (found from an earlier attempt)` : created;
+      }
       case "update_issue":
         return `Updated ${parsed.identifier || parsed.issueId || "unknown"}`;
       case "delete_issue":
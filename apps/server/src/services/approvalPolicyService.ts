@@ -0,0 +1,112 @@
+import type { AppliedApprovalPolicy, ApprovalPolicy, ApprovalPolicyEffect, ApprovalPolicyMatch } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import { getToolActionCategory, isDestructiveTool } from "../tools/index";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ApprovalPolicyService");
+
+/** Arguments that say which issues a call targets, not what it changes */
+const TARGET_ARGUMENTS = new Set(["issueId", "issueIds", "updates"]);
+
+export type ApprovalPolicyInput = {
+  name: string;
+  description?: string;
+  priority?: number;
+  enabled?: boolean;
+  match?: ApprovalPolicyMatch;
+  effect: ApprovalPolicyEffect;
+};
+
+/**
+ * Declarative approval rules for write tools. Policies are checked in priority
+ * order and the first enabled match decides how a proposal is approved; with no
+ * match it needs the usual single approval.
+ */
+export class ApprovalPolicyService {
+  constructor(private readonly db: StateDb) {}
+
+  list(): ApprovalPolicy[] {
+    return this.db.getApprovalPolicies();
+  }
+
+  get(id: string): ApprovalPolicy | undefined {
+    return this.db.getApprovalPolicy(id);
+  }
+
+  create(input: ApprovalPolicyInput): ApprovalPolicy {
+    const now = new Date().toISOString();
+    const policy: ApprovalPolicy = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      description: input.description,
+      priority: input.priority ?? 100,
+      enabled: input.enabled ?? true,
+      match: input.match ?? {},
+      effect: input.effect,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.db.createApprovalPolicy(policy);
+    log.info("Created approval policy", { id: policy.id, name: policy.name, effect: policy.effect });
+    return policy;
+  }
+
+  update(id: string, updates: Partial<ApprovalPolicyInput>): ApprovalPolicy | undefined {
+    if (!this.db.getApprovalPolicy(id)) return undefined;
+    this.db.updateApprovalPolicy(id, updates);
+    log.info("Updated approval policy", { id });
+    return this.db.getApprovalPolicy(id);
+  }
+
+  delete(id: string): boolean {
+    return this.db.deleteApprovalPolicy(id);
+  }
+
+  /** The decision for a write tool call, to be recorded on its proposal */
+  evaluate(toolName: string, args: Record<string, unknown>): AppliedApprovalPolicy {
+    const policy = this.db.getApprovalPolicies().find(p => p.enabled && matches(p.match, toolName, args));
+    if (!policy) return { effect: "require_approval" };
+    return {
+      policyId: policy.id,
+      policyName: policy.name,
+      effect: policy.effect,
+      confirmationText: policy.effect === "require_confirmation" ? confirmationTextFor(toolName, args) : undefined,
+      approvals: policy.effect === "require_second_approver" ? [] : undefined,
+    };
+  }
+}
+
+function matches(match: ApprovalPolicyMatch, toolName: string, args: Record<string, unknown>): boolean {
+  if (match.toolNames?.length && !match.toolNames.includes(toolName)) return false;
+  if (match.categories?.length && !match.categories.includes(getToolActionCategory(toolName) ?? "internal")) return false;
+  if (match.destructive !== undefined && match.destructive !== isDestructiveTool(toolName)) return false;
+  const size = batchSize(args);
+  if (match.minBatchSize !== undefined && size < match.minBatchSize) return false;
+  if (match.maxBatchSize !== undefined && size > match.maxBatchSize) return false;
+  if (match.fields?.length) {
+    const changed = changedFields(args);
+    if (!match.fields.some(f => changed.has(f))) return false;
+  }
+  return true;
+}
+
+function batchSize(args: Record<string, unknown>): number {
+  return Array.isArray(args.issueIds) ? args.issueIds.length : 1;
+}
+
+/** Arguments the call sets, including the shared updates of a bulk call */
+function changedFields(args: Record<string, unknown>): Set<string> {
+  const updates = args.updates && typeof args.updates === "object" ? args.updates as Record<string, unknown> : {};
+  return new Set(
+    Object.entries({ ...args, ...updates })
+      .filter(([key, value]) => !TARGET_ARGUMENTS.has(key) && value !== undefined && value !== null)
+      .map(([key]) => key),
+  );
+}
+
+/** The target issue for single-issue calls, the issue count for bulk ones, else the tool name */
+function confirmationTextFor(toolName: string, args: Record<string, unknown>): string {
+  if (typeof args.issueId === "string" && args.issueId) return args.issueId;
+  if (Array.isArray(args.issueIds)) return String(args.issueIds.length);
+  return toolName;
+}
@@ -0,0 +1,264 @@
+import type OpenAI from "openai";
+import type { ActionProposal, ChatMessage, ChatToolCall } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import type { AppConfig } from "../config";
+import type { LlmProvider } from "../adapters/llmProvider";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ChatContextService");
+
+type PromptMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+/** Rough English/JSON average; close enough for budgeting without shipping a tokenizer */
+const CHARS_PER_TOKEN = 4;
+/** Per-message overhead for role and framing */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Prompt budgets (system prompt + tools + history) by model-name prefix. These are
+ * what we choose to spend per turn, not the model's hard limit. Override per model
+ * with LLM_CONTEXT_BUDGETS.
+ */
+const DEFAULT_CONTEXT_BUDGETS: Record<string, number> = {
+  "gpt-4o": 48_000,
+  "gpt-4.1": 48_000,
+  "gpt-5": 48_000,
+  "o3": 48_000,
+  "o4": 48_000,
+  "heuristic": 8_000,
+};
+/** Local models often run with an 8k window */
+const FALLBACK_CONTEXT_BUDGET = 8_000;
+
+/** Held back for the reply and the tool-calling loop within one turn */
+const RESPONSE_RESERVE_RATIO = 0.25;
+const SUMMARY_MAX_TOKENS = 600;
+/** Each older message is clipped to this before being summarized */
+const SUMMARY_INPUT_MESSAGE_TOKENS = 1_500;
+/** Assistant turns whose tool results are replayed at full (capped) size; older ones are compacted */
+const RECENT_TOOL_TURNS = 2;
+const COMPACT_TOOL_RESULT_TOKENS = 250;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateMessageTokens(message: PromptMessage): number {
+  const content = typeof message.content === "string" ? message.content : JSON.stringify(message.content ?? "");
+  const toolCalls = "tool_calls" in message && message.tool_calls ? JSON.stringify(message.tool_calls) : "";
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(content) + estimateTokens(toolCalls);
+}
+
+/**
+ * Cap a tool result at `maxTokens`. JSON results keep their shape: the largest arrays
+ * are halved until the payload fits and a `_truncated` note records what was cut.
+ * Anything else is clipped with a marker.
+ */
+export function truncateToolResult(result: string, maxTokens: number): string {
+  if (estimateTokens(result) <= maxTokens) return result;
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  try {
+    const shrunk = shrinkJsonArrays(JSON.parse(result), maxChars);
+    if (shrunk) return shrunk;
+  } catch { /* not JSON — clip below */ }
+  return `${result.slice(0, maxChars)}… [truncated ${result.length - maxChars} characters]`;
+}
+
+function shrinkJsonArrays(value: unknown, maxChars: number): string | undefined {
+  const obj: Record<string, unknown> = Array.isArray(value)
+    ? { results: value }
+    : value && typeof value === "object" ? { ...(value as Record<string, unknown>) } : {};
+  const keys = Object.keys(obj).filter(k => Array.isArray(obj[k]));
+  if (keys.length === 0) return undefined;
+
+  const totals = new Map(keys.map(k => [k, (obj[k] as unknown[]).length]));
+  const render = () => {
+    const notes = keys
+      .filter(k => (obj[k] as unknown[]).length < totals.get(k)!)
+      .map(k => `${k}: showing ${(obj[k] as unknown[]).length} of ${totals.get(k)}`);
+    return JSON.stringify(notes.length ? { ...obj, _truncated: notes.join("; ") } : obj);
+  };
+
+  let text = render();
+  while (text.length > maxChars) {
+    const largest = keys.reduce((a, b) => JSON.stringify(obj[a]).length >= JSON.stringify(obj[b]).length ? a : b);
+    const arr = obj[largest] as unknown[];
+    if (arr.length <= 1) return undefined;
+    obj[largest] = arr.slice(0, Math.floor(arr.length / 2));
+    text = render();
+  }
+  return text;
+}
+
+/**
+ * Assembles the prompt history for a chat turn within a per-model token budget.
+ * Recent turns are kept verbatim; older turns are folded into a running summary
+ * stored on the conversation, so each turn only summarizes what newly fell out
+ * of the window.
+ */
+export class ChatContextService {
+  constructor(
+    private readonly db: StateDb,
+    private readonly llm: LlmProvider,
+    private readonly cfg: AppConfig,
+  ) {}
+
+  /** Prompt budget for the configured chat model (longest matching prefix wins) */
+  get contextBudget(): number {
+    const model = this.llm.chatModel;
+    const overrides: Record<string, number> = this.cfg.llmContextBudgets ?? {};
+    if (overrides[model]) return overrides[model];
+    const prefix = Object.keys(DEFAULT_CONTEXT_BUDGETS)
+      .filter(p => model.startsWith(p))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? DEFAULT_CONTEXT_BUDGETS[prefix] : FALLBACK_CONTEXT_BUDGET;
+  }
+
+  /** Largest tool result fed back to the model in one piece */
+  get maxToolResultTokens(): number {
+    return Math.min(4_000, Math.floor(this.contextBudget / 8));
+  }
+
+  async buildMessages(
+    conversationId: string,
+    systemPrompt: string,
+    tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [],
+  ): Promise<PromptMessage[]> {
+    const all = this.db.getMessages(conversationId);
+    const stored = this.db.getConversationSummary(conversationId);
+    const summarizedIndex = stored ? all.findIndex(m => m.id === stored.summarizedThroughId) : -1;
+    const assistantTurns = all.filter(m => m.role === "assistant" && m.toolCalls?.length).map(m => m.id);
+    const recentToolTurns = new Set(assistantTurns.slice(-RECENT_TOOL_TURNS));
+    const pending = all.slice(summarizedIndex + 1).map(m => ({
+      message: m,
+      prompt: this.toPromptMessages(m, recentToolTurns.has(m.id) ? this.maxToolResultTokens : COMPACT_TOOL_RESULT_TOKENS),
+    }));
+
+    const fixed = estimateTokens(systemPrompt) + estimateTokens(JSON.stringify(tools));
+    const available = Math.floor(this.contextBudget * (1 - RESPONSE_RESERVE_RATIO)) - fixed
+      - (stored && summarizedIndex >= 0 ? estimateTokens(stored.summary) : 0);
+
+    // Walk back from the newest message; always keep the latest one
+    let used = 0;
+    let cut = pending.length;
+    while (cut > 0) {
+      const cost = pending[cut - 1].prompt.reduce((s, m) => s + estimateMessageTokens(m), 0);
+      if (cut < pending.length && used + cost > available) break;
+      used += cost;
+      cut--;
+    }
+    // Start the verbatim window on a user turn so no reply is left without its question
+    while (cut < pending.length - 1 && pending[cut].message.role !== "user") cut++;
+
+    let summary = summarizedIndex >= 0 ? stored?.summary : undefined;
+    const older = pending.slice(0, cut).map(p => p.message);
+    if (older.length > 0) {
+      summary = await this.rollSummary(conversationId, summary, older);
+    }
+
+    return [
+      { role: "system", content: systemPrompt },
+      ...(summary ? [{ role: "system" as const, content: `Summary of the earlier conversation:\n${summary}` }] : []),
+      ...pending.slice(cut).flatMap(p => p.prompt),
+    ];
+  }
+
+  /**
+   * Replay a stored message. Assistant turns that used tools become the assistant
+   * tool-call message, one tool message per result, then the reply text. Write-tool
+   * results are rewritten with the proposal's current state, so the model sees what
+   * the user approved or declined rather than the original "proposed" placeholder.
+   */
+  private toPromptMessages(m: ChatMessage, maxToolResultTokens: number): PromptMessage[] {
+    if (m.role === "user") return [{ role: "user", content: m.content }];
+    if (m.role !== "assistant") return [{ role: "system", content: m.content }];
+    const content = m.cancelled ? `${m.content}\n\n[Stopped by the user before this reply finished]`.trim() : m.content;
+    const calls = (m.toolCalls ?? []).filter(tc => tc.id);
+    if (calls.length === 0) return [{ role: "assistant", content }];
+
+    return [
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: calls.map(tc => ({ id: tc.id, type: "function" as const, function: { name: tc.name, arguments: tc.arguments } })),
+      },
+      ...calls.map(tc => ({
+        role: "tool" as const,
+        tool_call_id: tc.id,
+        content: truncateToolResult(this.replayedResult(tc), maxToolResultTokens),
+      })),
+      ...(content ? [{ role: "assistant" as const, content }] : []),
+    ];
+  }
+
+  private replayedResult(tc: ChatToolCall): string {
+    const result = tc.result ?? JSON.stringify({ error: "No result recorded" });
+    let proposalId: unknown;
+    try {
+      proposalId = (JSON.parse(result) as { proposalId?: unknown }).proposalId;
+    } catch { return result; }
+    if (typeof proposalId !== "string") return result;
+    const proposal = this.db.getActionProposal(proposalId);
+    return proposal ? JSON.stringify(proposalOutcome(proposal)) : result;
+  }
+
+  /**
+   * Fold `older` into the running summary and persist it. If summarization fails the
+   * messages are still dropped from the prompt; the previous summary is kept.
+   */
+  private async rollSummary(conversationId: string, previous: string | undefined, older: ChatMessage[]): Promise<string | undefined> {
+    const transcript = older
+      .map(m => {
+        const tools = m.toolCalls?.length ? ` [used ${m.toolCalls.map(tc => tc.name).join(", ")}]` : "";
+        return `${m.role.toUpperCase()}${tools}: ${truncateToolResult(m.content, SUMMARY_INPUT_MESSAGE_TOKENS)}`;
+      })
+      .join("\n\n");
+    try {
+      const response = await this.llm.chat([
+        {
+          role: "system",
+          content: `You maintain a running summary of a conversation between a user and an engineering-team assistant. Merge the new messages into the existing summary. Keep decisions, issue identifiers, names, numbers and open questions; drop pleasantries. Stay under ${SUMMARY_MAX_TOKENS * CHARS_PER_TOKEN} characters.`,
+        },
+        { role: "user", content: `Existing summary:\n${previous ?? "(none)"}\n\nNew messages:\n${transcript}` },
+      ], undefined, { useCase: "summary" });
+      const summary = response.choices[0]?.message?.content?.trim();
+      if (!summary) return previous;
+      this.db.setConversationSummary(conversationId, summary, older[older.length - 1].id);
+      log.debug("Rolled conversation summary", { conversationId, folded: older.length });
+      return summary;
+    } catch (error) {
+      log.warn("Conversation summarization failed", { conversationId, error: error instanceof Error ? error.message : "unknown" });
+      return previous;
+    }
+  }
+}
+
+const OUTCOME_MESSAGES: Partial<Record<ActionProposal["state"], string>> = {
+  proposed: "Still awaiting the user's decision.",
+  succeeded: "The user approved this action and it was executed.",
+  failed: "The user approved this action but it failed.",
+  declined: "The user declined this action.",
+  reverted: "The user approved this action and it was executed, then undid it; its changes were reverted.",
+  expired: "Nobody approved this action in time and it expired; it was not executed.",
+};
+
+/** Outcomes an approval policy decided rather than the user */
+function policyOutcomeMessage(p: ActionProposal): string | undefined {
+  if (p.policy?.effect === "block" && p.state === "declined") return "An approval policy blocked this action; it can't be done from chat.";
+  if (p.policy?.effect === "auto_approve" && p.state === "succeeded") return "An approval policy approved this action automatically and it was executed.";
+  if (p.policy?.effect === "auto_approve" && p.state === "failed") return "An approval policy approved this action automatically but it failed.";
+  return undefined;
+}
+
+function proposalOutcome(p: ActionProposal) {
+  const message = policyOutcomeMessage(p) ?? OUTCOME_MESSAGES[p.state];
+  return {
+    status: p.state,
+    ...(message ? { message } : {}),
+    proposalId: p.id,
+    description: p.description,
+    ...(p.result ? { result: p.result } : {}),
+    ...(p.resultUrl ? { url: p.resultUrl } : {}),
+    ...(p.error ? { error: p.error } : {}),
+  };
+}
@@ -0,0 +1,164 @@
+import type { ActionProposal, ActionState, ChatConversation, ChatConversationExport, ChatMessage } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import { truncateToolResult } from "./chatContextService";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ChatExportService");
+
+/** Tool results are clipped in Markdown; the JSON export keeps them whole */
+const MARKDOWN_TOOL_RESULT_TOKENS = 500;
+
+/** Proposals that could still be executed; imports never bring these in live */
+const OPEN_ACTION_STATES: ActionState[] = ["proposed", "approved", "executing"];
+
+const STATE_LABELS: Record<ActionState, string> = {
+  proposed: "⏳ Awaiting approval",
+  approved: "⏳ Approved",
+  executing: "⏳ Executing",
+  succeeded: "✅ Succeeded",
+  failed: "❌ Failed",
+  declined: "🚫 Declined",
+  reverted: "↩️ Undone",
+  expired: "⌛ Expired",
+};
+
+/**
+ * Exports conversations as JSON (lossless, re-importable) or Markdown (the
+ * active branch, for pasting into docs), and imports JSON exports back.
+ */
+export class ChatExportService {
+  constructor(private readonly db: StateDb) {}
+
+  exportJson(conversationId: string): ChatConversationExport | undefined {
+    const conversation = this.db.getConversation(conversationId);
+    if (!conversation) return undefined;
+    return {
+      format: "linearapp.chat",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      conversation,
+      messages: this.db.getAllMessages(conversationId),
+      proposals: this.db.getActionProposalsByConversation(conversationId),
+    };
+  }
+
+  exportMarkdown(conversationId: string): string | undefined {
+    const conversation = this.db.getConversation(conversationId);
+    if (!conversation) return undefined;
+    const messages = this.db.getMessages(conversationId);
+    const proposals = this.db.getActionProposalsByConversation(conversationId);
+
+    const sections = messages.map(m => renderMessage(m, proposals.filter(p => p.messageId === m.id)));
+    return [
+      `# ${conversation.title}`,
+      `_Exported ${new Date().toISOString()} · started ${conversation.createdAt} · ${messages.length} messages${conversation.tags.length ? ` · tags: ${conversation.tags.join(", ")}` : ""}_`,
+      ...sections,
+    ].join("\n\n") + "\n";
+  }
+
+  /**
+   * Restore an export as a new conversation. Every ID is regenerated so the same
+   * file can be imported more than once. Proposals come in marked imported, which
+   * ApprovalManager refuses to act on, and open ones as declined: a shared
+   * reproduction must not be able to write to Linear.
+   * The importer owns the copy; it starts private when they are known, unpinned either way.
+   */
+  importJson(data: ChatConversationExport, ownerId?: string): ChatConversation {
+    const conversationId = crypto.randomUUID();
+    const messageIds = new Map(data.messages.map(m => [m.id, crypto.randomUUID()]));
+    const proposalIds = new Map(data.proposals.map(p => [p.id, crypto.randomUUID()]));
+
+    // Tool results point at proposals by ID; rewrite them so replays find the imported copies
+    const remapProposalRefs = (text: string) =>
+      [...proposalIds].reduce((acc, [from, to]) => acc.split(from).join(to), text);
+
+    const messages: ChatMessage[] = [...data.messages]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(m => ({
+        ...m,
+        id: messageIds.get(m.id)!,
+        conversationId,
+        parentId: m.parentId ? messageIds.get(m.parentId) : undefined,
+        toolCalls: m.toolCalls?.map(tc => ({ ...tc, result: tc.result === undefined ? undefined : remapProposalRefs(tc.result) })),
+        actionProposals: undefined,
+        siblingIds: undefined,
+      }));
+
+    const now = new Date().toISOString();
+    const proposals: ActionProposal[] = data.proposals
+      .filter(p => messageIds.has(p.messageId))
+      .map(p => {
+        const id = proposalIds.get(p.id)!;
+        return {
+          ...p,
+          id,
+          conversationId,
+          messageId: messageIds.get(p.messageId)!,
+          state: OPEN_ACTION_STATES.includes(p.state) ? "declined" : p.state,
+          idempotencyKey: `import:${id}`,
+          stale: undefined,
+          undoable: undefined,
+          retryable: undefined,
+          imported: true,
+          updatedAt: OPEN_ACTION_STATES.includes(p.state) ? now : p.updatedAt,
+        };
+      });
+
+    const leafId = data.conversation.activeLeafId && messageIds.get(data.conversation.activeLeafId);
+    const conversation: ChatConversation = {
+      id: conversationId,
+      title: data.conversation.title,
+      tags: data.conversation.tags,
+      titleSource: data.conversation.titleSource,
+      ownerId,
+      visibility: ownerId ? "private" : "team",
+      pinned: false,
+      activeLeafId: leafId || messages.at(-1)?.id,
+      createdAt: data.conversation.createdAt,
+      updatedAt: now,
+    };
+    this.db.importConversation(conversation, messages, proposals);
+    log.info("Imported conversation", { conversationId, messages: messages.length, proposals: proposals.length });
+    return conversation;
+  }
+}
+
+// ─── Markdown ───
+
+function renderMessage(m: ChatMessage, proposals: ActionProposal[]): string {
+  const heading = `## ${m.role === "user" ? "User" : m.role === "assistant" ? "Assistant" : "System"} · ${m.createdAt}`;
+  const parts = [heading];
+
+  if (m.matchedSkills?.length) {
+    parts.push(`_Skills: ${m.matchedSkills.map(s => s.skillName).join(", ")}_`);
+  }
+  for (const tc of m.toolCalls ?? []) {
+    parts.push([
+      `<details><summary>Tool: ${tc.name}</summary>`,
+      "",
+      codeBlock(tc.arguments || "{}"),
+      ...(tc.result ? ["", "Result:", "", codeBlock(truncateToolResult(tc.result, MARKDOWN_TOOL_RESULT_TOKENS))] : []),
+      "",
+      "</details>",
+    ].join("\n"));
+  }
+  if (m.content) parts.push(m.content);
+  if (m.cancelled) parts.push("_(stopped before the reply finished)_");
+  if (proposals.length > 0) {
+    parts.push(["**Actions**", ...proposals.map(renderProposal)].join("\n"));
+  }
+  return parts.join("\n\n");
+}
+
+/** A JSON code block whose fence is longer than any backtick run inside it, so the content can't close it */
+function codeBlock(body: string): string {
+  const longestRun = (body.match(/`+/g) ?? []).reduce((max, run) => Math.max(max, run.length), 0);
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}json\n${body}\n${fence}`;
+}
+
+function renderProposal(p: ActionProposal): string {
+  const outcome = p.state === "succeeded" ? p.result : p.state === "failed" ? p.error : undefined;
+  const link = p.resultUrl ? ` ([link](${p.resultUrl}))` : "";
+  return `- ${STATE_LABELS[p.state]}: ${p.description}${outcome ? ` — ${outcome}` : ""}${link}`;
+}
@@ -0,0 +1,165 @@
+import type { ChatRun, ChatRunStatus, ChatStreamEvent } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ChatRunService");
+
+/** Replay logs of finished runs are kept this long so late reattaches still work */
+const EVENT_RETENTION_MS = 1000 * 60 * 60 * 24;
+/** Streamed deltas are written in batches at most this far apart */
+const FLUSH_INTERVAL_MS = 250;
+/** A run nobody is watching is cancelled after this long, unless a client reattaches */
+const DETACHED_GRACE_MS = 30_000;
+
+export type RunListener = {
+  onEvent: (seq: number, event: ChatStreamEvent) => void;
+  onEnd: () => void;
+};
+
+type ActiveRun = {
+  controller: AbortController;
+  listeners: Set<RunListener>;
+  /** Events already fanned out but not yet written */
+  pending: Array<{ seq: number; event: ChatStreamEvent }>;
+  flushTimer?: NodeJS.Timeout;
+  detachTimer?: NodeJS.Timeout;
+};
+
+/**
+ * Runs chat generations independently of the HTTP request that started them.
+ * Every event is numbered and persisted (deltas in batches), so a client that
+ * reloads can reattach with the last sequence number it saw and replay the
+ * rest. A run is cancelled when asked, or once no client has been attached
+ * for DETACHED_GRACE_MS.
+ */
+export class ChatRunService {
+  private readonly active = new Map<string, ActiveRun>();
+
+  constructor(
+    private readonly db: StateDb,
+    /** Follow-up work for a run that completed, e.g. titling; runs after the run is finished */
+    private readonly onCompleted?: (run: ChatRun) => Promise<void>,
+  ) {
+    const interrupted = db.failInterruptedChatRuns();
+    if (interrupted > 0) log.warn("Marked interrupted chat runs as failed", { count: interrupted });
+  }
+
+  start(conversationId: string, produce: (signal: AbortSignal) => AsyncGenerator<ChatStreamEvent>): ChatRun {
+    const now = new Date().toISOString();
+    const run: ChatRun = { id: crypto.randomUUID(), conversationId, status: "running", createdAt: now, updatedAt: now };
+    this.db.createChatRun(run);
+    this.db.pruneChatRunEvents(new Date(Date.now() - EVENT_RETENTION_MS).toISOString());
+
+    const entry: ActiveRun = { controller: new AbortController(), listeners: new Set(), pending: [] };
+    this.active.set(run.id, entry);
+    this.drive(run, produce(entry.controller.signal), entry).catch(error => {
+      // Only reachable if persisting fails, e.g. the database closed during shutdown
+      log.error("Chat run bookkeeping failed", { runId: run.id, error: error instanceof Error ? error.message : "unknown" });
+    });
+    return run;
+  }
+
+  /**
+   * Replay events after `afterSeq`, then follow the run live until it ends.
+   * Returns an unsubscribe function, or undefined when the run doesn't exist.
+   */
+  subscribe(runId: string, afterSeq: number, listener: RunListener): (() => void) | undefined {
+    if (!this.db.getChatRun(runId)) return undefined;
+    const entry = this.active.get(runId);
+
+    // Events are fanned out synchronously as they are recorded (in the db or still
+    // pending), so registering before the replay can't miss one; the seq check only
+    // guards against duplicates
+    let lastSeq = afterSeq;
+    const forward: RunListener = {
+      onEvent: (seq, event) => {
+        if (seq <= lastSeq) return;
+        lastSeq = seq;
+        listener.onEvent(seq, event);
+      },
+      onEnd: listener.onEnd,
+    };
+    entry?.listeners.add(forward);
+    clearTimeout(entry?.detachTimer);
+    for (const { seq, event } of this.db.getChatRunEvents(runId, afterSeq)) forward.onEvent(seq, event);
+
+    if (!entry) {
+      listener.onEnd();
+      return () => {};
+    }
+    for (const { seq, event } of entry.pending) forward.onEvent(seq, event);
+    return () => {
+      entry.listeners.delete(forward);
+      if (entry.listeners.size > 0 || entry.controller.signal.aborted) return;
+      entry.detachTimer = setTimeout(() => {
+        log.info("No client attached; cancelling chat run", { runId });
+        this.cancel(runId);
+      }, DETACHED_GRACE_MS);
+    };
+  }
+
+  cancel(runId: string): boolean {
+    const entry = this.active.get(runId);
+    if (!entry) return false;
+    entry.controller.abort();
+    log.info("Cancelled chat run", { runId });
+    return true;
+  }
+
+  cancelAll() {
+    for (const runId of this.active.keys()) this.cancel(runId);
+  }
+
+  private flush(runId: string, entry: ActiveRun) {
+    clearTimeout(entry.flushTimer);
+    entry.flushTimer = undefined;
+    if (entry.pending.length === 0) return;
+    this.db.appendChatRunEvents(runId, entry.pending);
+    entry.pending = [];
+  }
+
+  private async drive(run: ChatRun, events: AsyncGenerator<ChatStreamEvent>, entry: ActiveRun) {
+    let seq = 0;
+    const emit = (event: ChatStreamEvent) => {
+      seq++;
+      entry.pending.push({ seq, event });
+      if (event.type !== "delta") this.flush(run.id, entry);
+      else entry.flushTimer ??= setTimeout(() => {
+        try {
+          this.flush(run.id, entry);
+        } catch (error) {
+          log.error("Persisting chat run events failed", { runId: run.id, error: error instanceof Error ? error.message : "unknown" });
+        }
+      }, FLUSH_INTERVAL_MS);
+      for (const listener of entry.listeners) listener.onEvent(seq, event);
+    };
+
+    let status: ChatRunStatus = "completed";
+    let messageId: string | undefined;
+    let error: string | undefined;
+    emit({ type: "run_started", runId: run.id });
+    try {
+      for await (const event of events) {
+        if (event.type === "done") messageId = event.messageId;
+        emit(event);
+      }
+      if (entry.controller.signal.aborted) status = "cancelled";
+    } catch (e) {
+      status = "failed";
+      error = e instanceof Error ? e.message : "Chat failed";
+      log.error("Chat run failed", { runId: run.id, error });
+      emit({ type: "error", error });
+    } finally {
+      clearTimeout(entry.detachTimer);
+      this.flush(run.id, entry);
+      this.db.finishChatRun(run.id, status, { messageId, error });
+      this.active.delete(run.id);
+      for (const listener of entry.listeners) listener.onEnd();
+    }
+    if (status === "completed") {
+      this.onCompleted?.(run).catch(e => {
+        log.warn("Post-run work failed", { runId: run.id, error: e instanceof Error ? e.message : "unknown" });
+      });
+    }
+  }
+}
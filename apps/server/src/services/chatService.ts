@@ -1,12 +1,21 @@
 import type OpenAI from "openai";
-import type { ChatMessage, ChatToolCall, ChatStreamEvent, SkillMatch } from "@linearapp/shared";
+import type { ActionState, ChatMessage, ChatToolCall, ChatStreamEvent, SkillMatch } from "@linearapp/shared";
 import type { StateDb } from "../db";
 import type { LinearGraphqlClient } from "../adapters/linearGraphql";
 import type { AppConfig } from "../config";
-import type { OpenAIClient } from "../adapters/openaiClient";
+import type { LlmProvider } from "../adapters/llmProvider";
 import type { ApprovalManager } from "./approvalManager";
 import type { SkillService } from "./skillService";
-import { getToolDefinitions, createToolHandlers, isWriteTool, getWriteToolSummariesGrouped, type ToolHandler } from "../tools/index";
+import { ChatContextService, truncateToolResult } from "./chatContextService";
+import { ConversationTitleService } from "./conversationTitleService";
+import { getToolDefinitions, createToolHandlers, isWriteTool, getWriteToolSummariesGrouped, type ToolAnalytics, type ToolHandler } from "../tools/index";
+
+type ChatCompletionMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+/** Proposals in these states still need the user (or the executor) before the agent can resume */
+const PENDING_ACTION_STATES: ActionState[] = ["proposed", "approved", "executing"];
+
+const CONTINUATION_PROMPT = "The user has now decided on the actions you proposed; the tool results above show each outcome. Continue with any remaining steps of your plan. If an action was declined, do not propose it again. If nothing remains, briefly confirm what was done.";
 
 const CATEGORY_LABELS: Record<string, string> = {
   linear: "Linear Actions",
@@ -14,7 +23,7 @@ const CATEGORY_LABELS: Record<string, string> = {
   internal: "Internal Actions",
 };
 
-function buildSystemPrompt(skillTemplates?: string[]): string {
+function buildSystemPrompt(skillTemplates?: string[], teamKeys: string[] = []): string {
   const grouped = getWriteToolSummariesGrouped();
   let writeSection = "";
   if (grouped.size > 0) {
@@ -26,6 +35,10 @@ function buildSystemPrompt(skillTemplates?: string[]): string {
     writeSection = `\n\nYou can also take actions on behalf of the user:\n\n${sections.join("\n\n")}\n\nWhen you want to take an action, use the appropriate tool. The user will see a preview of what will change and can approve or decline. If they decline, acknowledge naturally and move on — do not ask follow-up questions about the declined action. If they approve, the action will execute and you'll see the result.\n\nWhen you retrieve issue details or search results, look for opportunities to suggest linking issues to key results. If an issue's title, description, or labels align with a key result's description, proactively suggest using link_issue_to_kr. Similarly, when issues linked to a key result are completed, suggest using update_key_result to update the progress.`;
   }
 
+  const teamsSection = teamKeys.length > 1
+    ? `\n\nThis workspace tracks several Linear teams: ${teamKeys.join(", ")}. Read tools accept an optional teamKey; leave it null to look across all teams, and set it when the user asks about one team.`
+    : "";
+
   const skillsSection = skillTemplates?.length
     ? `\n\n--- Active Skills ---\n${skillTemplates.join("\n\n")}`
     : "";
@@ -48,22 +61,27 @@ Key principles you follow:
 - Use RICE scoring to prioritize objectively
 - Make work visible — surface blockers and risks proactively
 
-When answering questions, use your available tools to get real data. Don't guess — call the appropriate tool and base your answers on actual data.${skillsSection}`;
+When answering questions, use your available tools to get real data. Don't guess — call the appropriate tool and base your answers on actual data.${teamsSection}${skillsSection}`;
 }
 
 export class ChatService {
   private toolHandlers: Record<string, ToolHandler>;
   private approvalManager: ApprovalManager | null = null;
   private skillService: SkillService | null = null;
+  private readonly context: ChatContextService;
+  private readonly titles: ConversationTitleService;
 
   constructor(
     private readonly db: StateDb,
-    private readonly openai: OpenAIClient,
+    private readonly openai: LlmProvider,
     linear: LinearGraphqlClient,
-    cfg: AppConfig,
+    private readonly cfg: AppConfig,
+    analytics: ToolAnalytics,
     trackedLinearIds?: Set<string>,
   ) {
-    this.toolHandlers = createToolHandlers(db, linear, cfg, trackedLinearIds);
+    this.toolHandlers = createToolHandlers(db, linear, cfg, analytics, trackedLinearIds);
+    this.context = new ChatContextService(db, openai, cfg);
+    this.titles = new ConversationTitleService(db, openai);
   }
 
   setApprovalManager(manager: ApprovalManager): void {
@@ -83,8 +101,7 @@ export class ChatService {
     userMessage: string,
   ): Promise<{ events: ChatStreamEvent[]; assistantMessage: ChatMessage }> {
     // Ensure conversation exists
-    const conversations = this.db.getConversations();
-    if (!conversations.find(c => c.id === conversationId)) {
+    if (!this.db.getConversation(conversationId)) {
       const title = userMessage.slice(0, 50) + (userMessage.length > 50 ? "..." : "");
       this.db.createConversation(conversationId, title);
     }
@@ -93,24 +110,20 @@ export class ChatService {
     const userMsg: ChatMessage = {
       id: crypto.randomUUID(),
       conversationId,
+      parentId: this.db.getActiveLeafId(conversationId),
       role: "user",
       content: userMessage,
       createdAt: new Date().toISOString(),
     };
     this.db.addMessage(userMsg);
 
-    // Build message history
-    const history = this.db.getMessages(conversationId);
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: "system", content: buildSystemPrompt() },
-      ...history.map(m => {
-        if (m.role === "user") return { role: "user" as const, content: m.content };
-        if (m.role === "assistant") return { role: "assistant" as const, content: m.content };
-        return { role: "system" as const, content: m.content };
-      }),
-    ];
-
+    // Build message history within the model's context budget
     const tools = getToolDefinitions();
+    const messages = await this.context.buildMessages(
+      conversationId,
+      buildSystemPrompt(undefined, this.cfg.linearTeamKeys),
+      tools,
+    );
     const events: ChatStreamEvent[] = [];
     const toolCalls: ChatToolCall[] = [];
     let fullContent = "";
@@ -164,10 +177,11 @@ export class ChatService {
         events.push({ type: "tool_call_result", toolCall: { id: tc.id, name: toolName, result } });
         toolCalls.push({ id: tc.id, name: toolName, arguments: toolArgs, result });
 
+        // The UI and stored message keep the full result; the model sees a capped copy
         messages.push({
           role: "tool",
           tool_call_id: tc.id,
-          content: result,
+          content: truncateToolResult(result, this.context.maxToolResultTokens),
         });
       }
     }
@@ -176,6 +190,7 @@ export class ChatService {
     const assistantMsg: ChatMessage = {
       id: crypto.randomUUID(),
       conversationId,
+      parentId: userMsg.id,
       role: "assistant",
       content: fullContent,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
@@ -189,35 +204,98 @@ export class ChatService {
 
   /**
    * True SSE streaming via async generator.
-   * Yields ChatStreamEvents incrementally as OpenAI streams chunks.
+   * Yields ChatStreamEvents incrementally as OpenAI streams chunks. Aborting `signal`
+   * stops the model and any remaining tool calls; the partial reply is saved as cancelled.
    */
   async *handleMessageStream(
     conversationId: string,
     userMessage: string,
+    signal?: AbortSignal,
+    ownerId?: string,
   ): AsyncGenerator<ChatStreamEvent> {
-    // Ensure conversation exists
-    const conversations = this.db.getConversations();
-    if (!conversations.find(c => c.id === conversationId)) {
+    // Ensure conversation exists; a new one belongs to whoever sent the first message
+    if (!this.db.getConversation(conversationId)) {
       const title = userMessage.slice(0, 50) + (userMessage.length > 50 ? "..." : "");
-      this.db.createConversation(conversationId, title);
+      this.db.createConversation(conversationId, title, ownerId);
     }
+    yield* this.replyToUserMessage(conversationId, userMessage, this.db.getActiveLeafId(conversationId), signal);
+  }
 
-    // Save user message
+  /**
+   * Why `messageId` can't be edited or regenerated, or undefined if it can.
+   * Edits apply to user messages, regenerations to assistant replies.
+   */
+  getBranchBlocker(conversationId: string, messageId: string, kind: "edit" | "regenerate"): string | undefined {
+    const message = this.db.getMessage(messageId);
+    if (!message || message.conversationId !== conversationId) return "Message not found";
+    if (kind === "edit" && message.role !== "user") return "Only your own messages can be edited";
+    if (kind === "regenerate" && (message.role !== "assistant" || !message.parentId)) return "Only assistant replies can be regenerated";
+    return undefined;
+  }
+
+  /**
+   * Edit an earlier user message. The edit is stored as a sibling of the original,
+   * so the original branch stays available, and the assistant replies to it.
+   */
+  async *editMessageStream(
+    conversationId: string,
+    messageId: string,
+    content: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const blocker = this.getBranchBlocker(conversationId, messageId, "edit");
+    if (blocker) throw new Error(blocker);
+    const original = this.db.getMessage(messageId)!;
+    yield* this.replyToUserMessage(conversationId, content, original.parentId, signal);
+  }
+
+  /**
+   * Generate a new version of an assistant reply as a sibling of the old one. A
+   * reply that continued after approvals is regenerated as a continuation again.
+   */
+  async *regenerateStream(conversationId: string, messageId: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const blocker = this.getBranchBlocker(conversationId, messageId, "regenerate");
+    if (blocker) throw new Error(blocker);
+    const parent = this.db.getMessage(this.db.getMessage(messageId)!.parentId!)!;
+    this.db.setActiveLeaf(conversationId, parent.id);
+
+    if (parent.role !== "user") {
+      const tools = getToolDefinitions();
+      const messages = await this.context.buildMessages(conversationId, buildSystemPrompt(undefined, this.cfg.linearTeamKeys), tools);
+      messages.push({ role: "system", content: CONTINUATION_PROMPT });
+      yield* this.runAgentLoop(conversationId, parent.id, messages, tools, [], signal);
+      return;
+    }
+    yield* this.answer(conversationId, parent, signal);
+  }
+
+  /** Save a user message under `parentId` (undefined starts at the root) and stream the reply */
+  private async *replyToUserMessage(
+    conversationId: string,
+    content: string,
+    parentId: string | undefined,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
     const userMsg: ChatMessage = {
       id: crypto.randomUUID(),
       conversationId,
+      parentId,
       role: "user",
-      content: userMessage,
+      content,
       createdAt: new Date().toISOString(),
     };
     this.db.addMessage(userMsg);
+    yield* this.answer(conversationId, userMsg, signal);
+  }
 
+  /** Stream the assistant's reply to `userMsg`, which must be the active leaf */
+  private async *answer(conversationId: string, userMsg: ChatMessage, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
     // Match skills before building message history
     let matchedSkills: SkillMatch[] = [];
     let skillTemplates: string[] = [];
     if (this.skillService) {
       try {
-        const result = await this.skillService.matchSkills(userMessage);
+        const result = await this.skillService.matchSkills(userMsg.content);
         matchedSkills = result.matches;
         skillTemplates = result.templates;
         if (matchedSkills.length > 0) {
@@ -226,18 +304,62 @@ export class ChatService {
       } catch { /* skill matching is best-effort */ }
     }
 
-    // Build message history
-    const history = this.db.getMessages(conversationId);
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: "system", content: buildSystemPrompt(skillTemplates) },
-      ...history.map(m => {
-        if (m.role === "user") return { role: "user" as const, content: m.content };
-        if (m.role === "assistant") return { role: "assistant" as const, content: m.content };
-        return { role: "system" as const, content: m.content };
-      }),
-    ];
+    // Build message history within the model's context budget
+    const tools = getToolDefinitions();
+    const messages = await this.context.buildMessages(
+      conversationId,
+      buildSystemPrompt(skillTemplates, this.cfg.linearTeamKeys),
+      tools,
+    );
+    yield* this.runAgentLoop(conversationId, userMsg.id, messages, tools, matchedSkills, signal);
+  }
+
+  /** Title and tag the conversation after its first exchange; runs once the reply has finished */
+  async titleConversation(conversationId: string): Promise<void> {
+    if (!this.titles.needsTitle(conversationId)) return;
+    await this.titles.generate(conversationId);
+  }
+
+  /**
+   * Why the conversation can't be resumed, or undefined if it can: the latest
+   * message must be an assistant turn whose proposals have all been decided.
+   */
+  getContinuationBlocker(conversationId: string): string | undefined {
+    const last = this.db.getMessages(conversationId).at(-1);
+    if (!last || last.role !== "assistant") return "Nothing to continue";
+    const proposals = this.db.getActionProposalsByMessage(last.id);
+    if (proposals.length === 0) return "Nothing to continue";
+    if (proposals.some(p => PENDING_ACTION_STATES.includes(p.state))) return "Some actions are still awaiting a decision";
+    return undefined;
+  }
+
+  /**
+   * Resume the agent loop after the user approved or declined the latest proposals.
+   * The outcomes reach the model as the replayed tool results of the previous turn;
+   * the continuation is stored as a new assistant message.
+   */
+  async *continueAfterActions(conversationId: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const blocker = this.getContinuationBlocker(conversationId);
+    if (blocker) throw new Error(blocker);
 
     const tools = getToolDefinitions();
+    const messages = await this.context.buildMessages(
+      conversationId,
+      buildSystemPrompt(undefined, this.cfg.linearTeamKeys),
+      tools,
+    );
+    messages.push({ role: "system", content: CONTINUATION_PROMPT });
+    yield* this.runAgentLoop(conversationId, this.db.getActiveLeafId(conversationId)!, messages, tools, [], signal);
+  }
+
+  private async *runAgentLoop(
+    conversationId: string,
+    parentId: string,
+    messages: ChatCompletionMessageParam[],
+    tools: ReturnType<typeof getToolDefinitions>,
+    matchedSkills: SkillMatch[],
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
     const allToolCalls: ChatToolCall[] = [];
     let fullContent = "";
     const pendingAssistantMsgId = crypto.randomUUID();
@@ -253,42 +375,48 @@ export class ChatService {
       const pendingToolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
       let chunkFinishReason: string | null = null;
 
-      for await (const chunk of this.openai.chatStream(messages, tools)) {
-        const choice = chunk.choices[0];
-        if (!choice) continue;
+      // A stop from the client aborts the stream; keep whatever arrived so far
+      try {
+        for await (const chunk of this.openai.chatStream(messages, tools, { signal })) {
+          const choice = chunk.choices[0];
+          if (!choice) continue;
 
-        const delta = choice.delta;
-        if (!delta) continue;
+          const delta = choice.delta;
+          if (!delta) continue;
 
-        // Content streaming — yield each delta as it arrives
-        if (delta.content) {
-          fullContent += delta.content;
-          yield { type: "delta", content: delta.content };
-        }
+          // Content streaming — yield each delta as it arrives
+          if (delta.content) {
+            fullContent += delta.content;
+            yield { type: "delta", content: delta.content };
+          }
 
-        // Tool call accumulation — chunks arrive incrementally
-        if (delta.tool_calls) {
-          for (const tc of delta.tool_calls) {
-            const existing = pendingToolCalls.get(tc.index);
-            if (!existing) {
-              pendingToolCalls.set(tc.index, {
-                id: tc.id || "",
-                name: tc.function?.name || "",
-                arguments: tc.function?.arguments || "",
-              });
-            } else {
-              if (tc.id) existing.id = tc.id;
-              if (tc.function?.name) existing.name += tc.function.name;
-              if (tc.function?.arguments) existing.arguments += tc.function.arguments;
+          // Tool call accumulation — chunks arrive incrementally
+          if (delta.tool_calls) {
+            for (const tc of delta.tool_calls) {
+              const existing = pendingToolCalls.get(tc.index);
+              if (!existing) {
+                pendingToolCalls.set(tc.index, {
+                  id: tc.id || "",
+                  name: tc.function?.name || "",
+                  arguments: tc.function?.arguments || "",
+                });
+              } else {
+                if (tc.id) existing.id = tc.id;
+                if (tc.function?.name) existing.name += tc.function.name;
+                if (tc.function?.arguments) existing.arguments += tc.function.arguments;
+              }
             }
           }
-        }
 
-        // Record finish reason
-        if (choice.finish_reason) {
-          chunkFinishReason = choice.finish_reason;
+          // Record finish reason
+          if (choice.finish_reason) {
+            chunkFinishReason = choice.finish_reason;
+          }
         }
+      } catch (error) {
+        if (!signal?.aborted) throw error;
       }
+      if (signal?.aborted) break;
 
       // If no tool calls were requested, we are done with the LLM loop
       if (pendingToolCalls.size === 0) {
@@ -314,12 +442,26 @@ export class ChatService {
 
       // Execute each tool call and yield events
       for (const tc of completedToolCalls) {
+        if (signal?.aborted) break;
         const toolName = tc.name;
         const toolArgs = tc.arguments;
 
         // Intercept write tools: create proposal instead of executing
         if (this.approvalManager && isWriteTool(toolName)) {
           const parsedArgs = JSON.parse(toolArgs);
+          const duplicate = this.approvalManager.findDuplicate({ conversationId, toolName, toolArguments: parsedArgs });
+          if (duplicate) {
+            const duplicateResult = JSON.stringify({
+              status: "already_proposed",
+              proposalId: duplicate.id,
+              state: duplicate.state,
+              description: duplicate.description,
+              message: `This exact action was already proposed in this conversation and is still ${duplicate.state}; it was not proposed again. Refer the user to the existing proposal.`,
+            });
+            messages.push({ role: "tool", tool_call_id: tc.id, content: duplicateResult });
+            allToolCalls.push({ id: tc.id, name: toolName, arguments: toolArgs, result: duplicateResult });
+            continue;
+          }
           const proposal = this.approvalManager.createProposal({
             conversationId,
             messageId: pendingAssistantMsgId,
@@ -328,13 +470,38 @@ export class ChatService {
           });
           yield { type: "action_proposed", proposal };
 
-          // Feed back a synthetic tool result telling OpenAI the action was proposed
-          const proposalResult = JSON.stringify({
-            status: "proposed_for_approval",
-            proposalId: proposal.id,
-            description: proposal.description,
-            message: "This action has been proposed to the user for approval. Wait for their decision before proceeding.",
-          });
+          // Feed back a synthetic tool result telling OpenAI what became of the proposal
+          let proposalResult: string;
+          const executed = proposal.policy?.effect === "auto_approve"
+            ? await this.approvalManager.runAutoApproved(proposal.id, signal)
+            : undefined;
+          if (executed) {
+            yield { type: "action_update", proposalId: executed.id, state: executed.state, result: executed.result, resultUrl: executed.resultUrl, error: executed.error };
+          }
+          if (executed && executed.state !== "proposed") {
+            proposalResult = JSON.stringify({
+              status: executed.state,
+              proposalId: executed.id,
+              description: executed.description,
+              result: executed.result,
+              error: executed.error,
+              message: `An approval policy ("${proposal.policy?.policyName}") approved this action automatically and it has been executed.`,
+            });
+          } else if (proposal.state === "declined") {
+            proposalResult = JSON.stringify({
+              status: "blocked_by_policy",
+              proposalId: proposal.id,
+              description: proposal.description,
+              message: `${proposal.error}. Tell the user this can't be done from chat; don't retry it or work around it with other tools.`,
+            });
+          } else {
+            proposalResult = JSON.stringify({
+              status: "proposed_for_approval",
+              proposalId: proposal.id,
+              description: proposal.description,
+              message: "This action has been proposed to the user for approval. Don't take steps that depend on it yet; once the user decides you'll be resumed with the outcome.",
+            });
+          }
           messages.push({ role: "tool", tool_call_id: tc.id, content: proposalResult });
           allToolCalls.push({ id: tc.id, name: toolName, arguments: toolArgs, result: proposalResult });
           continue; // Skip normal tool execution
@@ -349,24 +516,26 @@ export class ChatService {
             result = JSON.stringify({ error: `Unknown tool: ${toolName}` });
           } else {
             const parsedArgs = JSON.parse(toolArgs);
-            result = await handler(parsedArgs);
+            result = await handler(parsedArgs, { signal });
           }
         } catch (error) {
           result = JSON.stringify({ error: error instanceof Error ? error.message : "Tool execution failed" });
         }
+        if (signal?.aborted) break;
 
         yield { type: "tool_call_result", toolCall: { id: tc.id, name: toolName, result } };
         allToolCalls.push({ id: tc.id, name: toolName, arguments: toolArgs, result });
 
+        // The UI and stored message keep the full result; the model sees a capped copy
         messages.push({
           role: "tool",
           tool_call_id: tc.id,
-          content: result,
+          content: truncateToolResult(result, this.context.maxToolResultTokens),
         });
       }
 
       // If finish_reason was "stop" (not "tool_calls"), break
-      if (chunkFinishReason === "stop") {
+      if (chunkFinishReason === "stop" || signal?.aborted) {
         break;
       }
     }
@@ -375,10 +544,12 @@ export class ChatService {
     const assistantMsg: ChatMessage = {
       id: pendingAssistantMsgId,
       conversationId,
+      parentId,
       role: "assistant",
       content: fullContent,
       toolCalls: allToolCalls.length > 0 ? allToolCalls : undefined,
       matchedSkills: matchedSkills.length > 0 ? matchedSkills : undefined,
+      cancelled: signal?.aborted || undefined,
       createdAt: new Date().toISOString(),
     };
     this.db.addMessage(assistantMsg);
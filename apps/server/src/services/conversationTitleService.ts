@@ -0,0 +1,97 @@
+import type { ChatConversation, ConversationTag } from "@linearapp/shared";
+import type { StateDb } from "../db";
+import type { LlmProvider } from "../adapters/llmProvider";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ConversationTitleService");
+
+export const CONVERSATION_TAGS: ConversationTag[] = ["sprint", "okr", "customer", "triage", "reporting"];
+
+const MAX_TITLE_LENGTH = 60;
+/** Each side of the first exchange is clipped to this before it is sent for titling */
+const EXCHANGE_CHARS = 2_000;
+
+/** Keyword fallback for tagging when no model is configured or the model's answer is unusable */
+const TAG_KEYWORDS: Record<ConversationTag, RegExp> = {
+  sprint: /\b(sprints?|cycles?|velocity|carry-?over|roll-?over|burn-?down|standup|capacity|wip)\b/i,
+  okr: /\b(okrs?|objectives?|key results?|krs?)\b/i,
+  customer: /\b(customers?|clients?|accounts?|contracts?|tiers?)\b/i,
+  triage: /\b(bugs?|triage|incidents?|outages?|regressions?|blockers?|priorit(y|ies|ize))\b/i,
+  reporting: /\b(reports?|summary|summari[sz]e|dashboards?|metrics|trends?|weekly|monthly|forecasts?)\b/i,
+};
+
+/**
+ * Titles and tags a conversation once its first exchange is done. Uses the
+ * summary model when one is configured, otherwise (or when the model's answer
+ * can't be used) falls back to the first line of the question and keyword tags.
+ */
+export class ConversationTitleService {
+  constructor(
+    private readonly db: StateDb,
+    private readonly llm: LlmProvider,
+  ) {}
+
+  /** Whether the conversation still has its placeholder title */
+  needsTitle(conversationId: string): boolean {
+    return this.db.getConversation(conversationId)?.titleSource === "default";
+  }
+
+  /**
+   * Generate and store title and tags. Returns the updated conversation, or
+   * undefined if there was nothing to do or the user renamed it meanwhile.
+   */
+  async generate(conversationId: string): Promise<ChatConversation | undefined> {
+    if (!this.needsTitle(conversationId)) return undefined;
+    const messages = this.db.getMessages(conversationId);
+    const question = messages.find(m => m.role === "user")?.content.slice(0, EXCHANGE_CHARS);
+    if (!question) return undefined;
+    const answer = messages.find(m => m.role === "assistant")?.content.slice(0, EXCHANGE_CHARS) ?? "";
+
+    const meta = (this.llm.name === "heuristic" ? undefined : await this.fromModel(conversationId, question, answer))
+      ?? heuristicMeta(question, answer);
+    if (!this.db.updateConversationMeta(conversationId, meta, "generated")) return undefined;
+    log.debug("Titled conversation", { conversationId, title: meta.title, tags: meta.tags });
+    return this.db.getConversation(conversationId);
+  }
+
+  private async fromModel(conversationId: string, question: string, answer: string): Promise<{ title: string; tags: ConversationTag[] } | undefined> {
+    try {
+      const response = await this.llm.chat([
+        {
+          role: "system",
+          content: `Name this conversation between a user and an engineering-team assistant. Reply with JSON only: {"title": string, "tags": string[]}. The title is at most ${MAX_TITLE_LENGTH} characters, plain text, no quotes or trailing punctuation. Tags are zero to two of: ${CONVERSATION_TAGS.join(", ")}.`,
+        },
+        { role: "user", content: `User:\n${question}\n\nAssistant:\n${answer}` },
+      ], undefined, { useCase: "summary" });
+      const raw = response.choices[0]?.message?.content ?? "";
+      const parsed = JSON.parse(raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1)) as { title?: unknown; tags?: unknown };
+      const title = typeof parsed.title === "string" ? clipTitle(parsed.title.replace(/^["']|["'.]$/g, "")) : "";
+      if (!title) return undefined;
+      const tags = Array.isArray(parsed.tags)
+        ? CONVERSATION_TAGS.filter(t => (parsed.tags as unknown[]).includes(t))
+        : [];
+      return { title, tags };
+    } catch (error) {
+      log.warn("Conversation titling failed, using heuristic", { conversationId, error: error instanceof Error ? error.message : "unknown" });
+      return undefined;
+    }
+  }
+}
+
+function heuristicMeta(question: string, answer: string): { title: string; tags: ConversationTag[] } {
+  const firstLine = question.split("\n").find(l => l.trim())?.trim() ?? "New conversation";
+  const text = `${question}\n${answer}`;
+  return {
+    title: clipTitle(firstLine),
+    tags: CONVERSATION_TAGS.filter(t => TAG_KEYWORDS[t].test(text)).slice(0, 2),
+  };
+}
+
+/** Trim to the title limit on a word boundary */
+function clipTitle(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= MAX_TITLE_LENGTH) return clean;
+  const cut = clean.slice(0, MAX_TITLE_LENGTH - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${space > MAX_TITLE_LENGTH / 2 ? cut.slice(0, space) : cut}…`;
+}
@@ -0,0 +1,106 @@
+import type { CycleSnapshotRow, StateDb } from "../db";
+import type { BurndownPoint, Cycle, CycleScopeChange } from "@linearapp/shared";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("CycleSnapshotService");
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function toDay(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Records one row per active cycle per day (scope, completed, in-progress, points)
+ * and turns those rows into a burndown series with scope-change events.
+ * Capturing repeatedly on the same day overwrites that day's row, so the stored
+ * value is always the last observation of the day.
+ */
+export class CycleSnapshotService {
+  constructor(private readonly db: StateDb) {}
+
+  captureActiveCycles(now = new Date()): number {
+    const cycles = this.db.getActiveCycles();
+    for (const cycle of cycles) this.capture(cycle, now);
+    if (cycles.length > 0) log.debug("Captured cycle snapshots", { count: cycles.length, date: toDay(now) });
+    return cycles.length;
+  }
+
+  capture(cycle: Cycle, now = new Date()) {
+    const issues = this.db.getIssuesByCycle(cycle.id);
+    const done = issues.filter(i => i.snapshot.boardColumn === "done");
+    const inProgress = issues.filter(i => i.snapshot.boardColumn === "in_progress" || i.snapshot.boardColumn === "in_review");
+    const points = (list: typeof issues) => list.reduce((s, i) => s + (i.snapshot.estimate ?? 0), 0);
+
+    this.db.upsertCycleSnapshot({
+      cycleId: cycle.id,
+      date: toDay(now),
+      scopeCount: issues.length,
+      completedCount: done.length,
+      inProgressCount: inProgress.length,
+      scopePoints: points(issues),
+      completedPoints: points(done),
+      issues: issues.map(i => ({ issueId: i.snapshot.issueId, identifier: i.snapshot.identifier })),
+      capturedAt: now.toISOString(),
+    });
+  }
+
+  /**
+   * Ideal vs actual remaining work, one point per observed day: from the first
+   * snapshot through today, carrying the previous day's values over days missing
+   * a snapshot. The ideal line burns the scope at cycle start down to zero over the
+   * whole cycle, so it stays right when snapshots only begin mid-cycle.
+   */
+  buildBurndown(cycle: Cycle, now = new Date()): { burndown: BurndownPoint[]; scopeChanges: CycleScopeChange[] } {
+    const snapshots = this.db.getCycleSnapshots(cycle.id);
+    const byDate = new Map(snapshots.map(s => [s.date, s]));
+
+    const start = new Date(`${cycle.startsAt.slice(0, 10)}T00:00:00Z`);
+    const end = new Date(`${cycle.endsAt.slice(0, 10)}T00:00:00Z`);
+    const totalDays = Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS));
+    const today = toDay(now);
+    const initialScope = this.scopeAtStart(cycle, snapshots);
+
+    const burndown: BurndownPoint[] = [];
+    let last: (typeof snapshots)[number] | undefined;
+    for (let day = 0; day <= totalDays; day++) {
+      const date = toDay(new Date(start.getTime() + day * DAY_MS));
+      if (date > today) break;
+      last = byDate.get(date) ?? last;
+      if (!last) continue;
+      burndown.push({
+        date,
+        ideal: Math.round(initialScope * (1 - day / totalDays) * 10) / 10,
+        actual: last.scopeCount - last.completedCount,
+        completed: last.completedCount,
+        scope: last.scopeCount,
+        remainingPoints: last.scopePoints - last.completedPoints,
+      });
+    }
+
+    // Diff consecutive snapshots' issue sets to find scope creep and descoping
+    const scopeChanges: CycleScopeChange[] = [];
+    for (let i = 1; i < snapshots.length; i++) {
+      const prev = new Map(snapshots[i - 1].issues.map(x => [x.issueId, x.identifier]));
+      const curr = new Map(snapshots[i].issues.map(x => [x.issueId, x.identifier]));
+      const added = [...curr].filter(([id]) => !prev.has(id)).map(([, identifier]) => identifier);
+      const removed = [...prev].filter(([id]) => !curr.has(id)).map(([, identifier]) => identifier);
+      if (added.length || removed.length) scopeChanges.push({ date: snapshots[i].date, added, removed });
+    }
+
+    return { burndown, scopeChanges };
+  }
+
+  /**
+   * Issues in the cycle when it started. Snapshots may begin mid-cycle; undo the
+   * cycle moves recorded between the start and the first snapshot.
+   */
+  private scopeAtStart(cycle: Cycle, snapshots: CycleSnapshotRow[]): number {
+    const first = snapshots[0];
+    if (!first) return 0;
+    const moves = this.db.getCycleMoveEvents(cycle.id, cycle.startsAt, first.capturedAt);
+    const joined = moves.filter(e => e.newRef === cycle.id).length;
+    const left = moves.filter(e => e.oldRef === cycle.id).length;
+    return Math.max(0, first.scopeCount - joined + left);
+  }
+}
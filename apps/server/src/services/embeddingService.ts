@@ -1,11 +1,13 @@
 import type { StateDb } from "../db";
-import type { OpenAIClient } from "../adapters/openaiClient";
+import type { LlmProvider } from "../adapters/llmProvider";
 import { createLogger } from "../lib/logger";
 import { createHash } from "node:crypto";
 
 const log = createLogger("EmbeddingService");
 
 function cosineSimilarity(a: number[], b: number[]): number {
+  // Vectors from a different embedding model are stale until resynced
+  if (a.length !== b.length) return 0;
   let dot = 0, magA = 0, magB = 0;
   for (let i = 0; i < a.length; i++) {
     dot += a[i] * b[i];
@@ -23,9 +25,14 @@ function hashText(text: string): string {
 export class EmbeddingService {
   constructor(
     private readonly db: StateDb,
-    private readonly openai: OpenAIClient,
+    private readonly openai: LlmProvider,
   ) {}
 
+  /** Hash includes the model so switching providers re-embeds everything */
+  private textHash(text: string): string {
+    return hashText(`${this.openai.embeddingModel}\n${text}`);
+  }
+
   /**
    * Build embedding text for an issue, including code change info, completer, and customer.
    */
@@ -86,7 +93,7 @@ export class EmbeddingService {
     };
 
     const text = this.buildEmbeddingText(issue.snapshot, extras);
-    const textHash = hashText(text);
+    const textHash = this.textHash(text);
 
     // Skip if unchanged
     const existingHash = this.db.getEmbeddingHash(issueId);
@@ -134,7 +141,7 @@ export class EmbeddingService {
         };
 
         const text = this.buildEmbeddingText(issue.snapshot, extras);
-        const textHash = hashText(text);
+        const textHash = this.textHash(text);
 
         const existingHash = this.db.getEmbeddingHash(issue.snapshot.issueId);
         if (existingHash === textHash) {
@@ -182,7 +189,7 @@ export class EmbeddingService {
   /**
    * Find similar issues using cosine similarity on stored embeddings.
    */
-  async findSimilar(query: string, limit = 5): Promise<Array<{
+  async findSimilar(query: string, limit = 5, signal?: AbortSignal): Promise<Array<{
     issueId: string;
     identifier: string;
     title: string;
@@ -190,7 +197,7 @@ export class EmbeddingService {
     assigneeName?: string;
     status?: string;
   }>> {
-    const queryEmbedding = await this.openai.createEmbedding(query);
+    const queryEmbedding = await this.openai.createEmbedding(query, { signal });
     const allEmbeddings = this.db.getAllEmbeddings();
 
     if (allEmbeddings.length === 0) {
@@ -0,0 +1,124 @@
+import type { StateDb } from "../db";
+import type { ForecastResult, ForecastTarget, ForecastUnit, IssueWithState } from "@linearapp/shared";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** Days of completion history sampled for throughput */
+const HISTORY_DAYS = 42;
+const TRIALS = 5_000;
+/** Trials simulated between yields to the event loop, so a forecast doesn't stall other requests */
+const TRIALS_PER_CHUNK = 250;
+/** Give up on a trial after a year; such runs count as "not before the deadline" */
+const MAX_SIMULATED_DAYS = 365;
+
+export type ForecastOptions = {
+  unit?: ForecastUnit;
+  teamKey?: string;
+  now?: Date;
+};
+
+function toDay(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Monte Carlo completion forecasts. Builds a per-day throughput history from
+ * issues completed in the last HISTORY_DAYS, then repeatedly samples a random
+ * past day's throughput for each future day until the remaining work is gone.
+ * Calendar days are sampled (weekends included), so idle days are accounted for.
+ */
+export class ForecastService {
+  constructor(private readonly db: StateDb) {}
+
+  async forecastCycle(cycleId: string | undefined, options: ForecastOptions = {}): Promise<ForecastResult | { error: string }> {
+    const cycle = cycleId ? this.db.getCycleById(cycleId) : this.db.getActiveCycle(options.teamKey);
+    if (!cycle) return { error: cycleId ? "Cycle not found" : "No active cycle" };
+    const open = this.db.getIssuesByCycle(cycle.id).filter(isOpen);
+    return this.run({ type: "cycle", id: cycle.id, name: cycle.name }, open, cycle.endsAt.slice(0, 10), { ...options, teamKey: options.teamKey ?? cycle.teamKey });
+  }
+
+  async forecastProject(projectId: string, options: ForecastOptions = {}): Promise<ForecastResult | { error: string }> {
+    const project = this.db.getProjectById(projectId);
+    if (!project) return { error: "Project not found" };
+    const open = this.db.getAllIssues(options.teamKey).filter(i => i.snapshot.projectId === projectId && isOpen(i));
+    return this.run({ type: "project", id: project.id, name: project.name }, open, project.targetDate?.slice(0, 10), options);
+  }
+
+  /** Accepts Linear issue IDs or identifiers such as ENG-123 */
+  async forecastIssues(issueIds: string[], options: ForecastOptions = {}): Promise<ForecastResult | { error: string }> {
+    const issues = issueIds
+      .map(id => this.db.getIssueById(id) ?? this.db.getIssueByIdentifier(id))
+      .filter((i): i is IssueWithState => Boolean(i));
+    if (issues.length === 0) return { error: "None of the issues were found" };
+    return this.run({ type: "issues", issueIds: issues.map(i => i.snapshot.issueId) }, issues.filter(isOpen), undefined, options);
+  }
+
+  private async run(target: ForecastTarget, open: IssueWithState[], deadline: string | undefined, options: ForecastOptions): Promise<ForecastResult> {
+    const unit = options.unit ?? "issues";
+    const now = options.now ?? new Date();
+    const all = this.db.getAllIssues(options.teamKey);
+    const fallbackEstimate = medianEstimate(all);
+    const history = throughputHistory(all, unit, fallbackEstimate, now);
+    const remaining = open.reduce((s, i) => s + (unit === "points" ? i.snapshot.estimate ?? fallbackEstimate : 1), 0);
+    const historyThroughput = history.reduce((s, v) => s + v, 0);
+
+    const result: ForecastResult = { target, unit, remaining, historyDays: HISTORY_DAYS, historyThroughput, trials: 0, deadline };
+    if (remaining === 0) {
+      const today = toDay(now);
+      return { ...result, p50: today, p85: today, p95: today, probabilityByDeadline: deadline ? 1 : undefined };
+    }
+    // No completions in the window: any date would be a guess
+    if (historyThroughput === 0) return result;
+
+    const durations: number[] = [];
+    for (let t = 0; t < TRIALS; t++) {
+      if (t > 0 && t % TRIALS_PER_CHUNK === 0) await new Promise(resolve => setImmediate(resolve));
+      let left = remaining;
+      let days = 0;
+      while (left > 0 && days < MAX_SIMULATED_DAYS) {
+        left -= history[Math.floor(Math.random() * history.length)];
+        days++;
+      }
+      durations.push(left > 0 ? Infinity : days);
+    }
+    durations.sort((a, b) => a - b);
+
+    const dateAt = (pct: number) => {
+      const days = durations[Math.min(durations.length - 1, Math.ceil(pct * durations.length) - 1)];
+      return Number.isFinite(days) ? toDay(new Date(now.getTime() + days * DAY_MS)) : undefined;
+    };
+
+    let probabilityByDeadline: number | undefined;
+    if (deadline) {
+      const daysToDeadline = Math.floor((new Date(`${deadline}T23:59:59Z`).getTime() - now.getTime()) / DAY_MS);
+      probabilityByDeadline = Math.round(durations.filter(d => d <= daysToDeadline).length / durations.length * 100) / 100;
+    }
+
+    return { ...result, trials: TRIALS, p50: dateAt(0.5), p85: dateAt(0.85), p95: dateAt(0.95), probabilityByDeadline };
+  }
+}
+
+/** Completed work per calendar day over the history window, oldest first */
+function throughputHistory(issues: IssueWithState[], unit: ForecastUnit, fallbackEstimate: number, now: Date): number[] {
+  const start = now.getTime() - HISTORY_DAYS * DAY_MS;
+  const buckets = new Array<number>(HISTORY_DAYS).fill(0);
+  for (const i of issues) {
+    // Canceled issues also land in "done" but weren't delivered
+    if (i.snapshot.statusType !== "completed" || !i.snapshot.completedAt) continue;
+    const at = new Date(i.snapshot.completedAt).getTime();
+    if (at < start || at > now.getTime()) continue;
+    const bucket = Math.min(HISTORY_DAYS - 1, Math.floor((at - start) / DAY_MS));
+    buckets[bucket] += unit === "points" ? i.snapshot.estimate ?? fallbackEstimate : 1;
+  }
+  return buckets;
+}
+
+function isOpen(i: IssueWithState): boolean {
+  return i.snapshot.boardColumn !== "done";
+}
+
+/** Stand-in for unestimated issues when forecasting in points */
+function medianEstimate(issues: IssueWithState[]): number {
+  const estimates = issues.map(i => i.snapshot.estimate).filter((e): e is number => typeof e === "number" && e > 0).sort((a, b) => a - b);
+  return estimates.length ? estimates[Math.floor(estimates.length / 2)] : 1;
+}
@@ -1,11 +1,19 @@
 import type { AppConfig } from "../config";
-import type { StateDb } from "../db";
+import type { StateDb, SyncResource } from "../db";
 import type { LinearGraphqlClient } from "../adapters/linearGraphql";
-import type { Cycle } from "@linearapp/shared";
+import type { BoardColumnId, Cycle } from "@linearapp/shared";
 import { createLogger } from "../lib/logger";
 
 const log = createLogger("LinearSyncService");
 
+/** How often an incremental sync is upgraded to a full reconciliation pass */
+const FULL_RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export type SyncOptions = {
+  /** Ignore stored cursors and re-pull everything from Linear */
+  full?: boolean;
+};
+
 export class LinearSyncService {
   constructor(
     private readonly cfg: AppConfig,
@@ -13,18 +21,47 @@ export class LinearSyncService {
     private readonly linear: LinearGraphqlClient,
   ) {}
 
-  async syncAll(): Promise<void> {
+  async syncAll(options: SyncOptions = {}): Promise<void> {
     await this.syncMembers();
-    await this.syncIssues();
-    await this.syncCycles();
-    await this.syncCustomers();
-    await this.syncProjects();
+    await this.syncIssues(options);
+    await this.syncCycles(options);
+    await this.syncCustomers(options);
+    await this.syncProjects(options);
     await this.syncInitiativesAsOkrs();
   }
 
+  /**
+   * Returns the high-water mark to fetch from, or undefined when a full pass is due
+   * (forced, no cursor yet, or the last full pass is older than FULL_RECONCILE_INTERVAL_MS).
+   */
+  private incrementalSince(resource: SyncResource, options: SyncOptions, teamKey?: string): string | undefined {
+    if (options.full) return undefined;
+    const cursor = this.db.getSyncCursor(resource, teamKey);
+    if (!cursor.highWaterMark || !cursor.lastFullSync) return undefined;
+    if (Date.now() - new Date(cursor.lastFullSync).getTime() > FULL_RECONCILE_INTERVAL_MS) return undefined;
+    return cursor.highWaterMark;
+  }
+
+  /**
+   * Advance the stored cursor after a successful upsert. Only called once the
+   * rows are in the DB, so a failed sync retries from the previous mark.
+   */
+  private advanceCursor(resource: SyncResource, updatedAts: string[], full: boolean, startedAt: string, teamKey?: string): void {
+    const current = this.db.getSyncCursor(resource, teamKey);
+    let highWaterMark = current.highWaterMark;
+    for (const u of updatedAts) {
+      if (!highWaterMark || u > highWaterMark) highWaterMark = u;
+    }
+    this.db.setSyncCursor(resource, {
+      highWaterMark,
+      lastFullSync: full ? startedAt : current.lastFullSync,
+    }, teamKey);
+  }
+
   async syncMembers(): Promise<void> {
     if (!this.linear.hasKey) return;
-    const users = await this.linear.listUsers(this.cfg.linearTeamKey);
+    // People can belong to several teams; upsertMember dedupes by id
+    const users = (await Promise.all(this.cfg.linearTeamKeys.map(k => this.linear.listUsers(k)))).flat();
     const now = new Date().toISOString();
     for (const u of users) {
       this.db.upsertMember({
@@ -41,21 +78,19 @@ export class LinearSyncService {
     log.info("Synced members", { count: users.length });
   }
 
-  async syncIssues(): Promise<void> {
+  async syncIssues(options: SyncOptions = {}): Promise<void> {
     if (!this.linear.hasKey) return;
-    const issues = await this.linear.listIssues(this.cfg.linearTeamKey, 500);
-    const statusMap = new Map<string, string>();
-    const statuses = await this.linear.listStatuses(this.cfg.linearTeamKey);
-    for (const s of statuses) statusMap.set(s.id, s.type);
-
-    const toBoardColumn = (statusType: string): string => {
-      switch (statusType) {
-        case "started": return "in_progress";
-        case "completed": return "done";
-        case "canceled": return "done";
-        default: return "backlog";
-      }
-    };
+    for (const teamKey of this.cfg.linearTeamKeys) {
+      await this.syncTeamIssues(teamKey, options);
+    }
+  }
+
+  private async syncTeamIssues(teamKey: string, options: SyncOptions): Promise<void> {
+    const startedAt = new Date().toISOString();
+    const since = this.incrementalSince("issues", options, teamKey);
+    // Page through everything: a full pass needs the whole team, and an incremental
+    // pass must not drop changes past the first page or the cursor would skip them.
+    const issues = await this.linear.listIssues(teamKey, Infinity, since);
 
     const snapshots = issues.map(i => ({
       issueId: i.id,
@@ -65,7 +100,7 @@ export class LinearSyncService {
       url: i.url,
       status: i.status,
       statusType: i.statusType,
-      boardColumn: toBoardColumn(i.statusType) as any,
+      boardColumn: toBoardColumn(i.statusType),
       assigneeId: i.assigneeId,
       assigneeName: i.assigneeName,
       estimate: i.estimate,
@@ -82,64 +117,90 @@ export class LinearSyncService {
       cycleName: i.cycleName,
     }));
     this.db.upsertIssues(snapshots);
-    log.info("Synced issues", { count: snapshots.length });
+
+    // Linear omits deleted, archived and moved-out issues from the team query, so
+    // only a full pass can tell which local rows are gone. An empty response is
+    // more likely a misconfigured team key than an empty team — don't wipe the board.
+    if (!since && issues.length > 0) {
+      const tombstoned = this.db.reconcileIssues(teamKey, new Set(issues.map(i => i.id)));
+      if (tombstoned.length > 0) log.info("Tombstoned issues missing from Linear", { teamKey, count: tombstoned.length });
+    }
+
+    this.advanceCursor("issues", issues.map(i => i.updatedAt), !since, startedAt, teamKey);
+    log.info("Synced issues", { teamKey, count: snapshots.length, mode: since ? "incremental" : "full" });
   }
 
-  async syncCycles(): Promise<void> {
+  async syncCycles(options: SyncOptions = {}): Promise<void> {
     if (!this.linear.hasKey) return;
-    const rawCycles = await this.linear.listCycles(this.cfg.linearTeamKey);
-    if (rawCycles.length === 0) {
-      log.warn("No cycles returned from Linear — check team key or workspace configuration");
-      return;
-    }
     const now = new Date();
-    const cycles: Cycle[] = rawCycles.map(c => {
-      const startsAt = new Date(c.startsAt);
-      const endsAt = new Date(c.endsAt);
-      // Use end-of-day for endsAt so the cycle stays active on its last day
-      endsAt.setHours(23, 59, 59, 999);
-      return {
-        id: c.id,
-        name: c.name,
-        number: c.number,
-        startsAt: c.startsAt,
-        endsAt: c.endsAt,
-        completedScopeCount: c.completedScopeCount,
-        totalScopeCount: c.scopeCount,
-        progress: c.progress,
-        isActive: startsAt <= now && now <= endsAt,
-      };
-    });
-    const activeCycle = cycles.find(c => c.isActive);
-    if (!activeCycle) {
-      log.warn("No active cycle found — closest upcoming or most recent may be between cycles", {
-        total: cycles.length,
-        mostRecent: cycles[0]?.name,
-        mostRecentEnd: cycles[0]?.endsAt,
-      });
-    } else {
-      log.info("Active cycle identified", { name: activeCycle.name, number: activeCycle.number, progress: activeCycle.progress });
+    for (const teamKey of this.cfg.linearTeamKeys) {
+      await this.syncTeamCycles(teamKey, options, now);
     }
+
+    // The active flag depends on today's date, not on Linear's updatedAt, so an
+    // incremental pass must re-evaluate every stored cycle.
+    const cycles = this.db.getAllCycles().map(c => ({ ...c, isActive: isCycleActive(c, now) }));
     this.db.upsertCycles(cycles);
-    log.info("Synced cycles", { count: cycles.length, active: activeCycle?.name ?? "none" });
+    for (const teamKey of this.cfg.linearTeamKeys) {
+      const activeCycle = cycles.find(c => c.isActive && c.teamKey === teamKey);
+      if (!activeCycle) {
+        const teamCycles = cycles.filter(c => c.teamKey === teamKey);
+        log.warn("No active cycle found — closest upcoming or most recent may be between cycles", {
+          teamKey,
+          total: teamCycles.length,
+          mostRecent: teamCycles[0]?.name,
+          mostRecentEnd: teamCycles[0]?.endsAt,
+        });
+      } else {
+        log.info("Active cycle identified", { teamKey, name: activeCycle.name, number: activeCycle.number, progress: activeCycle.progress });
+      }
+    }
+  }
+
+  private async syncTeamCycles(teamKey: string, options: SyncOptions, now: Date): Promise<void> {
+    const startedAt = new Date().toISOString();
+    const since = this.incrementalSince("cycles", options, teamKey);
+    const rawCycles = await this.linear.listCycles(teamKey, since);
+    if (rawCycles.length === 0 && !since) {
+      log.warn("No cycles returned from Linear — check team key or workspace configuration", { teamKey });
+      return;
+    }
+    const changed: Cycle[] = rawCycles.map(c => ({
+      id: c.id,
+      name: c.name,
+      number: c.number,
+      startsAt: c.startsAt,
+      endsAt: c.endsAt,
+      completedScopeCount: c.completedScopeCount,
+      totalScopeCount: c.scopeCount,
+      progress: c.progress,
+      isActive: isCycleActive(c, now),
+      teamId: c.teamId,
+      teamKey: c.teamKey,
+    }));
+    this.db.upsertCycles(changed);
+    this.advanceCursor("cycles", rawCycles.map(c => c.updatedAt), !since, startedAt, teamKey);
+    log.info("Synced cycles", { teamKey, count: changed.length, mode: since ? "incremental" : "full" });
   }
 
   /**
-   * Sync customers from Linear, filtered to only those with EAM-team issues.
-   * Customers without any issues linked to the configured team are skipped.
+   * Sync customers from Linear, filtered to only those with issues in a tracked team.
+   * Customers without any issues linked to the configured teams are skipped.
    */
-  async syncCustomers(): Promise<void> {
+  async syncCustomers(options: SyncOptions = {}): Promise<void> {
     if (!this.linear.hasKey) return;
     try {
-      const customers = await this.linear.listCustomers();
-      const teamKey = this.cfg.linearTeamKey;
+      const startedAt = new Date().toISOString();
+      const since = this.incrementalSince("customers", options);
+      const customers = await this.linear.listCustomers(since);
+      const teamKeys = this.cfg.linearTeamKeys;
       const now = new Date().toISOString();
       let synced = 0;
       let skipped = 0;
 
       for (const c of customers) {
-        // Only sync customers that have issues related to our team
-        if (!c.teamKeys.includes(teamKey)) {
+        // Only sync customers that have issues related to one of our teams
+        if (!c.teamKeys.some(k => teamKeys.includes(k))) {
           skipped++;
           continue;
         }
@@ -160,16 +221,26 @@ export class LinearSyncService {
         });
         synced++;
       }
-      log.info("Synced customers", { total: customers.length, synced, skipped, teamKey });
+      this.advanceCursor("customers", customers.map(c => c.updatedAt), !since, startedAt);
+      log.info("Synced customers", { total: customers.length, synced, skipped, teamKeys, mode: since ? "incremental" : "full" });
     } catch {
       log.debug("Customer sync skipped (feature may not be enabled)");
     }
   }
 
-  async syncProjects(): Promise<void> {
+  async syncProjects(options: SyncOptions = {}): Promise<void> {
     if (!this.linear.hasKey) return;
+    // Projects can span teams; the same row is upserted once per team that owns it
+    for (const teamKey of this.cfg.linearTeamKeys) {
+      await this.syncTeamProjects(teamKey, options);
+    }
+  }
+
+  private async syncTeamProjects(teamKey: string, options: SyncOptions): Promise<void> {
     try {
-      const projects = await this.linear.listProjectsDetailed(this.cfg.linearTeamKey);
+      const startedAt = new Date().toISOString();
+      const since = this.incrementalSince("projects", options, teamKey);
+      const projects = await this.linear.listProjectsDetailed(teamKey, since);
       this.db.upsertProjects(projects.map(p => ({
         id: p.id,
         name: p.name,
@@ -184,16 +255,17 @@ export class LinearSyncService {
         memberIdsJson: JSON.stringify(p.memberIds),
         syncedAt: new Date().toISOString(),
       })));
-      log.info("Synced projects", { count: projects.length });
+      this.advanceCursor("projects", projects.map(p => p.updatedAt), !since, startedAt, teamKey);
+      log.info("Synced projects", { teamKey, count: projects.length, mode: since ? "incremental" : "full" });
     } catch (e) {
-      log.warn("Project sync failed", { error: e instanceof Error ? e.message : "unknown" });
+      log.warn("Project sync failed", { teamKey, error: e instanceof Error ? e.message : "unknown" });
     }
   }
 
   /**
    * Sync Linear initiatives as OKRs.
    * - Initiative → OKR objective
-   * - Linked projects (filtered to EAM team) → key results
+   * - Linked projects (filtered to tracked teams) → key results
    * - Project progress → KR progress
    */
   async syncInitiativesAsOkrs(): Promise<void> {
@@ -205,24 +277,24 @@ export class LinearSyncService {
         return;
       }
 
-      const teamKey = this.cfg.linearTeamKey;
+      const teamKeys = this.cfg.linearTeamKeys;
       const now = new Date().toISOString();
       let synced = 0;
 
       for (const initiative of initiatives) {
-        // Filter projects to only those that include the EAM team
-        const eamProjects = initiative.projects.filter(p =>
-          p.teamKeys.includes(teamKey)
+        // Filter projects to only those that include one of our teams
+        const teamProjects = initiative.projects.filter(p =>
+          p.teamKeys.some(k => teamKeys.includes(k))
         );
 
-        // Skip initiatives with no EAM-related projects
-        if (eamProjects.length === 0) continue;
+        // Skip initiatives with no team-related projects
+        if (teamProjects.length === 0) continue;
 
         // Map initiative → OKR
         const okrId = `initiative-${initiative.id}`;
 
         // Map linked projects → key results
-        const keyResults = eamProjects.map((p, i) => {
+        const keyResults = teamProjects.map((p, i) => {
           const totalIssues = p.issueCount || 1;
           const completedIssues = p.completedIssueCount || 0;
           const progress = totalIssues > 0 ? (completedIssues / totalIssues) * 100 : 0;
@@ -246,7 +318,7 @@ export class LinearSyncService {
           ? deriveQuarter(initiative.targetDate)
           : deriveQuarter(now);
 
-        const totalIssueCount = eamProjects.reduce((s, p) => s + p.issueCount, 0);
+        const totalIssueCount = teamProjects.reduce((s, p) => s + p.issueCount, 0);
 
         this.db.upsertOkr({
           okrId,
@@ -263,13 +335,31 @@ export class LinearSyncService {
         synced++;
       }
 
-      log.info("Synced initiatives as OKRs", { total: initiatives.length, synced, teamKey });
+      log.info("Synced initiatives as OKRs", { total: initiatives.length, synced, teamKeys });
     } catch (e) {
       log.warn("Initiative sync failed", { error: e instanceof Error ? e.message : "unknown" });
     }
   }
 }
 
+/** Map a Linear workflow state type onto a board column */
+export function toBoardColumn(statusType: string): BoardColumnId {
+  switch (statusType) {
+    case "started": return "in_progress";
+    case "completed": return "done";
+    case "canceled": return "done";
+    default: return "backlog";
+  }
+}
+
+export function isCycleActive(cycle: { startsAt: string; endsAt: string }, now: Date): boolean {
+  const startsAt = new Date(cycle.startsAt);
+  const endsAt = new Date(cycle.endsAt);
+  // Use end-of-day for endsAt so the cycle stays active on its last day
+  endsAt.setHours(23, 59, 59, 999);
+  return startsAt <= now && now <= endsAt;
+}
+
 function deriveQuarter(dateStr: string): string {
   const date = new Date(dateStr);
   const month = date.getMonth();
@@ -0,0 +1,234 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { AppConfig } from "../config";
+import type { StateDb } from "../db";
+import type { EmbeddingService } from "./embeddingService";
+import type { IssueSnapshot } from "@linearapp/shared";
+import { createLogger } from "../lib/logger";
+import { isCycleActive, toBoardColumn } from "./linearSyncService";
+
+const log = createLogger("LinearWebhookService");
+
+/** Reject deliveries whose `webhookTimestamp` is further than this from now (replay protection) */
+const MAX_WEBHOOK_AGE_MS = 60 * 1000;
+
+export type LinearWebhookPayload = {
+  action: "create" | "update" | "remove";
+  type: string;
+  data: Record<string, any>;
+  createdAt?: string;
+  updatedFrom?: Record<string, unknown>;
+  webhookTimestamp?: number;
+  webhookId?: string;
+};
+
+export type WebhookResult = {
+  type: string;
+  action: string;
+  applied: boolean;
+  reason?: string;
+};
+
+/**
+ * Verify the `Linear-Signature` header: a hex HMAC-SHA256 of the raw request body
+ * keyed with the webhook signing secret.
+ */
+export function verifyLinearSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const received = Buffer.from(signature, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export function isFreshWebhook(payload: LinearWebhookPayload, now = Date.now()): boolean {
+  if (typeof payload.webhookTimestamp !== "number") return false;
+  return Math.abs(now - payload.webhookTimestamp) <= MAX_WEBHOOK_AGE_MS;
+}
+
+/**
+ * Applies Linear webhook deliveries directly to the local state so the board and
+ * chat see changes within seconds. Background polling stays on as a fallback for
+ * missed deliveries; both paths write the same rows, so ordering doesn't matter.
+ */
+export class LinearWebhookService {
+  constructor(
+    private readonly cfg: AppConfig,
+    private readonly db: StateDb,
+    private readonly embeddings: EmbeddingService,
+  ) {}
+
+  apply(payload: LinearWebhookPayload): WebhookResult {
+    const base = { type: payload.type, action: payload.action };
+    switch (payload.type) {
+      case "Issue": return { ...base, ...this.applyIssue(payload) };
+      case "Comment": return { ...base, ...this.applyComment(payload) };
+      case "Cycle": return { ...base, ...this.applyCycle(payload) };
+      case "Project": return { ...base, ...this.applyProject(payload) };
+      default: return { ...base, applied: false, reason: "unsupported type" };
+    }
+  }
+
+  // ─── Issues ───
+
+  private applyIssue(payload: LinearWebhookPayload): Omit<WebhookResult, "type" | "action"> {
+    const d = payload.data;
+    if (!d?.id) return { applied: false, reason: "missing issue id" };
+
+    const teamKey: string | undefined = d.team?.key;
+    if (payload.action === "remove" || d.archivedAt || d.trashed || (teamKey && !this.cfg.linearTeamKeys.includes(teamKey))) {
+      this.db.tombstoneIssues([d.id]);
+      log.info("Tombstoned issue from webhook", { issueId: d.id, identifier: d.identifier, action: payload.action });
+      return { applied: true };
+    }
+
+    // Deliveries can arrive out of order or after a poll already pulled a newer copy
+    const storedUpdatedAt = this.db.getIssueUpdatedAt(d.id);
+    if (storedUpdatedAt && d.updatedAt && d.updatedAt < storedUpdatedAt) {
+      return { applied: false, reason: "stale" };
+    }
+
+    const statusType: string = d.state?.type ?? "unknown";
+    const snapshot: IssueSnapshot = {
+      issueId: d.id,
+      identifier: d.identifier,
+      title: d.title,
+      description: d.description ?? undefined,
+      url: d.url,
+      status: d.state?.name ?? "Unknown",
+      statusType,
+      boardColumn: toBoardColumn(statusType),
+      assigneeId: d.assignee?.id ?? d.assigneeId ?? undefined,
+      assigneeName: d.assignee?.name ?? undefined,
+      estimate: d.estimate ?? undefined,
+      labels: Array.isArray(d.labels) ? d.labels.map((l: { name: string }) => l.name) : [],
+      priority: d.priority ?? undefined,
+      projectId: d.project?.id ?? d.projectId ?? undefined,
+      projectName: d.project?.name ?? undefined,
+      teamId: d.team?.id ?? d.teamId,
+      teamKey: teamKey ?? this.cfg.linearTeamKey,
+      updatedAt: d.updatedAt,
+      completedAt: d.completedAt ?? undefined,
+      createdAt: d.createdAt,
+      cycleId: d.cycle?.id ?? d.cycleId ?? undefined,
+      cycleName: d.cycle ? (d.cycle.name || `Cycle ${d.cycle.number}`) : undefined,
+    };
+    this.db.upsertIssues([snapshot]);
+    this.refreshEmbedding(d.id);
+    return { applied: true };
+  }
+
+  /**
+   * Re-embed in the background; `embedIssue` skips unchanged text. If embedding
+   * fails, drop the stale vector so similarity search doesn't match old content.
+   */
+  private refreshEmbedding(issueId: string) {
+    this.embeddings.embedIssue(issueId).catch(error => {
+      log.warn("Re-embedding after webhook failed — dropping stale embedding", { issueId, error: String(error) });
+      this.db.deleteEmbedding(issueId);
+    });
+  }
+
+  // ─── Comments ───
+
+  private applyComment(payload: LinearWebhookPayload): Omit<WebhookResult, "type" | "action"> {
+    const d = payload.data;
+    if (!d?.id) return { applied: false, reason: "missing comment id" };
+
+    if (payload.action === "remove" || d.archivedAt) {
+      this.db.tombstoneIssueComment(d.id);
+      return { applied: true };
+    }
+
+    // Only comments on synced issues are kept; the rest belong to untracked teams
+    const issueId: string | undefined = d.issueId ?? d.issue?.id;
+    if (!issueId || !this.db.getIssueById(issueId)) return { applied: false, reason: "untracked issue" };
+
+    const storedUpdatedAt = this.db.getIssueCommentUpdatedAt(d.id);
+    if (storedUpdatedAt && d.updatedAt && d.updatedAt < storedUpdatedAt) {
+      return { applied: false, reason: "stale" };
+    }
+
+    this.db.upsertIssueComment({
+      id: d.id,
+      issueId,
+      body: d.body ?? "",
+      userName: d.user?.name ?? undefined,
+      createdAt: d.createdAt,
+      updatedAt: d.updatedAt ?? d.createdAt,
+    });
+    return { applied: true };
+  }
+
+  // ─── Cycles ───
+
+  private applyCycle(payload: LinearWebhookPayload): Omit<WebhookResult, "type" | "action"> {
+    const d = payload.data;
+    if (!d?.id) return { applied: false, reason: "missing cycle id" };
+    if (d.team?.key && !this.cfg.linearTeamKeys.includes(d.team.key)) return { applied: false, reason: "untracked team" };
+
+    if (payload.action === "remove" || d.archivedAt) {
+      this.db.tombstoneCycle(d.id);
+      return { applied: true };
+    }
+
+    // Scope counts come as daily histories; the last entry is today's value
+    const existing = this.db.getCycleById(d.id);
+    const scope = lastOf(d.scopeHistory) ?? existing?.totalScopeCount ?? 0;
+    const completed = lastOf(d.completedScopeHistory) ?? existing?.completedScopeCount ?? 0;
+    this.db.upsertCycles([{
+      id: d.id,
+      name: d.name || `Cycle ${d.number}`,
+      number: d.number,
+      startsAt: d.startsAt,
+      endsAt: d.endsAt,
+      completedScopeCount: completed,
+      totalScopeCount: scope,
+      progress: typeof d.progress === "number" ? d.progress : (scope > 0 ? completed / scope : 0),
+      isActive: isCycleActive(d as { startsAt: string; endsAt: string }, new Date()),
+      teamId: d.team?.id ?? d.teamId ?? undefined,
+      teamKey: d.team?.key ?? undefined,
+    }]);
+    return { applied: true };
+  }
+
+  // ─── Projects ───
+
+  private applyProject(payload: LinearWebhookPayload): Omit<WebhookResult, "type" | "action"> {
+    const d = payload.data;
+    if (!d?.id) return { applied: false, reason: "missing project id" };
+
+    if (payload.action === "remove" || d.archivedAt) {
+      this.db.tombstoneProject(d.id);
+      return { applied: true };
+    }
+
+    // Projects name their teams by ID; until a sync has seen a tracked team's ID there is nothing to compare
+    const trackedTeamIds = this.db.getTeamIds(this.cfg.linearTeamKeys);
+    if (Array.isArray(d.teamIds) && trackedTeamIds.length > 0 && !d.teamIds.some((id: string) => trackedTeamIds.includes(id))) {
+      // A project moved off every tracked team is dropped like an untracked issue
+      this.db.tombstoneProject(d.id);
+      return { applied: false, reason: "untracked team" };
+    }
+
+    // Issue counts aren't part of the payload — keep what the last poll computed
+    const existing = this.db.getProjectById(d.id);
+    this.db.upsertProjects([{
+      id: d.id,
+      name: d.name,
+      description: d.description ?? undefined,
+      state: d.state ?? existing?.state ?? "planned",
+      progress: typeof d.progress === "number" ? d.progress : existing?.progress ?? 0,
+      startDate: d.startDate ?? undefined,
+      targetDate: d.targetDate ?? undefined,
+      url: d.url ?? existing?.url,
+      issueCount: existing?.issueCount ?? 0,
+      completedIssueCount: existing?.completedIssueCount ?? 0,
+      memberIdsJson: JSON.stringify(Array.isArray(d.memberIds) ? d.memberIds : existing?.memberIds ?? []),
+      syncedAt: new Date().toISOString(),
+    }]);
+    return { applied: true };
+  }
+}
+
+function lastOf(values: unknown): number | undefined {
+  return Array.isArray(values) && values.length > 0 ? Number(values[values.length - 1]) : undefined;
+}
@@ -0,0 +1,96 @@
+import type { StateDb } from "../db";
+import type { Cycle, IssueWithState, RolloverRiskItem } from "@linearapp/shared";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** Issues scoring below this are not reported as at risk */
+const RISK_THRESHOLD = 30;
+
+type RiskFactor = { points: number; reason: string };
+
+/**
+ * Scores each open issue in a cycle for the chance it rolls over into the next one.
+ * Signals: days left in the cycle, time stuck in the current status, estimate size,
+ * PR review state, and how loaded the assignee is. Each signal adds points and a
+ * short reason; the result is ranked highest risk first.
+ */
+export class RolloverRiskService {
+  constructor(private readonly db: StateDb) {}
+
+  assess(cycle: Cycle, now = new Date()): RolloverRiskItem[] {
+    const end = new Date(cycle.endsAt);
+    end.setUTCHours(23, 59, 59, 999);
+    const daysRemaining = Math.max(0, Math.ceil((end.getTime() - now.getTime()) / DAY_MS));
+    if (now > end) return [];
+
+    const wipCounts = this.db.getWipCountByAssignee(cycle.teamKey);
+    const open = this.db.getIssuesByCycle(cycle.id).filter(i => i.snapshot.boardColumn !== "done");
+
+    const items: RolloverRiskItem[] = [];
+    for (const issue of open) {
+      const enteredAt = this.db.getStatusEnteredAt(issue.snapshot.issueId) ?? now.toISOString();
+      const daysInStatus = Math.max(0, Math.floor((now.getTime() - new Date(enteredAt).getTime()) / DAY_MS));
+      const factors = this.scoreIssue(issue, daysRemaining, daysInStatus, wipCounts);
+      const score = Math.min(100, factors.reduce((s, f) => s + f.points, 0));
+      if (score < RISK_THRESHOLD) continue;
+
+      items.push({
+        issueId: issue.snapshot.issueId,
+        identifier: issue.snapshot.identifier,
+        title: issue.snapshot.title,
+        assigneeName: issue.snapshot.assigneeName,
+        status: issue.snapshot.status,
+        daysInStatus,
+        score,
+        reason: factors.sort((a, b) => b.points - a.points).map(f => f.reason).join("; "),
+      });
+    }
+
+    return items.sort((a, b) => b.score - a.score);
+  }
+
+  private scoreIssue(issue: IssueWithState, daysRemaining: number, daysInStatus: number, wipCounts: Map<string, number>): RiskFactor[] {
+    const s = issue.snapshot;
+    const factors: RiskFactor[] = [];
+    const notStarted = s.boardColumn === "backlog" || s.boardColumn === "todo";
+    const dayLabel = (n: number) => `${n} day${n === 1 ? "" : "s"}`;
+
+    if (notStarted && daysRemaining <= 2) {
+      factors.push({ points: 40, reason: `Not started with ${dayLabel(daysRemaining)} left` });
+    } else if (notStarted && daysRemaining <= 5) {
+      factors.push({ points: 20, reason: `Not started with ${dayLabel(daysRemaining)} left` });
+    }
+
+    if (!notStarted && daysInStatus >= 5) {
+      factors.push({ points: 25, reason: `${dayLabel(daysInStatus)} in ${s.status}` });
+    } else if (!notStarted && daysInStatus >= 3) {
+      factors.push({ points: 15, reason: `${dayLabel(daysInStatus)} in ${s.status}` });
+    }
+
+    // Treat estimate points roughly as days of work
+    if (s.estimate !== undefined && s.estimate > daysRemaining && s.boardColumn !== "in_review") {
+      factors.push({ points: 20, reason: `Estimate of ${s.estimate} exceeds ${dayLabel(daysRemaining)} remaining` });
+    } else if (s.estimate !== undefined && s.estimate >= 5) {
+      factors.push({ points: 10, reason: `Large estimate (${s.estimate})` });
+    }
+
+    const openPrs = (issue.pullRequests ?? []).filter(pr => pr.state === "open");
+    if (openPrs.some(pr => pr.reviewStatus === "changes_requested")) {
+      factors.push({ points: 20, reason: "PR has changes requested" });
+    } else if (openPrs.some(pr => pr.reviewStatus === "pending" || pr.reviewStatus === "none") && daysRemaining <= 2) {
+      factors.push({ points: 10, reason: "PR still awaiting review" });
+    } else if (s.boardColumn === "in_progress" && openPrs.length === 0 && daysRemaining <= 2) {
+      factors.push({ points: 10, reason: "No PR opened yet" });
+    }
+
+    if (!s.assigneeId) {
+      factors.push({ points: 15, reason: "Unassigned" });
+    } else {
+      const wip = wipCounts.get(s.assigneeId) ?? 0;
+      if (wip >= 5) factors.push({ points: 15, reason: `${s.assigneeName ?? "Assignee"} has ${wip} items in progress` });
+      else if (wip >= 3) factors.push({ points: 5, reason: `${s.assigneeName ?? "Assignee"} has ${wip} items in progress` });
+    }
+
+    return factors;
+  }
+}
@@ -0,0 +1,123 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { LinearGraphqlClient } from "../adapters/linearGraphql";
+import { StateDb } from "../db";
+import { ActionSnapshotService } from "../services/actionSnapshotService";
+import { ActionStateMachine } from "../services/actionStateMachine";
+import type { ActionUndoService } from "../services/actionUndoService";
+import { ApprovalManager } from "../services/approvalManager";
+import { ApprovalPolicyService } from "../services/approvalPolicyService";
+
+describe("Approval policies", () => {
+  const tempPaths: string[] = [];
+  let db: StateDb;
+  let policies: ApprovalPolicyService;
+  let manager: ApprovalManager;
+  let executed: string[];
+
+  const propose = (toolName: string, toolArguments: Record<string, unknown>) =>
+    manager.createProposal({ conversationId: "conv-1", messageId: "msg-1", toolName, toolArguments });
+
+  beforeEach(() => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "linear-pm-policies-"));
+    tempPaths.push(root);
+    db = new StateDb(path.join(root, "state.db"));
+    policies = new ApprovalPolicyService(db);
+    executed = [];
+    const handlers = {
+      update_issue: async () => { executed.push("update_issue"); return JSON.stringify({ success: true }); },
+    };
+    const linear = {} as LinearGraphqlClient;
+    manager = new ApprovalManager(
+      new ActionStateMachine(db), handlers, db, {} as ActionUndoService, policies, new ActionSnapshotService(db, linear),
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    for (const temp of tempPaths.splice(0)) {
+      fs.rmSync(temp, { recursive: true, force: true });
+    }
+  });
+
+  describe("matching", () => {
+    it("needs the usual single approval when nothing matches", () => {
+      policies.create({ name: "OKRs", match: { categories: ["okr"] }, effect: "auto_approve" });
+      expect(policies.evaluate("update_issue", { issueId: "EAM-1", title: "x" })).toEqual({ effect: "require_approval" });
+    });
+
+    it("lets the first enabled match by priority decide", () => {
+      policies.create({ name: "Catch-all", priority: 100, effect: "require_approval" });
+      policies.create({ name: "Deletes", priority: 10, match: { destructive: true }, effect: "block" });
+      policies.create({ name: "Disabled", priority: 1, enabled: false, effect: "auto_approve" });
+
+      expect(policies.evaluate("delete_issue", { issueId: "EAM-1" })).toMatchObject({ policyName: "Deletes", effect: "block" });
+      expect(policies.evaluate("update_issue", { issueId: "EAM-1", title: "x" })).toMatchObject({ policyName: "Catch-all" });
+    });
+
+    it("matches batch size and changed fields, including the updates of a bulk call", () => {
+      policies.create({ name: "Big batches", priority: 10, match: { minBatchSize: 3 }, effect: "require_confirmation" });
+      policies.create({ name: "Reassignments", priority: 20, match: { fields: ["assigneeName"] }, effect: "require_second_approver" });
+
+      expect(policies.evaluate("bulk_update_issues", { issueIds: ["EAM-1", "EAM-2", "EAM-3"], updates: { priority: 1 } }))
+        .toMatchObject({ policyName: "Big batches", confirmationText: "3" });
+      expect(policies.evaluate("bulk_update_issues", { issueIds: ["EAM-1"], updates: { assigneeName: "Dana" } }))
+        .toMatchObject({ policyName: "Reassignments", approvals: [] });
+      // The target itself isn't a changed field
+      expect(policies.evaluate("update_issue", { issueId: "EAM-1", title: "x" })).toEqual({ effect: "require_approval" });
+    });
+  });
+
+  describe("effects", () => {
+    it("declines a blocked action as soon as it is proposed", () => {
+      policies.create({ name: "No issue edits", match: { toolNames: ["update_issue"] }, effect: "block" });
+      const proposal = propose("update_issue", { issueId: "EAM-1", title: "x" });
+      expect(proposal).toMatchObject({ state: "declined", error: 'Blocked by approval policy "No issue edits"' });
+    });
+
+    it("runs an auto-approved action without a click", async () => {
+      policies.create({ name: "Titles", match: { fields: ["title"] }, effect: "auto_approve" });
+      const proposal = propose("update_issue", { issueId: "EAM-1", title: "x" });
+
+      const result = await manager.runAutoApproved(proposal.id);
+
+      expect(result.state).toBe("succeeded");
+      expect(executed).toEqual(["update_issue"]);
+    });
+
+    it("refuses approval until the confirmation text is typed", async () => {
+      policies.create({ name: "Confirm", effect: "require_confirmation" });
+      const proposal = propose("update_issue", { issueId: "EAM-1", title: "x" });
+
+      await expect(manager.approve(proposal.id, "u1", "EAM-2")).rejects.toThrow('Type "EAM-1" to confirm this action');
+      expect((await manager.approve(proposal.id, "u1", " EAM-1 ")).state).toBe("approved");
+    });
+  });
+
+  describe("second approver", () => {
+    beforeEach(() => {
+      policies.create({ name: "Four eyes", effect: "require_second_approver" });
+    });
+
+    it("needs two different members before the action is approved", async () => {
+      const proposal = propose("update_issue", { issueId: "EAM-1", title: "x" });
+
+      const first = await manager.approve(proposal.id, "u1");
+      expect(first).toMatchObject({ state: "proposed", policy: { approvals: ["u1"] } });
+
+      await expect(manager.approve(proposal.id, "u1")).rejects.toThrow("needs a second team member");
+
+      const second = await manager.approve(proposal.id, "u2");
+      expect(second.state).toBe("approved");
+      expect(second.policy?.approvals).toEqual(["u1", "u2"]);
+      expect(executed).toEqual([]);
+    });
+
+    it("refuses an approver who hasn't said who they are", async () => {
+      const proposal = propose("update_issue", { issueId: "EAM-1", title: "x" });
+      await expect(manager.approve(proposal.id)).rejects.toThrow("needs two approvers");
+    });
+  });
+});
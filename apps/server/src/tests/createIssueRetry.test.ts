@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AppConfig } from "../config";
+import type { LinearGraphqlClient } from "../adapters/linearGraphql";
+import { StateDb } from "../db";
+import { createToolHandlers, type ToolAnalytics, type ToolHandler } from "../tools";
+
+const created = { id: "issue-1", identifier: "EAM-1", url: "https://linear.app/eam/issue/EAM-1", title: "Fix login" };
+
+describe("create_issue idempotency", () => {
+  const tempPaths: string[] = [];
+  let db: StateDb;
+  let createIssue: ReturnType<typeof vi.fn>;
+  let findIssueByAttachmentUrl: ReturnType<typeof vi.fn>;
+  let handler: ToolHandler;
+
+  beforeEach(() => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "linear-pm-create-issue-"));
+    tempPaths.push(root);
+    db = new StateDb(path.join(root, "state.db"));
+    createIssue = vi.fn(async () => created);
+    findIssueByAttachmentUrl = vi.fn(async () => undefined);
+    const linear = {
+      getTeamId: async () => "team-1",
+      createIssue,
+      findIssueByAttachmentUrl,
+    } as unknown as LinearGraphqlClient;
+    (linear as unknown as { withSignal: () => LinearGraphqlClient }).withSignal = () => linear;
+    const cfg = { linearTeamKey: "EAM", linearTeamKeys: ["EAM"] } as AppConfig;
+    handler = createToolHandlers(db, linear, cfg, {} as ToolAnalytics).create_issue;
+  });
+
+  afterEach(() => {
+    db.close();
+    for (const temp of tempPaths.splice(0)) {
+      fs.rmSync(temp, { recursive: true, force: true });
+    }
+  });
+
+  it("attaches the action key on the first attempt without looking for an earlier one", async () => {
+    const result = JSON.parse(await handler({ title: "Fix login" }, { idempotencyKey: "key-1" }));
+
+    expect(findIssueByAttachmentUrl).toHaveBeenCalledTimes(0);
+    expect(createIssue).toHaveBeenCalledTimes(1);
+    const attachment = createIssue.mock.calls[0][0].attachment;
+    expect(attachment.url).toContain("key-1");
+    expect(createIssue.mock.calls[0][0].description).toBeUndefined();
+    expect(result).toMatchObject({ success: true, identifier: "EAM-1" });
+    expect(result.alreadyCreated).toBeUndefined();
+  });
+
+  it("returns the issue an earlier attempt created instead of creating another", async () => {
+    await handler({ title: "Fix login" }, { idempotencyKey: "key-1" });
+    const attachmentUrl = createIssue.mock.calls[0][0].attachment.url;
+    findIssueByAttachmentUrl.mockResolvedValueOnce(created);
+
+    const result = JSON.parse(await handler({ title: "Fix login" }, { idempotencyKey: "key-1", retry: true }));
+
+    expect(findIssueByAttachmentUrl).toHaveBeenCalledWith(attachmentUrl);
+    expect(createIssue).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ success: true, issueId: "issue-1", alreadyCreated: true });
+    expect(result.beforeImage).toEqual({ kind: "issue_created", issueId: "issue-1", identifier: "EAM-1" });
+  });
+
+  it("creates the issue on retry when the earlier attempt never reached Linear", async () => {
+    const result = JSON.parse(await handler({ title: "Fix login" }, { idempotencyKey: "key-1", retry: true }));
+
+    expect(findIssueByAttachmentUrl).toHaveBeenCalledTimes(1);
+    expect(createIssue).toHaveBeenCalledTimes(1);
+    expect(result.alreadyCreated).toBeUndefined();
+  });
+});
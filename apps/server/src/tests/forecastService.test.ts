@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ForecastResult, IssueSnapshot } from "@linearapp/shared";
+import { StateDb } from "../db";
+import { ForecastService } from "../services/forecastService";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const now = new Date("2026-03-01T12:00:00Z");
+
+const issue = (n: number, fields: Partial<IssueSnapshot> = {}): IssueSnapshot => ({
+  issueId: `issue-${n}`,
+  identifier: `EAM-${n}`,
+  title: `Issue ${n}`,
+  url: `https://linear.app/eam/issue/EAM-${n}`,
+  status: "Todo",
+  statusType: "unstarted",
+  boardColumn: "todo",
+  labels: [],
+  teamId: "team-1",
+  teamKey: "EAM",
+  createdAt: "2026-01-01T00:00:00Z",
+  updatedAt: "2026-01-01T00:00:00Z",
+  ...fields,
+});
+
+/** One issue completed on each of the `days` days before `now` */
+const dailyCompletions = (days: number, perDay = 1): IssueSnapshot[] =>
+  Array.from({ length: days * perDay }, (_, k) => issue(1000 + k, {
+    status: "Done",
+    statusType: "completed",
+    boardColumn: "done",
+    completedAt: new Date(now.getTime() - (Math.floor(k / perDay) + 0.5) * DAY_MS).toISOString(),
+  }));
+
+const inDays = (days: number) => new Date(now.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+describe("ForecastService", () => {
+  const tempPaths: string[] = [];
+  let db: StateDb;
+  let forecast: ForecastService;
+
+  beforeEach(() => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "linear-pm-forecast-"));
+    tempPaths.push(root);
+    db = new StateDb(path.join(root, "state.db"));
+    forecast = new ForecastService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    for (const temp of tempPaths.splice(0)) {
+      fs.rmSync(temp, { recursive: true, force: true });
+    }
+  });
+
+  it("finishes on the same day in every trial when throughput never varies", async () => {
+    db.upsertIssues([...dailyCompletions(42), issue(1), issue(2), issue(3)]);
+
+    const result = await forecast.forecastIssues(["issue-1", "issue-2", "issue-3"], { now }) as ForecastResult;
+
+    expect(result).toMatchObject({ remaining: 3, historyDays: 42, historyThroughput: 42, trials: 5000 });
+    expect([result.p50, result.p85, result.p95]).toEqual([inDays(3), inDays(3), inDays(3)]);
+  });
+
+  it("orders percentiles and bounds them by the best and worst case", async () => {
+    // Alternating idle and busy days: 2 issues every other day
+    const completions = dailyCompletions(42).filter((_, k) => k % 2 === 0)
+      .flatMap(c => [c, { ...c, issueId: `${c.issueId}-b`, identifier: `${c.identifier}B` }]);
+    db.upsertIssues([...completions, issue(1), issue(2), issue(3), issue(4)]);
+
+    const result = await forecast.forecastIssues(["issue-1", "issue-2", "issue-3", "issue-4"], { now }) as ForecastResult;
+
+    expect(result.historyThroughput).toBe(42);
+    expect(result.p50! <= result.p85! && result.p85! <= result.p95!).toBe(true);
+    expect(result.p50! >= inDays(2)).toBe(true);
+    expect(result.p95! <= inDays(30)).toBe(true);
+  });
+
+  it("resolves issues given by identifier", async () => {
+    db.upsertIssues([...dailyCompletions(42), issue(7)]);
+
+    const result = await forecast.forecastIssues(["eam-7"], { now }) as ForecastResult;
+
+    expect(result.target).toEqual({ type: "issues", issueIds: ["issue-7"] });
+    expect(result.p50).toBe(inDays(1));
+  });
+
+  it("reports the chance of finishing a cycle by its end date", async () => {
+    const cycle = {
+      id: "cycle-1", name: "Cycle 1", number: 1, startsAt: "2026-02-23T00:00:00Z",
+      completedScopeCount: 0, totalScopeCount: 3, progress: 0, isActive: true, teamId: "team-1", teamKey: "EAM",
+    };
+    db.upsertIssues([...dailyCompletions(42), ...[1, 2, 3].map(n => issue(n, { cycleId: "cycle-1" }))]);
+
+    db.upsertCycles([{ ...cycle, endsAt: "2026-03-10T00:00:00Z" }]);
+    expect(await forecast.forecastCycle("cycle-1", { now })).toMatchObject({ deadline: "2026-03-10", probabilityByDeadline: 1 });
+
+    db.upsertCycles([{ ...cycle, endsAt: "2026-03-02T00:00:00Z" }]);
+    expect(await forecast.forecastCycle("cycle-1", { now })).toMatchObject({ deadline: "2026-03-02", probabilityByDeadline: 0 });
+  });
+
+  it("gives no dates without completions in the history window", async () => {
+    db.upsertIssues([issue(1)]);
+
+    const result = await forecast.forecastIssues(["issue-1"], { now }) as ForecastResult;
+
+    expect(result).toMatchObject({ remaining: 1, historyThroughput: 0, trials: 0 });
+    expect(result.p50).toBeUndefined();
+  });
+
+  it("lets other callbacks run while it simulates", async () => {
+    db.upsertIssues([...dailyCompletions(42), issue(1)]);
+    let ranMeanwhile = false;
+    setImmediate(() => { ranMeanwhile = true; });
+
+    await forecast.forecastIssues(["issue-1"], { now });
+
+    expect(ranMeanwhile).toBe(true);
+  });
+});
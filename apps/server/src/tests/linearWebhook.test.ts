@@ -0,0 +1,157 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createHmac } from "node:crypto";
+import Fastify, { type FastifyInstance } from "fastify";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AppConfig } from "../config";
+import { StateDb } from "../db";
+import type { EmbeddingService } from "../services/embeddingService";
+import { LinearWebhookService, type LinearWebhookPayload } from "../services/linearWebhookService";
+import { registerWebhookRoutes } from "../routes/webhooks";
+
+const SECRET = "whsec-test";
+
+/** A recorded delivery from fixtures/webhooks */
+const fixture = (name: string): LinearWebhookPayload =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", "webhooks", `${name}.json`), "utf-8"));
+
+/** Recorded timestamps are long past; replays are re-stamped unless a test says otherwise */
+const fresh = (payload: LinearWebhookPayload): LinearWebhookPayload => ({ ...payload, webhookTimestamp: Date.now() });
+
+const sign = (body: string) => createHmac("sha256", SECRET).update(body).digest("hex");
+
+describe("Linear webhook replay", () => {
+  const tempPaths: string[] = [];
+  let db: StateDb;
+  let app: FastifyInstance;
+
+  const replay = (payload: LinearWebhookPayload, signature?: string) => {
+    const body = JSON.stringify(payload);
+    return app.inject({
+      method: "POST",
+      url: "/api/webhooks/linear",
+      headers: { "content-type": "application/json", "linear-signature": signature ?? sign(body) },
+      payload: body,
+    });
+  };
+
+  beforeEach(() => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "linear-pm-webhook-"));
+    tempPaths.push(root);
+    db = new StateDb(path.join(root, "state.db"));
+    const cfg = { linearTeamKey: "EAM", linearTeamKeys: ["EAM"], linearWebhookSecret: SECRET } as AppConfig;
+    const embeddings = { embedIssue: async () => false } as unknown as EmbeddingService;
+    app = Fastify();
+    registerWebhookRoutes(app, cfg, new LinearWebhookService(cfg, db, embeddings));
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    for (const temp of tempPaths.splice(0)) {
+      fs.rmSync(temp, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects deliveries with a missing or wrong signature", async () => {
+    const payload = fresh(fixture("issue-update"));
+    expect((await replay(payload, "")).statusCode).toBe(401);
+    expect((await replay(payload, sign("something else"))).statusCode).toBe(401);
+    expect(db.getIssueById("issue-42")).toBeUndefined();
+  });
+
+  it("rejects correctly signed deliveries outside the freshness window", async () => {
+    const res = await replay(fixture("issue-update"));
+    expect(res.statusCode).toBe(401);
+    expect(res.json().error).toContain("timestamp");
+    expect(db.getIssueById("issue-42")).toBeUndefined();
+  });
+
+  it("applies issue updates and ignores older deliveries", async () => {
+    const res = await replay(fresh(fixture("issue-update")));
+    expect(res.statusCode).toBe(200);
+    expect(res.json().result).toEqual({ type: "Issue", action: "update", applied: true });
+
+    const issue = db.getIssueById("issue-42")?.snapshot;
+    expect(issue?.identifier).toBe("EAM-42");
+    expect(issue?.status).toBe("In Progress");
+    expect(issue?.labels).toEqual(["Bug"]);
+    expect(issue?.cycleName).toBe("Cycle 7");
+
+    const older = fixture("issue-update");
+    const stale = await replay(fresh({ ...older, data: { ...older.data, title: "Old title", updatedAt: "2026-10-13T16:40:11.002Z" } }));
+    expect(stale.json().result).toMatchObject({ applied: false, reason: "stale" });
+    expect(db.getIssueById("issue-42")?.snapshot.title).toBe("Export fails for large workspaces");
+  });
+
+  it("tombstones removed issues and issues moved to an untracked team", async () => {
+    const issue = fixture("issue-update");
+    await replay(fresh(issue));
+    await replay(fresh({ ...issue, action: "remove" }));
+    expect(db.getIssueById("issue-42")).toBeUndefined();
+
+    const other = { ...issue.data, id: "issue-43", identifier: "OPS-43", team: { id: "team-ops", key: "OPS" } };
+    await replay(fresh({ ...issue, data: { ...issue.data, id: "issue-43", identifier: "EAM-43" } }));
+    await replay(fresh({ ...issue, data: other }));
+    expect(db.getIssueById("issue-43")).toBeUndefined();
+  });
+
+  it("stores comments on synced issues and tombstones removed ones", async () => {
+    const comment = fixture("comment-create");
+    const early = await replay(fresh(comment));
+    expect(early.json().result).toMatchObject({ type: "Comment", applied: false, reason: "untracked issue" });
+
+    await replay(fresh(fixture("issue-update")));
+    const res = await replay(fresh(comment));
+    expect(res.json().result).toMatchObject({ type: "Comment", applied: true });
+    expect(db.getIssueComments("issue-42")).toEqual([expect.objectContaining({
+      id: "comment-9",
+      body: "Reproduced with the Globex workspace export.",
+      userName: "Ben Okafor",
+    })]);
+
+    await replay(fresh({ ...comment, action: "remove" }));
+    expect(db.getIssueComments("issue-42")).toEqual([]);
+  });
+
+  it("applies cycle updates from the latest scope history entry", async () => {
+    const res = await replay(fresh(fixture("cycle-update")));
+    expect(res.json().result.applied).toBe(true);
+
+    const cycle = db.getCycleById("cycle-7");
+    expect(cycle?.name).toBe("Cycle 7");
+    expect(cycle?.totalScopeCount).toBe(15);
+    expect(cycle?.completedScopeCount).toBe(6);
+    expect(cycle?.teamKey).toBe("EAM");
+  });
+
+  it("tombstones removed cycles and projects", async () => {
+    const cycle = fixture("cycle-update");
+    await replay(fresh(cycle));
+    await replay(fresh(fixture("project-update")));
+
+    await replay(fresh({ ...cycle, action: "remove" }));
+    await replay(fresh({ ...fixture("project-update"), action: "remove" }));
+    expect(db.getCycleById("cycle-7")).toBeUndefined();
+    expect(db.getProjectById("project-exports")).toBeUndefined();
+
+    // The rows stay for history
+    const raw = db.getRawDb();
+    expect(raw.prepare(`SELECT archived_at FROM cycles WHERE id = 'cycle-7'`).get()).toEqual({ archived_at: expect.any(String) });
+    expect(raw.prepare(`SELECT archived_at FROM projects WHERE id = 'project-exports'`).get()).toEqual({ archived_at: expect.any(String) });
+  });
+
+  it("applies projects of tracked teams only", async () => {
+    await replay(fresh(fixture("cycle-update"))); // records the tracked team's ID
+
+    const res = await replay(fresh(fixture("project-update")));
+    expect(res.json().result.applied).toBe(true);
+    expect(db.getProjectById("project-exports")?.state).toBe("started");
+
+    const project = fixture("project-update");
+    const moved = await replay(fresh({ ...project, data: { ...project.data, teamIds: ["team-other"] } }));
+    expect(moved.json().result).toMatchObject({ applied: false, reason: "untracked team" });
+    expect(db.getProjectById("project-exports")).toBeUndefined();
+  });
+});
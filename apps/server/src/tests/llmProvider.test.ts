@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { AppConfig } from "../config";
+import { createLlmProvider, HeuristicProvider } from "../adapters/llmProvider";
+
+const cosine = (a: number[], b: number[]) => a.reduce((s, v, i) => s + v * b[i], 0);
+
+describe("HeuristicProvider", () => {
+  const provider = new HeuristicProvider();
+
+  it("answers chat deterministically without a network", async () => {
+    const messages = [{ role: "user" as const, content: "What is blocking EAM-42?" }];
+    const first = await provider.chat(messages);
+    const second = await provider.chat(messages);
+    expect(first.choices[0].message.content).toBe(second.choices[0].message.content);
+    expect(first.choices[0].message.content).toContain("offline");
+    expect(first.id).toBe(second.id);
+  });
+
+  it("summarizes to the trimmed first line of the last user message", async () => {
+    const res = await provider.chat(
+      [{ role: "user", content: "\n  Plan the export fixes for the enterprise workspaces this cycle and next  \nmore detail" }],
+      undefined,
+      { useCase: "summary" },
+    );
+    const title = res.choices[0].message.content!;
+    expect(title).toHaveLength(60);
+    expect(title.startsWith("Plan the export fixes")).toBe(true);
+    expect(title.endsWith("...")).toBe(true);
+  });
+
+  it("streams the same reply in word-sized deltas", async () => {
+    const messages = [{ role: "user" as const, content: "hello" }];
+    const chunks = [];
+    for await (const chunk of provider.chatStream(messages)) chunks.push(chunk);
+    const streamed = chunks.map(c => c.choices[0].delta.content ?? "").join("");
+    expect(streamed).toBe((await provider.chat(messages)).choices[0].message.content);
+    expect(chunks.at(-1)?.choices[0].finish_reason).toBe("stop");
+  });
+
+  it("stops streaming once the signal aborts", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const stream = provider.chatStream([{ role: "user", content: "hello" }], undefined, { signal: controller.signal });
+    await expect(stream.next()).rejects.toThrow();
+  });
+
+  it("embeds similar texts closer than unrelated ones", async () => {
+    const [exportA, exportB, billing] = await provider.createEmbeddingBatch([
+      "CSV export times out for large workspaces",
+      "Large workspace CSV export timeout",
+      "Update billing address on invoices",
+    ]);
+    expect(exportA).toHaveLength(256);
+    expect(cosine(exportA, exportA)).toBeCloseTo(1);
+    expect(cosine(exportA, exportB)).toBeGreaterThan(cosine(exportA, billing));
+    expect(await provider.createEmbedding("CSV export times out for large workspaces")).toEqual(exportA);
+  });
+});
+
+describe("createLlmProvider", () => {
+  const cfg = (overrides: Partial<AppConfig>) => ({ openaiModel: "gpt-4o", aiProvider: "openai", ...overrides }) as AppConfig;
+
+  it("falls back to the heuristic provider when OpenAI has no API key", () => {
+    expect(createLlmProvider(cfg({ openaiApiKey: undefined })).name).toBe("heuristic");
+  });
+
+  it("honors an explicit provider choice", () => {
+    expect(createLlmProvider(cfg({ aiProvider: "heuristic", openaiApiKey: "sk-test" })).name).toBe("heuristic");
+    expect(createLlmProvider(cfg({ aiProvider: "openai-compatible", llmBaseUrl: "http://localhost:11434/v1" })).name).toBe("openai-compatible");
+  });
+});
@@ -0,0 +1,111 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Cycle, IssueSnapshot } from "@linearapp/shared";
+import { StateDb } from "../db";
+import { RolloverRiskService } from "../services/rolloverRiskService";
+
+const now = new Date("2026-03-03T12:00:00Z");
+
+/** Ends two days after `now`, counting its last day in full */
+const cycle: Cycle = {
+  id: "cycle-1", name: "Cycle 1", number: 1, startsAt: "2026-02-23T00:00:00Z", endsAt: "2026-03-04T00:00:00Z",
+  completedScopeCount: 0, totalScopeCount: 0, progress: 0, isActive: true, teamId: "team-1", teamKey: "EAM",
+};
+
+const issue = (n: number, fields: Partial<IssueSnapshot> = {}): IssueSnapshot => ({
+  issueId: `issue-${n}`,
+  identifier: `EAM-${n}`,
+  title: `Issue ${n}`,
+  url: `https://linear.app/eam/issue/EAM-${n}`,
+  status: "Todo",
+  statusType: "unstarted",
+  boardColumn: "todo",
+  labels: [],
+  teamId: "team-1",
+  teamKey: "EAM",
+  cycleId: "cycle-1",
+  createdAt: "2026-02-20T00:00:00Z",
+  updatedAt: "2026-02-20T00:00:00Z",
+  ...fields,
+});
+
+const inProgress = { status: "In Progress", statusType: "started", boardColumn: "in_progress" as const };
+
+describe("RolloverRiskService", () => {
+  const tempPaths: string[] = [];
+  let db: StateDb;
+  let risk: RolloverRiskService;
+
+  /** Upserts the issue as Todo, then moves it into progress at `movedAt` so the status change is recorded */
+  const startedAt = (snapshot: IssueSnapshot, movedAt: string) => {
+    db.upsertIssues([{ ...snapshot, status: "Todo", statusType: "unstarted", boardColumn: "todo" }]);
+    db.upsertIssues([{ ...snapshot, ...inProgress, updatedAt: movedAt }]);
+  };
+
+  beforeEach(() => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "linear-pm-rollover-"));
+    tempPaths.push(root);
+    db = new StateDb(path.join(root, "state.db"));
+    db.upsertCycles([cycle]);
+    risk = new RolloverRiskService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    for (const temp of tempPaths.splice(0)) {
+      fs.rmSync(temp, { recursive: true, force: true });
+    }
+  });
+
+  it("scores unstarted, unassigned work near the cycle end", () => {
+    db.upsertIssues([issue(1)]);
+
+    expect(risk.assess(cycle, now)).toEqual([expect.objectContaining({
+      identifier: "EAM-1",
+      score: 55,
+      reason: "Not started with 2 days left; Unassigned",
+    })]);
+  });
+
+  it("scores work stuck in its status with an estimate beyond the days left", () => {
+    startedAt(issue(2, { assigneeId: "u1", assigneeName: "Dana", estimate: 8 }), "2026-02-25T12:00:00Z");
+
+    const [item] = risk.assess(cycle, now);
+
+    expect(item).toMatchObject({ identifier: "EAM-2", daysInStatus: 6, score: 55 });
+    expect(item.reason).toBe("6 days in In Progress; Estimate of 8 exceeds 2 days remaining; No PR opened yet");
+  });
+
+  it("adds the assignee's load and ranks the riskiest issue first", () => {
+    db.upsertIssues([1, 2, 3, 4].map(n => issue(10 + n, { ...inProgress, assigneeId: "u1", assigneeName: "Dana" })));
+    db.upsertIssues([issue(20, { ...inProgress, assigneeId: "u1", assigneeName: "Dana", estimate: 3 })]);
+    db.upsertIssues([issue(1)]);
+
+    const items = risk.assess(cycle, now);
+
+    expect(items.map(i => i.identifier)).toEqual(["EAM-1", "EAM-20"]);
+    expect(items[1]).toMatchObject({ score: 45 });
+    expect(items[1].reason).toContain("Dana has 5 items in progress");
+  });
+
+  it("leaves out issues below the risk threshold", () => {
+    startedAt(issue(3, { assigneeId: "u1", assigneeName: "Dana" }), "2026-03-02T12:00:00Z");
+
+    expect(risk.assess(cycle, now)).toEqual([]);
+  });
+
+  it("counts the last cycle day in UTC whatever the server timezone", () => {
+    db.upsertIssues([issue(1)]);
+    const previous = process.env.TZ;
+    process.env.TZ = "Asia/Tokyo";
+    try {
+      expect(risk.assess(cycle, new Date("2026-03-04T20:00:00Z"))).toHaveLength(1);
+      expect(risk.assess(cycle, new Date("2026-03-05T00:00:00Z"))).toEqual([]);
+    } finally {
+      if (previous === undefined) delete process.env.TZ;
+      else process.env.TZ = previous;
+    }
+  });
+});
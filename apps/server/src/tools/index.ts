@@ -2,9 +2,36 @@ import type { StateDb } from "../db";
 import type { LinearGraphqlClient } from "../adapters/linearGraphql";
 import type { AppConfig } from "../config";
 import type OpenAI from "openai";
-import type { ActionPreviewField, ActionCategory } from "@linearapp/shared";
+import type { ActionBeforeImage, ActionPreviewField, ActionCategory } from "@linearapp/shared";
+import type { CycleSnapshotService } from "../services/cycleSnapshotService";
+import type { RolloverRiskService } from "../services/rolloverRiskService";
+import type { ForecastService } from "../services/forecastService";
+import { pickIssueFields } from "../services/actionUndoService";
+
+/**
+ * Per-call context; `signal` is aborted when the chat turn that invoked the tool is cancelled.
+ * `idempotencyKey` is set when an approved action executes; `retry` when that action failed before,
+ * so handlers only look for the result of an earlier attempt when there was one.
+ */
+export type ToolContext = { signal?: AbortSignal; idempotencyKey?: string; retry?: boolean };
+
+/**
+ * Returns the JSON result. Write tools add a `beforeImage` (ActionBeforeImage) recording
+ * what they changed, which the approval flow stores so the action can be undone.
+ */
+export type ToolHandler = (args: Record<string, unknown>, context?: ToolContext) => Promise<string>;
+
+/** Cycle analytics shared with the routes, so tools and API report from the same instances */
+export type ToolAnalytics = {
+  cycleSnapshots: CycleSnapshotService;
+  rolloverRisk: RolloverRiskService;
+  forecast: ForecastService;
+};
 
-export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
+/** Attached to issues created by an action, to find them again on retry via `attachmentsForURL` */
+function actionAttachmentUrl(key: string): string {
+  return `https://linearapp.invalid/actions/${encodeURIComponent(key)}`;
+}
 
 type ToolMetadata = {
   requiresApproval: boolean;
@@ -18,8 +45,10 @@ type ToolMetadata = {
 const toolMetadata = new Map<string, ToolMetadata>([
   ["search_issues", { requiresApproval: false, category: "query", descriptionForUser: "Search issues by keyword" }],
   ["get_issue_detail", { requiresApproval: false, category: "query", descriptionForUser: "Get details of a specific issue" }],
+  ["get_issue_history", { requiresApproval: false, category: "query", descriptionForUser: "Get the change history of an issue" }],
   ["get_team_workload", { requiresApproval: false, category: "query", descriptionForUser: "Get current workload for all team members" }],
   ["get_cycle_stats", { requiresApproval: false, category: "query", descriptionForUser: "Get cycle statistics with member breakdown" }],
+  ["forecast_completion", { requiresApproval: false, category: "query", descriptionForUser: "Forecast completion dates with Monte Carlo simulation" }],
   ["list_cycles", { requiresApproval: false, category: "query", descriptionForUser: "List all cycles with progress and dates" }],
   ["get_okrs", { requiresApproval: false, category: "query", descriptionForUser: "Get all OKRs with progress" }],
   ["get_github_prs", { requiresApproval: false, category: "query", descriptionForUser: "Get pull requests" }],
@@ -324,8 +353,9 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
           properties: {
             query: { type: "string", description: "Search query" },
             limit: { type: ["number", "null"], description: "Max results (default 10)" },
+            teamKey: { type: ["string", "null"], description: "Team key to filter by, e.g. ENG (null = all tracked teams)" },
           },
-          required: ["query", "limit"],
+          required: ["query", "limit", "teamKey"],
           additionalProperties: false,
         },
       },
@@ -334,7 +364,7 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
       type: "function",
       function: {
         name: "get_issue_detail",
-        description: "Get full details of a specific issue by ID or identifier",
+        description: "Get full details of a specific issue by ID or identifier, including its recent comments",
         strict: true,
         parameters: {
           type: "object",
@@ -346,27 +376,51 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
         },
       },
     },
+    {
+      type: "function",
+      function: {
+        name: "get_issue_history",
+        description: "Get the change history of an issue: status, assignee, estimate, priority, cycle and label changes with timestamps, plus days in the current status and cycle time. Use for questions like 'when did ENG-123 move to In Review' or 'how often was it reassigned'.",
+        strict: true,
+        parameters: {
+          type: "object",
+          properties: {
+            issueId: { type: "string", description: "Issue ID or identifier (e.g. ENG-123)" },
+          },
+          required: ["issueId"],
+          additionalProperties: false,
+        },
+      },
+    },
     {
       type: "function",
       function: {
         name: "get_team_workload",
         description: "Get current workload for all team members including WIP counts and active issues",
         strict: true,
-        parameters: { type: "object", properties: {}, required: [], additionalProperties: false },
+        parameters: {
+          type: "object",
+          properties: {
+            teamKey: { type: ["string", "null"], description: "Team key to filter by, e.g. ENG (null = all tracked teams)" },
+          },
+          required: ["teamKey"],
+          additionalProperties: false,
+        },
       },
     },
     {
       type: "function",
       function: {
         name: "get_cycle_stats",
-        description: "Get cycle statistics including progress, member breakdown by assignee. Pass cycleId for a specific cycle, or null for the active cycle.",
+        description: "Get cycle statistics including progress, burndown, scope changes, member breakdown by assignee, and a ranked list of issues at risk of rolling over (with reasons). Pass cycleId for a specific cycle, or null for the active cycle. Each team runs its own cycles, so pass teamKey to pick which team's active cycle.",
         strict: true,
         parameters: {
           type: "object",
           properties: {
             cycleId: { type: ["string", "null"], description: "Cycle ID (null = active cycle)" },
+            teamKey: { type: ["string", "null"], description: "Team key to filter by, e.g. ENG (null = all tracked teams)" },
           },
-          required: ["cycleId"],
+          required: ["cycleId", "teamKey"],
           additionalProperties: false,
         },
       },
@@ -375,9 +429,37 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
       type: "function",
       function: {
         name: "list_cycles",
-        description: "List all cycles with name, dates, progress, and active status",
+        description: "List all cycles with name, team, dates, progress, and active status",
         strict: true,
-        parameters: { type: "object", properties: {}, required: [], additionalProperties: false },
+        parameters: {
+          type: "object",
+          properties: {
+            teamKey: { type: ["string", "null"], description: "Team key to filter by, e.g. ENG (null = all tracked teams)" },
+          },
+          required: ["teamKey"],
+          additionalProperties: false,
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "forecast_completion",
+        description: "Forecast when work will finish using a Monte Carlo simulation over the team's recent throughput. Returns P50/P85/P95 completion dates and, for cycles and projects, the probability of finishing by the end/target date. Use for 'will we finish this cycle?' or 'when will project X ship?'.",
+        strict: true,
+        parameters: {
+          type: "object",
+          properties: {
+            target: { type: "string", enum: ["cycle", "project", "issues"], description: "What to forecast" },
+            cycleId: { type: ["string", "null"], description: "Cycle ID for target=cycle (null = active cycle)" },
+            projectName: { type: ["string", "null"], description: "Project name or ID for target=project" },
+            issueIds: { type: ["array", "null"], items: { type: "string" }, description: "Issue IDs or identifiers for target=issues" },
+            unit: { type: ["string", "null"], enum: ["issues", "points", null], description: "Count issues or estimate points (default issues)" },
+            teamKey: { type: ["string", "null"], description: "Team whose throughput to use (null = all tracked teams)" },
+          },
+          required: ["target", "cycleId", "projectName", "issueIds", "unit", "teamKey"],
+          additionalProperties: false,
+        },
       },
     },
     {
@@ -479,14 +561,21 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
         name: "get_dashboard_summary",
         description: "Get a summary of the team dashboard including stats and member statuses",
         strict: true,
-        parameters: { type: "object", properties: {}, required: [], additionalProperties: false },
+        parameters: {
+          type: "object",
+          properties: {
+            teamKey: { type: ["string", "null"], description: "Team key to filter by, e.g. ENG (null = all tracked teams)" },
+          },
+          required: ["teamKey"],
+          additionalProperties: false,
+        },
       },
     },
     {
       type: "function",
       function: {
         name: "query_data",
-        description: "Execute a read-only SQL SELECT query against the local database for ad-hoc data retrieval",
+        description: "Execute a read-only SQL SELECT query against the local database for ad-hoc data retrieval. Issues, cycles, projects and issue_comments removed from Linear are kept with a non-null archived_at; filter with `archived_at IS NULL` unless you need them",
         strict: true,
         parameters: {
           type: "object",
@@ -581,8 +670,9 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
             assigneeName: { type: ["string", "null"], description: "Name of the person to assign (resolved to ID)" },
             labelNames: { type: ["array", "null"], items: { type: "string" }, description: "Label names to apply" },
             projectName: { type: ["string", "null"], description: "Project name to assign to" },
+            teamKey: { type: ["string", "null"], description: "Team key to create the issue in (null = default team)" },
           },
-          required: ["title", "description", "priority", "assigneeName", "labelNames", "projectName"],
+          required: ["title", "description", "priority", "assigneeName", "labelNames", "projectName", "teamKey"],
           additionalProperties: false,
         },
       },
@@ -854,7 +944,7 @@ export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool
   ];
 }
 
-export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg: AppConfig, trackedLinearIds?: Set<string>, embeddingService?: { findSimilar(query: string, limit?: number): Promise<Array<{ issueId: string; identifier: string; title: string; similarity: number; assigneeName?: string; status?: string }>> }): Record<string, ToolHandler> {
+export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg: AppConfig, analytics: ToolAnalytics, trackedLinearIds?: Set<string>, embeddingService?: { findSimilar(query: string, limit?: number, signal?: AbortSignal): Promise<Array<{ issueId: string; identifier: string; title: string; similarity: number; assigneeName?: string; status?: string }>> }): Record<string, ToolHandler> {
   // Set up dynamic previews that need db access
   const deleteOkrMeta = toolMetadata.get("delete_okr");
   if (deleteOkrMeta) {
@@ -949,8 +1039,8 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
   /**
    * Resolve a project name to a project ID.
    */
-  const resolveProjectByName = async (name: string): Promise<string | undefined> => {
-    const projects = await linear.listProjects(cfg.linearTeamKey);
+  const resolveProjectByName = async (api: LinearGraphqlClient, name: string): Promise<string | undefined> => {
+    const projects = await api.listProjects(cfg.linearTeamKey);
     const lower = name.toLowerCase();
     const match = projects.find(p => p.name.toLowerCase() === lower)
       || projects.find(p => p.name.toLowerCase().includes(lower));
@@ -958,25 +1048,45 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
   };
 
   /**
-   * Resolve a status name to a state ID.
+   * Resolve a status name to a state ID. Workflow states are per team.
    */
-  const resolveStatusByName = async (name: string): Promise<string | undefined> => {
-    const statuses = await linear.listStatuses(cfg.linearTeamKey);
+  const resolveStatusByName = async (api: LinearGraphqlClient, name: string, teamKey = cfg.linearTeamKey): Promise<string | undefined> => {
+    const statuses = await api.listStatuses(teamKey);
     const lower = name.toLowerCase();
     const match = statuses.find(s => s.name.toLowerCase() === lower)
       || statuses.find(s => s.name.toLowerCase().includes(lower));
     return match?.id;
   };
 
+  const { cycleSnapshots, rolloverRisk, forecast } = analytics;
+
+  /** Team of a synced issue, falling back to the default team for unknown issues */
+  const teamKeyForIssue = (issueId: string): string =>
+    db.getIssueById(issueId)?.snapshot.teamKey ?? cfg.linearTeamKey;
+
+  /**
+   * Before-image of the fields `input` is about to change, read live from Linear. Undefined
+   * when the issue can't be read: the write still goes ahead, it just can't be undone.
+   */
+  const captureIssueFields = async (api: LinearGraphqlClient, issueId: string, input: Record<string, unknown>) => {
+    const before = await api.getIssueFields(issueId).catch(() => undefined);
+    return before && { issueId: before.id, identifier: before.identifier, fields: pickIssueFields(before, input) };
+  };
+
+  /** Optional team filter shared by read tools; null/empty means all tracked teams */
+  const teamFilter = (args: Record<string, unknown>): string | undefined =>
+    args.teamKey ? String(args.teamKey).toUpperCase() : undefined;
+
   return {
     search_issues: async (args) => {
       const query = String(args.query || "");
       const limit = Number(args.limit) || 10;
-      const results = db.searchIssues(query, limit);
+      const results = db.searchIssues(query, limit, teamFilter(args));
       return JSON.stringify(results.map(i => ({
         issueId: i.snapshot.issueId,
         identifier: i.snapshot.identifier,
         title: i.snapshot.title,
+        teamKey: i.snapshot.teamKey,
         status: i.snapshot.status,
         boardColumn: i.snapshot.boardColumn,
         assigneeName: i.snapshot.assigneeName,
@@ -998,16 +1108,25 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         ...issue.snapshot,
         enrichment: issue.enrichment,
         pullRequests: issue.pullRequests,
+        comments: db.getIssueComments(issue.snapshot.issueId),
         hasPendingChanges: issue.hasPendingChanges,
       });
     },
 
-    get_team_workload: async () => {
+    get_issue_history: async (args) => {
+      const issueId = resolveIssueId(String(args.issueId || ""));
+      const history = db.getIssueHistory(issueId);
+      if (!history) return JSON.stringify({ error: "Issue not found" });
+      return JSON.stringify(history);
+    },
+
+    get_team_workload: async (args) => {
+      const teamKey = teamFilter(args);
       const members = filterMembers(db.getMembers());
-      const wipCounts = db.getWipCountByAssignee();
+      const wipCounts = db.getWipCountByAssignee(teamKey);
       const result = members.map(m => {
         const assigneeId = m.linearUserId || m.id;
-        const issues = db.getIssuesByAssignee(assigneeId);
+        const issues = db.getIssuesByAssignee(assigneeId, teamKey);
         const active = issues.filter(i => i.snapshot.boardColumn === "in_progress" || i.snapshot.boardColumn === "in_review");
         return {
           name: m.name,
@@ -1021,7 +1140,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
 
     get_cycle_stats: async (args) => {
       const cycleId = args.cycleId ? String(args.cycleId) : null;
-      const cycle = cycleId ? db.getCycleById(cycleId) : db.getActiveCycle();
+      const cycle = cycleId ? db.getCycleById(cycleId) : db.getActiveCycle(teamFilter(args));
       if (!cycle) return JSON.stringify({ error: cycleId ? "Cycle not found" : "No active cycle found — cycles may not be synced or the team may be between cycles" });
       const issues = db.getIssuesByCycle(cycle.id);
       const completed = issues.filter(i => i.snapshot.boardColumn === "done").length;
@@ -1053,6 +1172,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         id: cycle.id,
         name: cycle.name,
         number: cycle.number,
+        teamKey: cycle.teamKey,
         progress: Math.round(cycle.progress * 100),
         totalIssues: issues.length,
         completed,
@@ -1069,11 +1189,36 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         memberBreakdown: Array.from(memberMap.entries()).map(([memberId, stats]) => ({
           memberId, ...stats,
         })),
+        ...cycleSnapshots.buildBurndown(cycle),
+        rolloverRisk: rolloverRisk.assess(cycle),
       });
     },
 
-    list_cycles: async () => {
-      const cycles = db.getAllCycles();
+    forecast_completion: async (args) => {
+      const options = {
+        unit: args.unit === "points" ? "points" as const : "issues" as const,
+        teamKey: teamFilter(args),
+      };
+      const target = String(args.target || "cycle");
+      if (target === "project") {
+        const name = String(args.projectName || "");
+        const lower = name.toLowerCase();
+        const projects = db.getAllProjects();
+        const project = projects.find(p => p.id === name || p.name.toLowerCase() === lower)
+          || projects.find(p => p.name.toLowerCase().includes(lower));
+        if (!project) return JSON.stringify({ error: `Project not found: ${name}` });
+        return JSON.stringify(await forecast.forecastProject(project.id, options));
+      }
+      if (target === "issues") {
+        const ids = Array.isArray(args.issueIds) ? args.issueIds.map(String) : [];
+        if (ids.length === 0) return JSON.stringify({ error: "issueIds is required for target=issues" });
+        return JSON.stringify(await forecast.forecastIssues(ids, options));
+      }
+      return JSON.stringify(await forecast.forecastCycle(args.cycleId ? String(args.cycleId) : undefined, options));
+    },
+
+    list_cycles: async (args) => {
+      const cycles = db.getAllCycles(teamFilter(args));
       const now = new Date();
       return JSON.stringify(cycles.map(c => {
         const start = new Date(c.startsAt);
@@ -1085,6 +1230,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
           id: c.id,
           name: c.name,
           number: c.number,
+          teamKey: c.teamKey,
           startsAt: c.startsAt,
           endsAt: c.endsAt,
           progress: Math.round(c.progress * 100),
@@ -1164,8 +1310,11 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       if (args.notes !== undefined && args.notes !== null) updates.notes = String(args.notes);
       if (args.contractValue !== undefined && args.contractValue !== null) updates.contractValue = Number(args.contractValue);
 
+      const beforeImage: ActionBeforeImage = {
+        kind: "client", clientId, weight: client.weight, notes: client.notes, contractValue: client.contractValue,
+      };
       db.updateClientLocal(clientId, updates);
-      return JSON.stringify({ success: true, clientId, name: client.name, updates });
+      return JSON.stringify({ success: true, clientId, name: client.name, updates, beforeImage });
     },
 
     get_okrs: async () => {
@@ -1206,13 +1355,13 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       })));
     },
 
-    find_similar_issues: async (args) => {
+    find_similar_issues: async (args, context) => {
       const query = String(args.query || "");
 
       // Try vector similarity search first
       if (embeddingService) {
         try {
-          const vectorResults = await embeddingService.findSimilar(query, 5);
+          const vectorResults = await embeddingService.findSimilar(query, 5, context?.signal);
           if (vectorResults.length > 0) {
             return JSON.stringify(vectorResults.map(r => ({
               identifier: r.identifier,
@@ -1224,6 +1373,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
             })));
           }
         } catch { /* fall through to text search */ }
+        context?.signal?.throwIfAborted();
       }
 
       // Fallback to text search
@@ -1277,11 +1427,12 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       });
     },
 
-    get_dashboard_summary: async () => {
+    get_dashboard_summary: async (args) => {
+      const teamKey = teamFilter(args);
       const members = filterMembers(db.getMembers());
-      const wipCounts = db.getWipCountByAssignee();
-      const columnCounts = db.getColumnCounts();
-      const cycle = db.getActiveCycle();
+      const wipCounts = db.getWipCountByAssignee(teamKey);
+      const columnCounts = db.getColumnCounts(teamKey);
+      const cycle = db.getActiveCycle(teamKey);
       const okrs = db.getOkrs();
       return JSON.stringify({
         inFlight: columnCounts.in_progress + columnCounts.in_review,
@@ -1309,9 +1460,13 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       }
     },
 
-    create_issue: async (args) => {
+    create_issue: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const title = String(args.title || "");
       const description = args.description ? String(args.description) : undefined;
+      const attachment = context?.idempotencyKey
+        ? { url: actionAttachmentUrl(context.idempotencyKey), title: "Created by an approved action" }
+        : undefined;
       const priority = args.priority !== undefined && args.priority !== null ? Number(args.priority) : undefined;
 
       // Resolve assignee name to ID
@@ -1323,20 +1478,22 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       // Resolve label names to IDs
       let labelIds: string[] | undefined;
       if (args.labelNames && Array.isArray(args.labelNames) && args.labelNames.length > 0) {
-        const resolved = await linear.listLabelsByName(args.labelNames.map(String));
+        const resolved = await api.listLabelsByName(args.labelNames.map(String));
         labelIds = resolved.map(l => l.id);
       }
 
       // Resolve project name to ID
       let projectId: string | undefined;
       if (args.projectName) {
-        projectId = await resolveProjectByName(String(args.projectName));
+        projectId = await resolveProjectByName(api, String(args.projectName));
       }
 
       // Get team ID
-      const teamId = await linear.getTeamId(cfg.linearTeamKey);
+      const teamId = await api.getTeamId(args.teamKey ? String(args.teamKey).toUpperCase() : cfg.linearTeamKey);
 
-      const issue = await linear.createIssue({
+      // An earlier attempt may have created the issue before failing or timing out
+      const existing = context?.retry && attachment ? await api.findIssueByAttachmentUrl(attachment.url) : undefined;
+      const issue = existing ?? await api.createIssue({
         teamId,
         title,
         description,
@@ -1344,18 +1501,23 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         assigneeId,
         labelIds,
         projectId,
+        attachment,
       });
 
+      const beforeImage: ActionBeforeImage = { kind: "issue_created", issueId: issue.id, identifier: issue.identifier };
       return JSON.stringify({
         success: true,
         issueId: issue.id,
         identifier: issue.identifier,
         title: issue.title,
         url: issue.url,
+        alreadyCreated: existing ? true : undefined,
+        beforeImage,
       });
     },
 
-    update_issue: async (args) => {
+    update_issue: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const rawId = String(args.issueId || "");
       const issueId = resolveIssueId(rawId);
 
@@ -1371,79 +1533,94 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       }
 
       if (args.status !== undefined && args.status !== null) {
-        const stateId = await resolveStatusByName(String(args.status));
+        const stateId = await resolveStatusByName(api, String(args.status), teamKeyForIssue(issueId));
         if (stateId) input.stateId = stateId;
       }
 
       if (args.labelNames && Array.isArray(args.labelNames) && args.labelNames.length > 0) {
-        const resolved = await linear.listLabelsByName(args.labelNames.map(String));
+        const resolved = await api.listLabelsByName(args.labelNames.map(String));
         input.labelIds = resolved.map(l => l.id);
       }
 
       if (args.projectName !== undefined && args.projectName !== null) {
-        const projectId = await resolveProjectByName(String(args.projectName));
+        const projectId = await resolveProjectByName(api, String(args.projectName));
         if (projectId) input.projectId = projectId;
       }
 
-      const result = await linear.updateIssue(issueId, input);
+      const before = await captureIssueFields(api, issueId, input);
+      const result = await api.updateIssue(issueId, input);
+      const beforeImage: ActionBeforeImage | undefined = before && { kind: "issue_fields", issues: [before] };
 
       return JSON.stringify({
         success: result.success,
         issueId: result.issue?.id || issueId,
         identifier: result.issue?.identifier || rawId,
         url: result.issue?.url,
+        beforeImage,
       });
     },
 
-    delete_issue: async (args) => {
+    delete_issue: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const rawId = String(args.issueId || "");
       const issueId = resolveIssueId(rawId);
 
-      const result = await linear.deleteIssue(issueId);
+      const result = await api.deleteIssue(issueId);
+      // Hide it locally right away rather than waiting for the next full reconciliation
+      if (result.success) db.tombstoneIssues([issueId]);
+      // Linear keeps deleted issues in the trash for a while; undo brings them back from there
+      const beforeImage: ActionBeforeImage = { kind: "issue_deleted", issueId, identifier: rawId };
 
       return JSON.stringify({
         success: result.success,
         identifier: rawId,
+        beforeImage,
       });
     },
 
-    add_comment: async (args) => {
+    add_comment: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const rawId = String(args.issueId || "");
       const issueId = resolveIssueId(rawId);
       const body = String(args.body || "");
 
-      const result = await linear.addIssueComment(issueId, body);
+      const result = await api.addIssueComment(issueId, body);
 
+      const beforeImage: ActionBeforeImage = { kind: "comment_created", commentId: result.id, issueIdentifier: rawId };
       return JSON.stringify({
         success: true,
         commentId: result.id,
         issueIdentifier: rawId,
         url: result.url,
+        beforeImage,
       });
     },
 
-    manage_project: async (args) => {
+    manage_project: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const action = String(args.action || "create");
       const projectName = String(args.projectName || "");
 
       if (action === "create") {
-        const teamId = await linear.getTeamId(cfg.linearTeamKey);
+        const teamId = await api.getTeamId(cfg.linearTeamKey);
         const description = args.description ? String(args.description) : undefined;
-        const project = await linear.createProject({
+        const project = await api.createProject({
           teamIds: [teamId],
           name: projectName,
           description,
         });
+        const beforeImage: ActionBeforeImage = { kind: "project_created", projectId: project.id, name: project.name };
         return JSON.stringify({
           success: true,
           projectId: project.id,
           name: project.name,
           url: project.url,
+          beforeImage,
         });
       }
 
       // For update/archive: look up project by name
-      const projects = await linear.listProjects(cfg.linearTeamKey);
+      const projects = await api.listProjects(cfg.linearTeamKey);
       const lower = projectName.toLowerCase();
       const match = projects.find(p => p.name.toLowerCase() === lower)
         || projects.find(p => p.name.toLowerCase().includes(lower));
@@ -1451,27 +1628,46 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         return JSON.stringify({ error: `Project not found: ${projectName}` });
       }
 
+      // Undefined when the project can't be read: the write still goes ahead, it just can't be undone
+      const before = await api.getProjectFields(match.id).catch(() => undefined);
+
       if (action === "archive") {
-        const result = await linear.updateProject(match.id, { state: "canceled" });
-        return JSON.stringify({ success: result.success, name: projectName });
+        const result = await api.updateProject(match.id, { state: "canceled" });
+        const beforeImage: ActionBeforeImage | undefined = before && {
+          kind: "project_fields", projectId: match.id, name: before.name, fields: { state: before.state },
+        };
+        return JSON.stringify({ success: result.success, name: projectName, beforeImage });
       }
 
       // update
       const updateInput: { name?: string; description?: string } = {};
       if (args.newName) updateInput.name = String(args.newName);
       if (args.description !== undefined && args.description !== null) updateInput.description = String(args.description);
-      const result = await linear.updateProject(match.id, updateInput);
-      return JSON.stringify({ success: result.success, name: args.newName ? String(args.newName) : projectName });
+      const result = await api.updateProject(match.id, updateInput);
+      const beforeImage: ActionBeforeImage | undefined = before && {
+        kind: "project_fields",
+        projectId: match.id,
+        name: updateInput.name ?? before.name,
+        fields: {
+          ...("name" in updateInput ? { name: before.name } : {}),
+          ...("description" in updateInput ? { description: before.description } : {}),
+        },
+      };
+      return JSON.stringify({ success: result.success, name: args.newName ? String(args.newName) : projectName, beforeImage });
     },
 
-    manage_cycle: async (args) => {
+    manage_cycle: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const action = String(args.action || "add_issue");
       const rawIssueId = String(args.issueId || "");
       const issueId = resolveIssueId(rawIssueId);
 
+      const before = await captureIssueFields(api, issueId, { cycleId: null });
+      const beforeImage: ActionBeforeImage | undefined = before && { kind: "issue_fields", issues: [before] };
+
       if (action === "remove_issue") {
-        const result = await linear.removeIssueFromCycle(issueId);
-        return JSON.stringify({ success: result.success, issueIdentifier: rawIssueId, cycleName: null });
+        const result = await api.removeIssueFromCycle(issueId);
+        return JSON.stringify({ success: result.success, issueIdentifier: rawIssueId, cycleName: null, beforeImage });
       }
 
       // add_issue: resolve cycle
@@ -1480,7 +1676,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
 
       if (args.cycleName) {
         // Resolve cycle name to ID
-        const cycles = await linear.listCyclesForTeam(cfg.linearTeamKey);
+        const cycles = await api.listCyclesForTeam(teamKeyForIssue(issueId));
         const lower = String(args.cycleName).toLowerCase();
         const match = cycles.find(c => c.name.toLowerCase() === lower)
           || cycles.find(c => c.name.toLowerCase().includes(lower));
@@ -1491,8 +1687,8 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
           return JSON.stringify({ error: `Cycle not found: ${args.cycleName}` });
         }
       } else {
-        // Use active cycle from db
-        const activeCycle = db.getActiveCycle();
+        // Use the active cycle of the issue's team
+        const activeCycle = db.getActiveCycle(teamKeyForIssue(issueId));
         if (activeCycle) {
           cycleId = activeCycle.id;
           cycleName = activeCycle.name;
@@ -1501,19 +1697,21 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         }
       }
 
-      const result = await linear.addIssueToCycle(issueId, cycleId!);
-      return JSON.stringify({ success: result.success, issueIdentifier: rawIssueId, cycleName });
+      const result = await api.addIssueToCycle(issueId, cycleId!);
+      return JSON.stringify({ success: result.success, issueIdentifier: rawIssueId, cycleName, beforeImage });
     },
 
-    manage_labels: async (args) => {
+    manage_labels: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const action = String(args.action || "create");
       const labelName = String(args.labelName || "");
 
       if (action === "create") {
-        const teamId = await linear.getTeamId(cfg.linearTeamKey);
+        const teamId = await api.getTeamId(cfg.linearTeamKey);
         const color = args.color ? String(args.color) : undefined;
-        const label = await linear.createLabel(teamId, labelName, color);
-        return JSON.stringify({ success: true, labelId: label.id, labelName: label.name });
+        const label = await api.createLabel(teamId, labelName, color);
+        const beforeImage: ActionBeforeImage = { kind: "label_created", labelId: label.id, name: label.name };
+        return JSON.stringify({ success: true, labelId: label.id, labelName: label.name, beforeImage });
       }
 
       // add_to_issue / remove_from_issue
@@ -1524,12 +1722,16 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       const issueId = resolveIssueId(rawIssueId);
 
       // Get current labels on the issue
-      const currentLabels = await linear.getIssueLabels(issueId);
+      const currentLabels = await api.getIssueLabels(issueId);
       const currentLabelIds = currentLabels.map(l => l.id);
+      const beforeImage: ActionBeforeImage = {
+        kind: "issue_fields",
+        issues: [{ issueId, identifier: rawIssueId, fields: { labelIds: currentLabelIds } }],
+      };
 
       if (action === "add_to_issue") {
         // Find the label by name
-        const resolved = await linear.listLabelsByName([labelName]);
+        const resolved = await api.listLabelsByName([labelName]);
         const foundLabel = resolved[0];
         if (!foundLabel) {
           return JSON.stringify({ error: `Label not found: ${labelName}` });
@@ -1539,23 +1741,24 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         const newLabelIds = currentLabelIds.includes(targetLabelId)
           ? currentLabelIds
           : [...currentLabelIds, targetLabelId];
-        const result = await linear.updateIssue(issueId, { labelIds: newLabelIds });
-        return JSON.stringify({ success: result.success, labelName, issueIdentifier: rawIssueId });
+        const result = await api.updateIssue(issueId, { labelIds: newLabelIds });
+        return JSON.stringify({ success: result.success, labelName, issueIdentifier: rawIssueId, beforeImage });
       }
 
       // remove_from_issue
-      const resolved = await linear.listLabelsByName([labelName]);
+      const resolved = await api.listLabelsByName([labelName]);
       const foundLabel = resolved[0];
       if (!foundLabel) {
         return JSON.stringify({ error: `Label not found: ${labelName}` });
       }
       const targetLabelId = foundLabel.id;
       const newLabelIds = currentLabelIds.filter(id => id !== targetLabelId);
-      const result = await linear.updateIssue(issueId, { labelIds: newLabelIds });
-      return JSON.stringify({ success: result.success, labelName, issueIdentifier: rawIssueId });
+      const result = await api.updateIssue(issueId, { labelIds: newLabelIds });
+      return JSON.stringify({ success: result.success, labelName, issueIdentifier: rawIssueId, beforeImage });
     },
 
-    bulk_update_issues: async (args) => {
+    bulk_update_issues: async (args, context) => {
+      const api = linear.withSignal(context?.signal);
       const issueIds = Array.isArray(args.issueIds) ? args.issueIds.map(String) : [];
       if (issueIds.length === 0) {
         return JSON.stringify({ error: "At least one issue ID is required" });
@@ -1574,24 +1777,32 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         assigneeId = resolveMemberByName(String(updates.assigneeName));
       }
 
-      let stateId: string | undefined;
-      if (updates.status) {
-        stateId = await resolveStatusByName(String(updates.status));
-      }
+      // Workflow states are per team, so resolve the status once per team in the batch
+      const stateIdsByTeam = new Map<string, string | undefined>();
+      const resolveStateForIssue = async (issueId: string): Promise<string | undefined> => {
+        if (!updates.status) return undefined;
+        const teamKey = teamKeyForIssue(issueId);
+        if (!stateIdsByTeam.has(teamKey)) {
+          stateIdsByTeam.set(teamKey, await resolveStatusByName(api, String(updates.status), teamKey));
+        }
+        return stateIdsByTeam.get(teamKey);
+      };
 
       let labelIds: string[] | undefined;
       if (updates.labelNames && Array.isArray(updates.labelNames) && updates.labelNames.length > 0) {
-        const resolved = await linear.listLabelsByName((updates.labelNames as string[]).map(String));
+        const resolved = await api.listLabelsByName((updates.labelNames as string[]).map(String));
         labelIds = resolved.map(l => l.id);
       }
 
       let projectId: string | undefined;
       if (updates.projectName) {
-        projectId = await resolveProjectByName(String(updates.projectName));
+        projectId = await resolveProjectByName(api, String(updates.projectName));
       }
 
       const results: Array<{ issueId: string; identifier: string; success: boolean; url?: string }> = [];
       const failures: Array<{ issueId: string; identifier: string; error: string }> = [];
+      // Only issues that were actually updated need restoring
+      const restore: Extract<ActionBeforeImage, { kind: "issue_fields" }>["issues"] = [];
 
       for (const rawId of issueIds) {
         const resolvedId = resolveIssueId(rawId);
@@ -1599,12 +1810,15 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
 
         if (updates.priority !== undefined && updates.priority !== null) input.priority = Number(updates.priority);
         if (assigneeId) input.assigneeId = assigneeId;
+        const stateId = await resolveStateForIssue(resolvedId);
         if (stateId) input.stateId = stateId;
         if (labelIds) input.labelIds = labelIds;
         if (projectId) input.projectId = projectId;
 
         try {
-          const result = await linear.updateIssue(resolvedId, input);
+          const before = await captureIssueFields(api, resolvedId, input);
+          const result = await api.updateIssue(resolvedId, input);
+          if (before) restore.push(before);
           results.push({
             issueId: result.issue?.id || resolvedId,
             identifier: result.issue?.identifier || rawId,
@@ -1623,12 +1837,14 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       const totalCount = issueIds.length;
       const successCount = results.length;
       const failedCount = failures.length;
+      const beforeImage: ActionBeforeImage | undefined = restore.length > 0 ? { kind: "issue_fields", issues: restore } : undefined;
 
       if (failedCount === 0) {
         return JSON.stringify({
           success: true,
           updatedCount: successCount,
           results,
+          beforeImage,
         });
       }
 
@@ -1649,6 +1865,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         totalCount,
         results,
         failures,
+        beforeImage,
       });
     },
 
@@ -1689,7 +1906,8 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       };
 
       db.upsertOkr(okrDoc);
-      return JSON.stringify({ success: true, okrId, objective });
+      const beforeImage: ActionBeforeImage = { kind: "okr", okrId, okr: null };
+      return JSON.stringify({ success: true, okrId, objective, beforeImage });
     },
 
     update_okr: async (args) => {
@@ -1741,7 +1959,8 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       };
 
       db.upsertOkr(updated);
-      return JSON.stringify({ success: true, okrId, objective });
+      const beforeImage: ActionBeforeImage = { kind: "okr", okrId, okr: existing };
+      return JSON.stringify({ success: true, okrId, objective, beforeImage });
     },
 
     delete_okr: async (args) => {
@@ -1752,15 +1971,18 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
       }
 
       db.deleteOkr(okrId);
-      return JSON.stringify({ success: true, okrId, objective: existing.objective });
+      const beforeImage: ActionBeforeImage = { kind: "okr", okrId, okr: existing };
+      return JSON.stringify({ success: true, okrId, objective: existing.objective, beforeImage });
     },
 
     update_key_result: async (args) => {
       const keyResultId = String(args.keyResultId || "");
       const currentValue = Number(args.currentValue);
+      const previous = db.getOkrs().flatMap(o => o.keyResults).find(kr => kr.id === keyResultId);
+      const beforeImage: ActionBeforeImage | undefined = previous && { kind: "key_result", keyResultId, currentValue: previous.currentValue };
 
       db.updateKeyResultProgress(keyResultId, currentValue);
-      return JSON.stringify({ success: true, keyResultId, currentValue });
+      return JSON.stringify({ success: true, keyResultId, currentValue, beforeImage });
     },
 
     link_issue_to_kr: async (args) => {
@@ -1784,6 +2006,9 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
 
       // Get or create enrichment for this issue
       const existingEnrichment = db.getEnrichment(issueId);
+      const beforeImage: ActionBeforeImage = {
+        kind: "okr_link", issueId, okrId: existingEnrichment?.okrId, okrObjective: existingEnrichment?.okrObjective,
+      };
       if (action === "link") {
         const okr = db.getOkrById(parentOkrId!);
         const enrichment = existingEnrichment || {
@@ -1824,6 +2049,7 @@ export function createToolHandlers(db: StateDb, linear: LinearGraphqlClient, cfg
         issueIdentifier: rawIssueId,
         keyResultId,
         action,
+        beforeImage,
       });
     },
   };
@@ -1,6 +1,6 @@
 import type {
-  ActionProposal,
-  BoardState, BoardMoveResult, ChatConversation, ChatMessage, ChatStreamEvent,
+  ActionAuditEntry, ActionCategory, ActionProposal, ActionState, ApprovalPolicy,
+  BoardState, BoardMoveResult, ChatConversation, ChatConversationExport, ChatMessage, ChatRun, ChatSearchHit, ChatStreamEvent, ConversationTag, ConversationVisibility,
   Client, Cycle, CycleDetail, DashboardData, IssueWithState, OkrDoc,
   OkrAllocationView, PullRequest, PrReview, RiceScore, SyncStatus,
   TeamMember, TrackedMemberStatus, VelocityResponse, WipLimit,
@@ -8,8 +8,23 @@ import type {
 
 const BASE = "/api";
 
+// ─── Identity ───
+// There are no logins: the user picks which tracked member they are, and chat
+// requests carry that Linear user ID so conversations can be owned and kept private.
+const USER_ID_KEY = "linearapp.userId";
+export const getCurrentUserId = () => localStorage.getItem(USER_ID_KEY) || undefined;
+export const setCurrentUserId = (userId: string | undefined) => {
+  if (userId) localStorage.setItem(USER_ID_KEY, userId);
+  else localStorage.removeItem(USER_ID_KEY);
+};
+
+function identityHeaders(): Record<string, string> {
+  const userId = getCurrentUserId();
+  return userId ? { "X-User-Id": userId } : {};
+}
+
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = identityHeaders();
   if (options?.body) headers["Content-Type"] = "application/json";
   const res = await fetch(`${BASE}${path}`, {
     headers,
@@ -86,22 +101,52 @@ export const createConversation = (title?: string) =>
   request<{ ok: boolean; conversation: ChatConversation }>("/chat/conversations", { method: "POST", body: JSON.stringify({ title }) });
 export const getMessages = (conversationId: string) =>
   request<{ messages: ChatMessage[] }>(`/chat/conversations/${conversationId}/messages`);
+export const updateConversation = (
+  id: string,
+  data: { title?: string; tags?: ConversationTag[]; visibility?: ConversationVisibility; pinned?: boolean },
+) =>
+  request<{ ok: boolean; conversation: ChatConversation }>(`/chat/conversations/${id}`, { method: "PATCH", body: JSON.stringify(data) });
 export const deleteConversation = (id: string) =>
   request<{ ok: boolean }>(`/chat/conversations/${id}`, { method: "DELETE" });
+export const searchChat = (q: string, filters?: { from?: string; to?: string; approvedActions?: boolean }) => {
+  const params = new URLSearchParams({ q });
+  if (filters?.from) params.set("from", filters.from);
+  if (filters?.to) params.set("to", filters.to);
+  if (filters?.approvedActions !== undefined) params.set("approvedActions", String(filters.approvedActions));
+  return request<{ hits: ChatSearchHit[] }>(`/chat/search?${params}`);
+};
+/** Download link for a conversation as Markdown (shown branch) or JSON (everything, re-importable) */
+export const conversationExportUrl = (id: string, format: "md" | "json") => {
+  // Plain links can't send headers, so the identity goes in the query
+  const params = new URLSearchParams({ format });
+  const userId = getCurrentUserId();
+  if (userId) params.set("userId", userId);
+  return `${BASE}/chat/conversations/${id}/export?${params}`;
+};
+export const importConversation = (data: ChatConversationExport) =>
+  request<{ ok: boolean; conversation: ChatConversation }>("/chat/conversations/import", { method: "POST", body: JSON.stringify(data) });
+
+/** Receives each chat event with its run sequence number (for reattaching with `after`) */
+export type ChatEventHandler = (event: ChatStreamEvent, seq?: number) => void;
 
-export function streamChat(
-  conversationId: string,
-  message: string,
-  onEvent: (event: ChatStreamEvent) => void,
+function streamEvents(
+  path: string,
+  body: unknown,
+  onEvent: ChatEventHandler,
 ): AbortController {
   const controller = new AbortController();
 
-  fetch(`${BASE}/chat`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ conversationId, message }),
+  fetch(`${BASE}${path}`, {
+    method: body === undefined ? "GET" : "POST",
+    headers: body === undefined ? identityHeaders() : { ...identityHeaders(), "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
     signal: controller.signal,
   }).then(async (res) => {
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      onEvent({ type: "error", error: (body as any).error || `Request failed: ${res.status}` });
+      return;
+    }
     if (!res.body) return;
     const reader = res.body.getReader();
     const decoder = new TextDecoder();
@@ -111,14 +156,18 @@ export function streamChat(
       const { done, value } = await reader.read();
       if (done) break;
       buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n\n");
-      buffer = lines.pop() || "";
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          try {
-            const event = JSON.parse(line.slice(6)) as ChatStreamEvent;
-            onEvent(event);
-          } catch { /* skip malformed */ }
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() || "";
+      for (const frame of frames) {
+        let seq: number | undefined;
+        for (const line of frame.split("\n")) {
+          if (line.startsWith("id: ")) seq = Number(line.slice(4));
+          if (line.startsWith("data: ")) {
+            try {
+              const event = JSON.parse(line.slice(6)) as ChatStreamEvent;
+              onEvent(event, seq);
+            } catch { /* skip malformed */ }
+          }
         }
       }
     }
@@ -131,9 +180,48 @@ export function streamChat(
   return controller;
 }
 
+export const streamChat = (conversationId: string, message: string, onEvent: ChatEventHandler) =>
+  streamEvents("/chat", { conversationId, message }, onEvent);
+
+/** Resume the assistant once every proposal from its latest turn has been decided */
+export const continueChat = (conversationId: string, onEvent: ChatEventHandler) =>
+  streamEvents(`/chat/conversations/${conversationId}/continue`, {}, onEvent);
+
+/** Replace an earlier user message with `message`; the original stays on its own branch */
+export const editChatMessage = (conversationId: string, messageId: string, message: string, onEvent: ChatEventHandler) =>
+  streamEvents(`/chat/conversations/${conversationId}/messages/${messageId}/edit`, { message }, onEvent);
+
+/** Generate another version of an assistant reply as a sibling branch */
+export const regenerateChatMessage = (conversationId: string, messageId: string, onEvent: ChatEventHandler) =>
+  streamEvents(`/chat/conversations/${conversationId}/messages/${messageId}/regenerate`, {}, onEvent);
+
+/** Show the branch through `messageId` and get its messages */
+export const switchChatBranch = (conversationId: string, messageId: string) =>
+  request<{ ok: boolean; messages: ChatMessage[] }>(`/chat/conversations/${conversationId}/branch`, {
+    method: "POST", body: JSON.stringify({ messageId }),
+  });
+
+/** Reattach to a generation, replaying the events after sequence number `after` */
+export const attachChatRun = (runId: string, after: number, onEvent: ChatEventHandler) =>
+  streamEvents(`/chat/runs/${runId}/events?after=${after}`, undefined, onEvent);
+
+export const getActiveChatRun = (conversationId: string) =>
+  request<{ run: ChatRun | null }>(`/chat/conversations/${conversationId}/active-run`);
+
+export const cancelChatRun = (runId: string) =>
+  request<{ ok: boolean; cancelled: boolean }>(`/chat/runs/${runId}/cancel`, { method: "POST" });
+
+/** Stop the conversation's running generation, whichever run it is */
+export const cancelConversationRun = (conversationId: string) =>
+  request<{ ok: boolean; cancelled: boolean }>(`/chat/conversations/${conversationId}/cancel`, { method: "POST" });
+
 // ─── Actions/Approvals ───
-export const approveAction = (proposalId: string) =>
-  request<{ ok: boolean; proposal: ActionProposal }>(`/chat/actions/${proposalId}/approve`, { method: "POST" });
+/** `confirmation` is the text a confirmation policy asks the approver to type */
+export const approveAction = (proposalId: string, confirmation?: string) =>
+  request<{ ok: boolean; proposal: ActionProposal }>(`/chat/actions/${proposalId}/approve`, {
+    method: "POST",
+    ...(confirmation !== undefined ? { body: JSON.stringify({ confirmation }) } : {}),
+  });
 
 export const declineAction = (proposalId: string) =>
   request<{ ok: boolean; proposal: ActionProposal }>(`/chat/actions/${proposalId}/decline`, { method: "POST" });
@@ -141,15 +229,63 @@ export const declineAction = (proposalId: string) =>
 export const retryAction = (proposalId: string) =>
   request<{ ok: boolean; proposal: ActionProposal }>(`/chat/actions/${proposalId}/retry`, { method: "POST" });
 
+/** Run compensating operations for a succeeded action; on failure the body still carries the current proposal */
+export const undoAction = (proposalId: string) =>
+  request<{ ok: boolean; proposal: ActionProposal }>(`/chat/actions/${proposalId}/undo`, { method: "POST" });
+
 export const getConversationProposals = (conversationId: string) =>
   request<{ proposals: ActionProposal[] }>(`/chat/conversations/${conversationId}/proposals`);
 
+// ─── Approval Policies ───
+export type ApprovalPolicyInput = Pick<ApprovalPolicy, "name" | "effect"> & Partial<Pick<ApprovalPolicy, "description" | "priority" | "enabled" | "match">>;
+export const getApprovalPolicies = () => request<{ ok: boolean; policies: ApprovalPolicy[] }>("/approval-policies");
+export const createApprovalPolicy = (data: ApprovalPolicyInput) =>
+  request<{ ok: boolean; policy: ApprovalPolicy }>("/approval-policies", { method: "POST", body: JSON.stringify(data) });
+export const updateApprovalPolicy = (id: string, data: Partial<ApprovalPolicyInput>) =>
+  request<{ ok: boolean; policy: ApprovalPolicy }>(`/approval-policies/${id}`, { method: "PATCH", body: JSON.stringify(data) });
+export const deleteApprovalPolicy = (id: string) =>
+  request<{ ok: boolean }>(`/approval-policies/${id}`, { method: "DELETE" });
+
+// ─── Action Audit ───
+export type ActionAuditQuery = {
+  states?: ActionState[];
+  toolName?: string;
+  category?: ActionCategory;
+  from?: string;
+  to?: string;
+  issue?: string;
+  limit?: number;
+};
+const auditParams = (query: ActionAuditQuery) => {
+  const params = new URLSearchParams();
+  if (query.states?.length) params.set("state", query.states.join(","));
+  if (query.toolName) params.set("toolName", query.toolName);
+  if (query.category) params.set("category", query.category);
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.issue) params.set("issue", query.issue);
+  if (query.limit) params.set("limit", String(query.limit));
+  return params;
+};
+export const getActionAudit = (query: ActionAuditQuery) =>
+  request<{ ok: boolean; actions: ActionAuditEntry[] }>(`/actions?${auditParams(query)}`);
+/** Download link for the filtered audit log */
+export const actionAuditExportUrl = (query: ActionAuditQuery, format: "csv" | "json") => {
+  const params = auditParams(query);
+  params.set("format", format);
+  // Conversation titles depend on who is asking; links can't send headers
+  const userId = getCurrentUserId();
+  if (userId) params.set("userId", userId);
+  return `${BASE}/actions/export?${params}`;
+};
+
 // ─── Overview / Velocity ───
 export const getVelocity = () => request<VelocityResponse>("/overview");
 export const getVelocitySummary = () => request<{ ok: boolean; summary: string }>("/overview/summary", { method: "POST" });
 
 // ─── Team Config ───
-export const getTrackedMembers = () => request<{ trackedMembers: TrackedMemberStatus[] }>("/team-config");
+export const getTrackedMembers = (team?: string) =>
+  request<{ trackedMembers: TrackedMemberStatus[] }>(team ? `/team-config?team=${encodeURIComponent(team)}` : "/team-config");
 
 // ─── Clients/Customers ───
 export const getClients = (filters?: { tier?: string; active?: string }) => {
@@ -1,20 +1,26 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Box, Button, Typography, CircularProgress,
-  Collapse, Fade,
+  Collapse, Fade, TextField,
 } from "@mui/material";
 import BuildIcon from "@mui/icons-material/Build";
 import CheckCircleIcon from "@mui/icons-material/CheckCircle";
 import ErrorIcon from "@mui/icons-material/Error";
 import CancelIcon from "@mui/icons-material/Cancel";
 import ArrowForwardIcon from "@mui/icons-material/ArrowForward";
+import CallSplitIcon from "@mui/icons-material/CallSplit";
+import UndoIcon from "@mui/icons-material/Undo";
+import HourglassDisabledIcon from "@mui/icons-material/HourglassDisabled";
 import type { ActionProposal, ActionState } from "@linearapp/shared";
 
 export type ApprovalCardProps = {
   proposal: ActionProposal;
-  onApprove: (id: string) => void;
+  /** `confirmation` is passed when the proposal's policy asks for typed confirmation */
+  onApprove: (id: string, confirmation?: string) => void;
   onDecline: (id: string) => void;
   onRetry: (id: string) => void;
+  /** Omitted where undo isn't offered (e.g. while the reply is still streaming) */
+  onUndo?: (id: string) => Promise<string | undefined>;
 };
 
 // --- Shared transition styles ---
@@ -51,6 +57,8 @@ function getContainerSx(state: ActionState) {
     case "failed":
       return { ...base, bgcolor: "rgba(244, 67, 54, 0.06)", borderColor: "rgba(244, 67, 54, 0.3)" };
     case "declined":
+    case "reverted":
+    case "expired":
       return { ...base, bgcolor: "rgba(255, 255, 255, 0.02)", borderColor: "rgba(255, 255, 255, 0.08)", py: 1 };
     default:
       return base;
@@ -100,13 +108,24 @@ function PreviewField({ field, oldValue, newValue }: { field: string; oldValue?:
 }
 
 // --- Main Component ---
-export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }: ApprovalCardProps) {
+export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry, onUndo }: ApprovalCardProps) {
   const [approveDisabled, setApproveDisabled] = useState(false);
-  const { state } = proposal;
+  const [undoing, setUndoing] = useState(false);
+  const [undoError, setUndoError] = useState<string | undefined>();
+  const [confirmation, setConfirmation] = useState("");
+  const { state, policy } = proposal;
+  // Left behind on an abandoned branch: shown for reference, no longer actionable
+  const stale = !!proposal.stale && (state === "proposed" || state === "failed");
+  const confirmationText = policy?.effect === "require_confirmation" ? policy.confirmationText : undefined;
+
+  // An approval that didn't go through (wrong confirmation, first of two approvers) can be tried again
+  useEffect(() => {
+    setApproveDisabled(false);
+  }, [proposal.updatedAt]);
 
   const handleApprove = () => {
     setApproveDisabled(true);
-    onApprove(proposal.id);
+    onApprove(proposal.id, confirmationText !== undefined ? confirmation.trim() : undefined);
   };
 
   const handleDecline = () => {
@@ -117,11 +136,36 @@ export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }
     onRetry(proposal.id);
   };
 
+  const handleUndo = async () => {
+    if (!onUndo) return;
+    setUndoing(true);
+    setUndoError(undefined);
+    setUndoError(await onUndo(proposal.id));
+    setUndoing(false);
+  };
+
   return (
     <Collapse in timeout={COLLAPSE_DURATION}>
-      <Box key={`${proposal.id}-${state}`} sx={getContainerSx(state)}>
+      <Box key={`${proposal.id}-${state}`} sx={stale ? getContainerSx("declined") : getContainerSx(state)}>
+        {/* ── Stale: proposed on a branch the conversation moved away from ── */}
+        {stale && (
+          <Fade in timeout={TRANSITION_DURATION}>
+            <Box sx={{ display: "flex", alignItems: "flex-start", gap: 1 }}>
+              <CallSplitIcon sx={{ fontSize: 18, color: "text.secondary", opacity: 0.6, mt: 0.25 }} />
+              <Box>
+                <Typography variant="body2" sx={{ color: "text.secondary", fontSize: "0.85rem", textDecoration: "line-through" }}>
+                  {proposal.description}
+                </Typography>
+                <Typography variant="caption" sx={{ color: "text.secondary" }}>
+                  Stale — proposed on a branch of this conversation that is no longer active.
+                </Typography>
+              </Box>
+            </Box>
+          </Fade>
+        )}
+
         {/* ── Proposed: full card ── */}
-        {state === "proposed" && (
+        {state === "proposed" && !stale && (
           <Fade in timeout={TRANSITION_DURATION}>
             <Box>
               {/* Header */}
@@ -146,13 +190,54 @@ export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }
                 </Box>
               )}
 
+              {/* Went back to review: the target changed after it was approved */}
+              {proposal.conflicts && proposal.conflicts.length > 0 && (
+                <Box sx={{ mb: 1.5, pl: 3.25 }}>
+                  <Typography variant="caption" sx={{ display: "block", color: "warning.main", mb: 0.25 }}>
+                    Changed since this was proposed — the preview now shows the current values:
+                  </Typography>
+                  {proposal.conflicts.map((c, i) => (
+                    <Typography key={i} variant="caption" sx={{ display: "block", color: "text.secondary" }}>
+                      {c.target} · {c.field}: {c.proposed ?? "(none)"} → {c.current ?? "(none)"}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+
+              {/* Policy requirements */}
+              {confirmationText !== undefined && (
+                <Box sx={{ mb: 1.5, pl: 3.25 }}>
+                  <Typography variant="caption" sx={{ display: "block", color: "text.secondary", mb: 0.5 }}>
+                    Policy "{policy?.policyName}" asks you to type <b>{confirmationText}</b> to confirm.
+                  </Typography>
+                  <TextField
+                    size="small"
+                    value={confirmation}
+                    onChange={e => setConfirmation(e.target.value)}
+                    placeholder={confirmationText}
+                    sx={{ width: 220, "& input": { fontSize: "0.8rem", py: 0.75 } }}
+                  />
+                </Box>
+              )}
+              {policy?.effect === "require_second_approver" && (
+                <Typography variant="caption" sx={{ display: "block", color: "text.secondary", mb: 1.5, pl: 3.25 }}>
+                  Policy "{policy.policyName}" needs two different approvers · {policy.approvals?.length ?? 0} of 2 so far.
+                  Approvers are told apart by the member picked in each browser, not by a sign-in.
+                </Typography>
+              )}
+              {proposal.error && (
+                <Typography variant="caption" sx={{ display: "block", color: "error.main", mb: 1, pl: 3.25 }}>
+                  {proposal.error}
+                </Typography>
+              )}
+
               {/* Buttons */}
               <Box sx={{ display: "flex", gap: 1, pl: 3.25 }}>
                 <Button
                   variant="contained"
                   color="primary"
                   size="small"
-                  disabled={approveDisabled}
+                  disabled={approveDisabled || (confirmationText !== undefined && confirmation.trim() !== confirmationText)}
                   onClick={handleApprove}
                   sx={{ fontSize: "0.75rem", py: 0.5, px: 2 }}
                 >
@@ -209,30 +294,55 @@ export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }
           </Fade>
         )}
 
-        {/* ── Succeeded: compact single-line ── */}
+        {/* ── Succeeded: compact line, with undo when possible ── */}
         {state === "succeeded" && (
           <Fade in timeout={TRANSITION_DURATION}>
-            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
-              <CheckCircleIcon sx={{ fontSize: 18, color: "success.main" }} />
-              {proposal.resultUrl ? (
-                <Typography
-                  component="a"
-                  href={proposal.resultUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  variant="body2"
-                  sx={{
-                    color: "success.main",
-                    fontSize: "0.85rem",
-                    textDecoration: "none",
-                    "&:hover": { textDecoration: "underline" },
-                  }}
-                >
-                  {proposal.result || "Action completed"}
+            <Box>
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <CheckCircleIcon sx={{ fontSize: 18, color: "success.main" }} />
+                {proposal.resultUrl ? (
+                  <Typography
+                    component="a"
+                    href={proposal.resultUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    variant="body2"
+                    sx={{
+                      color: "success.main",
+                      fontSize: "0.85rem",
+                      textDecoration: "none",
+                      "&:hover": { textDecoration: "underline" },
+                    }}
+                  >
+                    {proposal.result || "Action completed"}
+                  </Typography>
+                ) : (
+                  <Typography variant="body2" sx={{ color: "success.main", fontSize: "0.85rem" }}>
+                    {proposal.result || "Action completed"}
+                  </Typography>
+                )}
+                {proposal.undoable && onUndo && (
+                  <Button
+                    variant="text"
+                    color="inherit"
+                    size="small"
+                    startIcon={undoing ? <CircularProgress size={12} color="inherit" /> : <UndoIcon sx={{ fontSize: 14 }} />}
+                    disabled={undoing}
+                    onClick={handleUndo}
+                    sx={{ ml: "auto", fontSize: "0.75rem", py: 0, color: "text.secondary" }}
+                  >
+                    Undo
+                  </Button>
+                )}
+              </Box>
+              {policy?.effect === "auto_approve" && (
+                <Typography variant="caption" sx={{ display: "block", color: "text.secondary", pl: 3.25, mt: 0.5 }}>
+                  Auto-approved by policy "{policy.policyName}"
                 </Typography>
-              ) : (
-                <Typography variant="body2" sx={{ color: "success.main", fontSize: "0.85rem" }}>
-                  {proposal.result || "Action completed"}
+              )}
+              {undoError && (
+                <Typography variant="caption" sx={{ display: "block", color: "error.main", pl: 3.25, mt: 0.5 }}>
+                  {undoError}
                 </Typography>
               )}
             </Box>
@@ -240,7 +350,7 @@ export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }
         )}
 
         {/* ── Failed: error with retry ── */}
-        {state === "failed" && (
+        {state === "failed" && !stale && (
           <Fade in timeout={TRANSITION_DURATION}>
             <Box>
               <Box sx={{ display: "flex", alignItems: "flex-start", gap: 1, mb: 1 }}>
@@ -249,17 +359,24 @@ export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }
                   {proposal.error || "Action failed"}
                 </Typography>
               </Box>
-              <Box sx={{ pl: 3.25 }}>
-                <Button
-                  variant="outlined"
-                  color="error"
-                  size="small"
-                  onClick={handleRetry}
-                  sx={{ fontSize: "0.75rem", py: 0.5, px: 2 }}
-                >
-                  Retry
-                </Button>
-              </Box>
+              {proposal.retryable && (
+                <Typography variant="caption" sx={{ display: "block", color: "text.secondary", pl: 3.25, mb: 1 }}>
+                  Temporary Linear error — retrying usually works.
+                </Typography>
+              )}
+              {!proposal.imported && (
+                <Box sx={{ pl: 3.25 }}>
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    size="small"
+                    onClick={handleRetry}
+                    sx={{ fontSize: "0.75rem", py: 0.5, px: 2 }}
+                  >
+                    Retry
+                  </Button>
+                </Box>
+              )}
             </Box>
           </Fade>
         )}
@@ -270,7 +387,33 @@ export default function ApprovalCard({ proposal, onApprove, onDecline, onRetry }
             <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
               <CancelIcon sx={{ fontSize: 18, color: "text.secondary", opacity: 0.6 }} />
               <Typography variant="body2" sx={{ color: "text.secondary", fontSize: "0.85rem", opacity: 0.7 }}>
-                Declined
+                {policy?.effect === "block" ? `${proposal.description} — ${proposal.error ?? "blocked by policy"}` : "Declined"}
+              </Typography>
+            </Box>
+          </Fade>
+        )}
+
+        {/* ── Expired: nobody decided in time ── */}
+        {state === "expired" && (
+          <Fade in timeout={TRANSITION_DURATION}>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+              <HourglassDisabledIcon sx={{ fontSize: 18, color: "text.secondary", opacity: 0.6 }} />
+              <Typography variant="body2" sx={{ color: "text.secondary", fontSize: "0.85rem", opacity: 0.7 }}>
+                <Box component="span" sx={{ textDecoration: "line-through" }}>{proposal.description}</Box>
+                {" — expired before it was approved"}
+              </Typography>
+            </Box>
+          </Fade>
+        )}
+
+        {/* ── Reverted: undone after it ran ── */}
+        {state === "reverted" && (
+          <Fade in timeout={TRANSITION_DURATION}>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+              <UndoIcon sx={{ fontSize: 18, color: "text.secondary", opacity: 0.6 }} />
+              <Typography variant="body2" sx={{ color: "text.secondary", fontSize: "0.85rem", opacity: 0.7 }}>
+                <Box component="span" sx={{ textDecoration: "line-through" }}>{proposal.description}</Box>
+                {" — undone"}{proposal.result ? `: ${proposal.result}` : ""}
               </Typography>
             </Box>
           </Fade>
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import {
+  Box, Button, InputAdornment, List, ListItemButton, MenuItem, TextField, Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import SearchIcon from "@mui/icons-material/Search";
+import LockIcon from "@mui/icons-material/Lock";
+import type { ChatConversation, ChatSearchHit, ConversationTag, TrackedMember } from "@linearapp/shared";
+import { getTrackedMembers, searchChat } from "../api";
+
+export type ChatSidebarProps = {
+  conversations: ChatConversation[];
+  activeConvId: string | null;
+  /** Tracked member the user said they are; private conversations are theirs */
+  userId?: string;
+  onUserChange: (userId: string | undefined) => void;
+  onSelect: (conversationId: string) => void;
+  onOpenHit: (hit: ChatSearchHit) => void;
+  onNew: () => void;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Display names in sidebar order */
+export const TAG_LABELS: Record<ConversationTag, string> = {
+  sprint: "Sprint",
+  okr: "OKRs",
+  customer: "Customers",
+  triage: "Triage",
+  reporting: "Reporting",
+};
+
+/** Pinned conversations first, the rest under their first tag (taxonomy order), untagged last */
+function groupConversations(conversations: ChatConversation[]): Array<{ label: string; items: ChatConversation[] }> {
+  const tags = Object.keys(TAG_LABELS) as ConversationTag[];
+  const primary = (c: ChatConversation) => tags.find(t => c.tags.includes(t));
+  const unpinned = conversations.filter(c => !c.pinned);
+  return [
+    { label: "Pinned", items: conversations.filter(c => c.pinned) },
+    ...tags.map(t => ({ label: TAG_LABELS[t], items: unpinned.filter(c => primary(c) === t) })),
+    { label: "Other", items: unpinned.filter(c => !primary(c)) },
+  ].filter(g => g.items.length > 0);
+}
+
+const DATE_RANGES: Array<{ value: string; label: string; days?: number }> = [
+  { value: "any", label: "Any time" },
+  { value: "7", label: "Past week", days: 7 },
+  { value: "30", label: "Past month", days: 30 },
+  { value: "90", label: "Past 3 months", days: 90 },
+];
+
+const ACTION_FILTERS: Array<{ value: string; label: string; approvedActions?: boolean }> = [
+  { value: "any", label: "Any actions" },
+  { value: "with", label: "With approved actions", approvedActions: true },
+  { value: "without", label: "Without approved actions", approvedActions: false },
+];
+
+// --- Snippet with highlighted matches ---
+function Snippet({ text, highlights }: { text: string; highlights: Array<[number, number]> }) {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  let pos = 0;
+  for (const [start, end] of highlights) {
+    if (start > pos) parts.push({ text: text.slice(pos, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    pos = end;
+  }
+  if (pos < text.length) parts.push({ text: text.slice(pos), match: false });
+
+  return (
+    <Typography variant="caption" sx={{ color: "text.secondary", display: "block", lineHeight: 1.5 }}>
+      {parts.map((p, i) => p.match
+        ? <Box key={i} component="mark" sx={{ bgcolor: "rgba(255, 193, 7, 0.3)", color: "text.primary", borderRadius: 0.5 }}>{p.text}</Box>
+        : <span key={i}>{p.text}</span>)}
+    </Typography>
+  );
+}
+
+// --- Main Component ---
+export default function ChatSidebar({ conversations, activeConvId, userId, onUserChange, onSelect, onOpenHit, onNew }: ChatSidebarProps) {
+  const [members, setMembers] = useState<TrackedMember[]>([]);
+  const [query, setQuery] = useState("");
+  const [dateRange, setDateRange] = useState("any");
+  const [actionFilter, setActionFilter] = useState("any");
+  const [hits, setHits] = useState<ChatSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    getTrackedMembers().then(res => {
+      setMembers(res.trackedMembers);
+      // The server refuses IDs of members who are no longer tracked
+      if (userId && !res.trackedMembers.some(m => m.linearUserId === userId)) onUserChange(undefined);
+    }).catch(() => { /* identity picker stays empty */ });
+  }, []);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setHits([]);
+      return;
+    }
+    const days = DATE_RANGES.find(r => r.value === dateRange)?.days;
+    const approvedActions = ACTION_FILTERS.find(f => f.value === actionFilter)?.approvedActions;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const res = await searchChat(q, {
+          from: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+          approvedActions,
+        });
+        if (!cancelled) setHits(res.hits);
+      } catch {
+        if (!cancelled) setHits([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, dateRange, actionFilter, userId]);
+
+  const titleFor = (hit: ChatSearchHit) => hit.conversationTitle || "Untitled";
+
+  return (
+    <Box sx={{
+      width: 260, flexShrink: 0, display: "flex", flexDirection: "column",
+      borderRight: "1px solid rgba(255,255,255,0.08)", py: 1.5, px: 1,
+    }}>
+      <TextField
+        select
+        size="small"
+        label="You are"
+        value={userId ?? ""}
+        onChange={e => onUserChange(e.target.value || undefined)}
+        SelectProps={{ displayEmpty: true }}
+        InputLabelProps={{ shrink: true }}
+        sx={{ mb: 1.5, "& .MuiSelect-select": { fontSize: "0.8rem" } }}
+      >
+        <MenuItem value="" sx={{ fontSize: "0.8rem" }}><em>Nobody (team conversations only)</em></MenuItem>
+        {members.map(m => <MenuItem key={m.linearUserId} value={m.linearUserId} sx={{ fontSize: "0.8rem" }}>{m.name}</MenuItem>)}
+      </TextField>
+      <Button size="small" variant="outlined" startIcon={<AddIcon />} onClick={onNew} sx={{ mb: 1.5 }}>
+        New conversation
+      </Button>
+      <TextField
+        size="small"
+        placeholder="Search chats..."
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        InputProps={{ startAdornment: <InputAdornment position="start"><SearchIcon sx={{ fontSize: 18 }} /></InputAdornment> }}
+      />
+      {query.trim() && (
+        <Box sx={{ display: "flex", gap: 1, mt: 1 }}>
+          <TextField select size="small" value={dateRange} onChange={e => setDateRange(e.target.value)} sx={{ flex: 1, "& .MuiSelect-select": { fontSize: "0.75rem" } }}>
+            {DATE_RANGES.map(r => <MenuItem key={r.value} value={r.value} sx={{ fontSize: "0.8rem" }}>{r.label}</MenuItem>)}
+          </TextField>
+          <TextField select size="small" value={actionFilter} onChange={e => setActionFilter(e.target.value)} sx={{ flex: 1, "& .MuiSelect-select": { fontSize: "0.75rem" } }}>
+            {ACTION_FILTERS.map(f => <MenuItem key={f.value} value={f.value} sx={{ fontSize: "0.8rem" }}>{f.label}</MenuItem>)}
+          </TextField>
+        </Box>
+      )}
+
+      <Box sx={{ flexGrow: 1, overflow: "auto", mt: 1 }}>
+        {query.trim() ? (
+          <List dense disablePadding>
+            {!searching && hits.length === 0 && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: "block", px: 1, py: 1 }}>
+                No matches
+              </Typography>
+            )}
+            {hits.map(hit => (
+              <ListItemButton key={hit.messageId} onClick={() => onOpenHit(hit)} sx={{ borderRadius: 1, display: "block", py: 0.75 }}>
+                <Typography variant="body2" noWrap sx={{ fontSize: "0.8rem", fontWeight: 500 }}>
+                  {titleFor(hit)}
+                </Typography>
+                <Snippet text={hit.snippet} highlights={hit.highlights} />
+                <Typography variant="caption" sx={{ color: "text.disabled", fontSize: "0.7rem" }}>
+                  {new Date(hit.createdAt).toLocaleDateString()} · {hit.role}{hit.onActiveBranch ? "" : " · other branch"}
+                </Typography>
+              </ListItemButton>
+            ))}
+          </List>
+        ) : (
+          <List dense disablePadding>
+            {groupConversations(conversations).map(group => (
+              <Box key={group.label} sx={{ mb: 1 }}>
+                <Typography variant="overline" sx={{ color: "text.secondary", px: 1, fontSize: "0.65rem" }}>
+                  {group.label}
+                </Typography>
+                {group.items.map(c => (
+                  <ListItemButton
+                    key={c.id}
+                    selected={c.id === activeConvId}
+                    onClick={() => onSelect(c.id)}
+                    sx={{ borderRadius: 1, gap: 0.75 }}
+                  >
+                    <Typography variant="body2" noWrap sx={{ fontSize: "0.8rem", flex: 1 }}>{c.title}</Typography>
+                    {c.visibility === "private" && <LockIcon titleAccess="Private" sx={{ fontSize: 12, color: "text.disabled" }} />}
+                  </ListItemButton>
+                ))}
+              </Box>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Box>
+  );
+}
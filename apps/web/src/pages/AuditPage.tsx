@@ -0,0 +1,222 @@
+import { Fragment, useEffect, useState, useCallback } from "react";
+import {
+  Box, Typography, Paper, Table, TableBody, TableCell, TableContainer,
+  TableHead, TableRow, Chip, TextField, MenuItem, Button, Collapse, IconButton,
+  CircularProgress,
+} from "@mui/material";
+import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
+import KeyboardArrowUpIcon from "@mui/icons-material/KeyboardArrowUp";
+import DownloadIcon from "@mui/icons-material/Download";
+import type { ActionAuditEntry, ActionCategory, ActionState } from "@linearapp/shared";
+import { actionAuditExportUrl, getActionAudit, type ActionAuditQuery } from "../api";
+
+const STATE_CHIPS: Record<ActionState, { label: string; color: "default" | "primary" | "success" | "error" | "warning" | "info" }> = {
+  proposed: { label: "Proposed", color: "info" },
+  approved: { label: "Approved", color: "primary" },
+  executing: { label: "Executing", color: "primary" },
+  succeeded: { label: "Succeeded", color: "success" },
+  failed: { label: "Failed", color: "error" },
+  declined: { label: "Declined", color: "default" },
+  reverted: { label: "Undone", color: "warning" },
+  expired: { label: "Expired", color: "default" },
+};
+
+const CATEGORIES: Array<{ value: ActionCategory; label: string }> = [
+  { value: "linear", label: "Linear" },
+  { value: "okr", label: "OKR" },
+  { value: "internal", label: "Internal" },
+];
+
+type Filters = {
+  state: ActionState | "";
+  toolName: string;
+  category: ActionCategory | "";
+  fromDate: string;
+  toDate: string;
+  issue: string;
+};
+
+const EMPTY_FILTERS: Filters = { state: "", toolName: "", category: "", fromDate: "", toDate: "", issue: "" };
+
+/** Date inputs are local days; the API takes instants */
+function toQuery(f: Filters): ActionAuditQuery {
+  return {
+    states: f.state ? [f.state] : undefined,
+    toolName: f.toolName.trim() || undefined,
+    category: f.category || undefined,
+    from: f.fromDate ? new Date(`${f.fromDate}T00:00:00`).toISOString() : undefined,
+    to: f.toDate ? new Date(`${f.toDate}T23:59:59.999`).toISOString() : undefined,
+    issue: f.issue.trim() || undefined,
+  };
+}
+
+// --- Timeline of one action ---
+function Timeline({ entry }: { entry: ActionAuditEntry }) {
+  return (
+    <Box sx={{ py: 1, pl: 6 }}>
+      {entry.conversationTitle && (
+        <Typography variant="caption" sx={{ color: "text.secondary", display: "block", mb: 0.5 }}>
+          Conversation: {entry.conversationTitle}
+        </Typography>
+      )}
+      {entry.transitions.map((t, i) => (
+        <Typography key={i} variant="body2" sx={{ fontSize: "0.8rem" }}>
+          <Box component="span" sx={{ color: "text.secondary", mr: 1 }}>{new Date(t.at).toLocaleString()}</Box>
+          {t.from ? `${STATE_CHIPS[t.from].label} → ` : ""}{STATE_CHIPS[t.to].label}
+          {(t.actorName ?? t.actorId) && <Box component="span" sx={{ color: "text.secondary" }}> by {t.actorName ?? t.actorId}</Box>}
+          {t.detail && <Box component="span" sx={{ color: "text.secondary" }}> — {t.detail}</Box>}
+        </Typography>
+      ))}
+      {entry.resultUrl && (
+        <Typography variant="body2" sx={{ fontSize: "0.8rem", mt: 0.5 }}>
+          <a href={entry.resultUrl} target="_blank" rel="noreferrer">Open in Linear</a>
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [actions, setActions] = useState<ActionAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchActions = useCallback(async (f: Filters) => {
+    try {
+      setLoading(true);
+      const res = await getActionAudit(toQuery(f));
+      setActions(res.actions);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load actions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Text filters wait for a pause in typing
+  useEffect(() => {
+    const timer = setTimeout(() => fetchActions(filters), 250);
+    return () => clearTimeout(timer);
+  }, [filters, fetchActions]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }));
+
+  const approverOf = (entry: ActionAuditEntry) => {
+    const approval = entry.transitions.find(t => t.to === "approved");
+    return approval ? approval.actorName ?? approval.actorId ?? "—" : "—";
+  };
+
+  return (
+    <Box sx={{ p: 3, maxWidth: 1200, mx: "auto" }}>
+      <Typography variant="h5" sx={{ mb: 0.5, fontWeight: 600 }}>
+        Action Audit
+      </Typography>
+      <Typography variant="body2" sx={{ mb: 3, color: "text.secondary" }}>
+        Every change the assistant proposed or made, across all conversations. Click a row for its timeline.
+      </Typography>
+
+      <Box sx={{ display: "flex", gap: 1.5, flexWrap: "wrap", alignItems: "center", mb: 2 }}>
+        <TextField select size="small" label="State" value={filters.state} onChange={e => setFilter("state", e.target.value as Filters["state"])} sx={{ width: 150 }}>
+          <MenuItem value="">Any</MenuItem>
+          {(Object.keys(STATE_CHIPS) as ActionState[]).map(s => <MenuItem key={s} value={s}>{STATE_CHIPS[s].label}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label="Category" value={filters.category} onChange={e => setFilter("category", e.target.value as Filters["category"])} sx={{ width: 140 }}>
+          <MenuItem value="">Any</MenuItem>
+          {CATEGORIES.map(c => <MenuItem key={c.value} value={c.value}>{c.label}</MenuItem>)}
+        </TextField>
+        <TextField size="small" label="Tool" placeholder="e.g. update_issue" value={filters.toolName} onChange={e => setFilter("toolName", e.target.value)} sx={{ width: 170 }} />
+        <TextField size="small" label="Issue" placeholder="e.g. EAM-123" value={filters.issue} onChange={e => setFilter("issue", e.target.value)} sx={{ width: 140 }} />
+        <TextField size="small" type="date" label="From" value={filters.fromDate} onChange={e => setFilter("fromDate", e.target.value)} InputLabelProps={{ shrink: true }} />
+        <TextField size="small" type="date" label="To" value={filters.toDate} onChange={e => setFilter("toDate", e.target.value)} InputLabelProps={{ shrink: true }} />
+        <Box sx={{ flexGrow: 1 }} />
+        <Button size="small" startIcon={<DownloadIcon />} href={actionAuditExportUrl(toQuery(filters), "csv")}>CSV</Button>
+        <Button size="small" startIcon={<DownloadIcon />} href={actionAuditExportUrl(toQuery(filters), "json")}>JSON</Button>
+      </Box>
+
+      {error && <Typography color="error" sx={{ mb: 2 }}>{error}</Typography>}
+
+      <TableContainer component={Paper} sx={{ bgcolor: "background.paper" }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600, width: 40 }}></TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>When</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Action</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Tool</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Issues</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>State</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Approved by</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && actions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} sx={{ textAlign: "center", py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : actions.map(entry => {
+              const open = expanded === entry.id;
+              return (
+                <Fragment key={entry.id}>
+                  <TableRow
+                    hover
+                    onClick={() => setExpanded(open ? null : entry.id)}
+                    sx={{ cursor: "pointer", "& td": open ? { borderBottom: 0 } : {} }}
+                  >
+                    <TableCell>
+                      <IconButton size="small">
+                        {open ? <KeyboardArrowUpIcon fontSize="small" /> : <KeyboardArrowDownIcon fontSize="small" />}
+                      </IconButton>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ whiteSpace: "nowrap" }}>{new Date(entry.createdAt).toLocaleString()}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{entry.description}</Typography>
+                      {entry.error && (
+                        <Typography variant="caption" color="error">{entry.error}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ fontFamily: "monospace", fontSize: "0.8rem" }}>{entry.toolName}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{entry.affectedIssues.join(", ") || "—"}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={STATE_CHIPS[entry.state].label} size="small" color={STATE_CHIPS[entry.state].color} variant="outlined" />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{approverOf(entry)}</Typography>
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={7} sx={{ py: 0, ...(open ? {} : { borderBottom: 0 }) }}>
+                      <Collapse in={open} unmountOnExit>
+                        <Timeline entry={entry} />
+                      </Collapse>
+                    </TableCell>
+                  </TableRow>
+                </Fragment>
+              );
+            })}
+            {!loading && actions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} sx={{ textAlign: "center", py: 4 }}>
+                  <Typography variant="body2" sx={{ color: "text.secondary" }}>
+                    No actions match these filters.
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
@@ -2,23 +2,46 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { useSearchParams } from "react-router-dom";
 import {
   Box, Typography, TextField, IconButton, Paper, Chip, Button,
-  CircularProgress, Fade,
+  CircularProgress, Fade, FormControlLabel, Switch, Tooltip, Menu, MenuItem, Checkbox,
 } from "@mui/material";
 import SendIcon from "@mui/icons-material/Send";
+import StopIcon from "@mui/icons-material/Stop";
 import SmartToyIcon from "@mui/icons-material/SmartToy";
 import BuildIcon from "@mui/icons-material/Build";
-import type { ActionProposal, ActionState, ChatConversation, ChatMessage, ChatStreamEvent } from "@linearapp/shared";
+import EditIcon from "@mui/icons-material/Edit";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import DownloadIcon from "@mui/icons-material/Download";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+import LocalOfferIcon from "@mui/icons-material/LocalOffer";
+import PushPinIcon from "@mui/icons-material/PushPin";
+import PushPinOutlinedIcon from "@mui/icons-material/PushPinOutlined";
+import LockIcon from "@mui/icons-material/Lock";
+import GroupsIcon from "@mui/icons-material/Groups";
+import type {
+  ActionProposal, ActionState, ChatConversation, ChatMessage, ChatSearchHit, ChatStreamEvent, ConversationTag,
+  ConversationVisibility,
+} from "@linearapp/shared";
 import {
   getConversations, createConversation, getMessages,
-  streamChat, approveAction, declineAction, retryAction,
-  getConversationProposals,
+  streamChat, continueChat, approveAction, declineAction, retryAction, undoAction,
+  getConversationProposals, getActiveChatRun, attachChatRun, cancelChatRun, cancelConversationRun,
+  editChatMessage, regenerateChatMessage, switchChatBranch,
+  conversationExportUrl, importConversation, updateConversation, getCurrentUserId, setCurrentUserId,
+  type ChatEventHandler,
 } from "../api";
 import ApprovalCard from "../components/ApprovalCard";
+import ChatSidebar, { TAG_LABELS } from "../components/ChatSidebar";
 
 // ─── Approve All Button ───
 
 function ApproveAllButton({ proposals, onApproveAll }: { proposals: ActionProposal[]; onApproveAll: (ids: string[]) => void }) {
-  const pendingIds = proposals.filter(p => p.state === "proposed").map(p => p.id);
+  // Proposals whose policy wants typed confirmation or a second approver are approved one by one
+  const pendingIds = proposals
+    .filter(p => p.state === "proposed" && !p.stale)
+    .filter(p => p.policy?.effect !== "require_confirmation" && p.policy?.effect !== "require_second_approver")
+    .map(p => p.id);
   if (pendingIds.length < 2) return null;
   return (
     <Button
@@ -32,16 +55,143 @@ function ApproveAllButton({ proposals, onApproveAll }: { proposals: ActionPropos
   );
 }
 
+// ─── Conversation Title ───
+
+/** Header title with inline rename and a tag picker */
+function ConversationTitle({ conversation, onUpdate }: {
+  conversation: ChatConversation;
+  onUpdate: (data: { title?: string; tags?: ConversationTag[] }) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(conversation.title);
+  const [tagMenu, setTagMenu] = useState<HTMLElement | null>(null);
+
+  const handleSave = () => {
+    const title = draft.trim();
+    setEditing(false);
+    if (title && title !== conversation.title) onUpdate({ title });
+  };
+
+  const toggleTag = (tag: ConversationTag) => {
+    onUpdate({ tags: conversation.tags.includes(tag) ? conversation.tags.filter(t => t !== tag) : [...conversation.tags, tag] });
+  };
+
+  return (
+    <Box sx={{ display: "flex", alignItems: "center", gap: 0.5, minWidth: 0 }}>
+      {editing ? (
+        <TextField
+          size="small"
+          variant="standard"
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={handleSave}
+          onKeyDown={e => {
+            if (e.key === "Enter") handleSave();
+            if (e.key === "Escape") { setDraft(conversation.title); setEditing(false); }
+          }}
+        />
+      ) : (
+        <Typography
+          variant="subtitle1"
+          fontWeight={600}
+          noWrap
+          title="Double-click to rename"
+          onDoubleClick={() => { setDraft(conversation.title); setEditing(true); }}
+          sx={{ cursor: "text" }}
+        >
+          {conversation.title}
+        </Typography>
+      )}
+      {conversation.tags.map(t => (
+        <Chip key={t} label={TAG_LABELS[t]} size="small" variant="outlined" sx={{ height: 20, fontSize: "0.65rem" }} />
+      ))}
+      <IconButton size="small" aria-label="Edit tags" onClick={e => setTagMenu(e.currentTarget)}>
+        <LocalOfferIcon sx={{ fontSize: 14 }} />
+      </IconButton>
+      <Menu anchorEl={tagMenu} open={!!tagMenu} onClose={() => setTagMenu(null)}>
+        {(Object.keys(TAG_LABELS) as ConversationTag[]).map(t => (
+          <MenuItem key={t} dense onClick={() => toggleTag(t)}>
+            <Checkbox size="small" checked={conversation.tags.includes(t)} sx={{ p: 0.5, mr: 1 }} />
+            {TAG_LABELS[t]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
+
+// ─── Sharing Controls ───
+
+/** Pin and private/team toggles, shown to the conversation's owner */
+function SharingControls({ conversation, onUpdate }: {
+  conversation: ChatConversation;
+  onUpdate: (data: { visibility?: ConversationVisibility; pinned?: boolean }) => void;
+}) {
+  const isPrivate = conversation.visibility === "private";
+  return (
+    <Box sx={{ display: "flex", alignItems: "center" }}>
+      <Tooltip title={conversation.pinned ? "Unpin" : "Pin to the top of the sidebar"}>
+        <IconButton size="small" aria-label={conversation.pinned ? "Unpin" : "Pin"} onClick={() => onUpdate({ pinned: !conversation.pinned })}>
+          {conversation.pinned ? <PushPinIcon sx={{ fontSize: 16 }} /> : <PushPinOutlinedIcon sx={{ fontSize: 16 }} />}
+        </IconButton>
+      </Tooltip>
+      <Tooltip title={isPrivate ? "Private: only you can see it. Click to share with the team" : "Shared with the team. Click to make private"}>
+        <span>
+          <IconButton
+            size="small"
+            aria-label={isPrivate ? "Share with team" : "Make private"}
+            disabled={!conversation.ownerId}
+            onClick={() => onUpdate({ visibility: isPrivate ? "team" : "private" })}
+          >
+            {isPrivate ? <LockIcon sx={{ fontSize: 16 }} /> : <GroupsIcon sx={{ fontSize: 16 }} />}
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+  );
+}
+
+// ─── Branch Switcher ───
+
+/** "‹ 2/3 ›" control for messages that were edited or regenerated */
+function BranchSwitcher({ message, disabled, onSwitch }: {
+  message: ChatMessage;
+  disabled: boolean;
+  onSwitch: (messageId: string) => void;
+}) {
+  const siblings = message.siblingIds;
+  if (!siblings || siblings.length < 2) return null;
+  const index = siblings.indexOf(message.id);
+  return (
+    <Box sx={{ display: "inline-flex", alignItems: "center" }}>
+      <IconButton size="small" aria-label="Previous version" disabled={disabled || index <= 0} onClick={() => onSwitch(siblings[index - 1])}>
+        <ChevronLeftIcon sx={{ fontSize: 16 }} />
+      </IconButton>
+      <Typography variant="caption" color="text.secondary">
+        {index + 1}/{siblings.length}
+      </Typography>
+      <IconButton size="small" aria-label="Next version" disabled={disabled || index >= siblings.length - 1} onClick={() => onSwitch(siblings[index + 1])}>
+        <ChevronRightIcon sx={{ fontSize: 16 }} />
+      </IconButton>
+    </Box>
+  );
+}
+
 // ─── Message Components ───
 
-function AssistantMessage({ content, toolCalls, proposals, onApprove, onDecline, onRetry }: {
-  content: string;
-  toolCalls?: ChatMessage["toolCalls"];
+function AssistantMessage({ message, proposals, disabled, onApprove, onDecline, onRetry, onUndo, onRegenerate, onSwitchBranch }: {
+  message: ChatMessage;
   proposals?: ActionProposal[];
-  onApprove: (id: string) => Promise<boolean>;
+  disabled: boolean;
+  onApprove: (id: string, confirmation?: string) => Promise<boolean>;
   onDecline: (id: string) => void;
   onRetry: (id: string) => void;
+  onUndo: (id: string) => Promise<string | undefined>;
+  onRegenerate: (messageId: string) => void;
+  onSwitchBranch: (messageId: string) => void;
 }) {
+  const { content, toolCalls, cancelled } = message;
   const handleApproveAll = useCallback(async (ids: string[]) => {
     for (const id of ids) {
       const success = await onApprove(id);
@@ -75,6 +225,19 @@ function AssistantMessage({ content, toolCalls, proposals, onApprove, onDecline,
         <Typography variant="body2" sx={{ whiteSpace: "pre-wrap", lineHeight: 1.7, color: "text.primary" }}>
           {content}
         </Typography>
+        {cancelled && (
+          <Typography variant="caption" sx={{ color: "text.secondary", fontStyle: "italic" }}>
+            Stopped
+          </Typography>
+        )}
+        <Box sx={{ display: "flex", alignItems: "center", mt: 0.5, ml: -1 }}>
+          <BranchSwitcher message={message} disabled={disabled} onSwitch={onSwitchBranch} />
+          {message.parentId && (
+            <IconButton size="small" aria-label="Regenerate reply" disabled={disabled} onClick={() => onRegenerate(message.id)}>
+              <RefreshIcon sx={{ fontSize: 16 }} />
+            </IconButton>
+          )}
+        </Box>
         {proposals && proposals.length > 0 && (
           <Box sx={{ mt: 1.5, display: "flex", flexDirection: "column", gap: 1 }}>
             <ApproveAllButton proposals={proposals} onApproveAll={handleApproveAll} />
@@ -85,6 +248,7 @@ function AssistantMessage({ content, toolCalls, proposals, onApprove, onDecline,
                 onApprove={onApprove}
                 onDecline={onDecline}
                 onRetry={onRetry}
+                onUndo={onUndo}
               />
             ))}
           </Box>
@@ -94,17 +258,66 @@ function AssistantMessage({ content, toolCalls, proposals, onApprove, onDecline,
   );
 }
 
-function UserMessage({ content }: { content: string }) {
+function UserMessage({ message, disabled, onEdit, onSwitchBranch }: {
+  message: ChatMessage;
+  disabled: boolean;
+  onEdit: (messageId: string, content: string) => void;
+  onSwitchBranch: (messageId: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const handleSave = () => {
+    const content = draft.trim();
+    setEditing(false);
+    if (content && content !== message.content) onEdit(message.id, content);
+  };
+
+  if (editing) {
+    return (
+      <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-end", gap: 1, mb: 3, maxWidth: 720, ml: "auto" }}>
+        <TextField
+          fullWidth
+          multiline
+          maxRows={8}
+          size="small"
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSave(); } }}
+          sx={{ maxWidth: "80%" }}
+        />
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <Button size="small" color="inherit" onClick={() => { setDraft(message.content); setEditing(false); }}>Cancel</Button>
+          <Button size="small" variant="contained" disabled={!draft.trim()} onClick={handleSave}>Send</Button>
+        </Box>
+      </Box>
+    );
+  }
+
   return (
-    <Box sx={{ display: "flex", justifyContent: "flex-end", mb: 3, maxWidth: 720, ml: "auto" }}>
+    <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-end", mb: 3, maxWidth: 720, ml: "auto", "&:hover .edit-message": { opacity: 1 } }}>
       <Paper sx={{
         px: 2, py: 1.25, bgcolor: "primary.main", color: "white",
         borderRadius: "16px 16px 4px 16px", maxWidth: "80%",
       }}>
         <Typography variant="body2" sx={{ whiteSpace: "pre-wrap", lineHeight: 1.6 }}>
-          {content}
+          {message.content}
         </Typography>
       </Paper>
+      <Box sx={{ display: "flex", alignItems: "center", mt: 0.25 }}>
+        <IconButton
+          className="edit-message"
+          size="small"
+          aria-label="Edit message"
+          disabled={disabled}
+          onClick={() => { setDraft(message.content); setEditing(true); }}
+          sx={{ opacity: 0, transition: "opacity 150ms" }}
+        >
+          <EditIcon sx={{ fontSize: 14 }} />
+        </IconButton>
+        <BranchSwitcher message={message} disabled={disabled} onSwitch={onSwitchBranch} />
+      </Box>
     </Box>
   );
 }
@@ -113,7 +326,7 @@ function StreamingMessage({ content, tools, proposals, onApprove, onDecline, onR
   content: string;
   tools: string[];
   proposals?: ActionProposal[];
-  onApprove: (id: string) => Promise<boolean>;
+  onApprove: (id: string, confirmation?: string) => Promise<boolean>;
   onDecline: (id: string) => void;
   onRetry: (id: string) => void;
 }) {
@@ -168,6 +381,9 @@ function StreamingMessage({ content, tools, proposals, onApprove, onDecline, onR
   );
 }
 
+const TITLE_POLL_ATTEMPTS = 5;
+const TITLE_POLL_INTERVAL_MS = 1500;
+
 const SUGGESTIONS = [
   "Who is overloaded right now?",
   "Give me a team workload summary",
@@ -177,6 +393,7 @@ const SUGGESTIONS = [
 
 export default function ChatPage() {
   const [searchParams, setSearchParams] = useSearchParams();
+  const [userId, setUserId] = useState(getCurrentUserId);
   const [conversations, setConversations] = useState<ChatConversation[]>([]);
   const [activeConvId, setActiveConvId] = useState<string | null>(searchParams.get("c"));
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -187,9 +404,19 @@ export default function ChatPage() {
   const [proposals, setProposals] = useState<Map<string, ActionProposal>>(new Map());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const abortRef = useRef<AbortController | null>(null);
+  // Server-side run behind the current stream; used to stop it
+  const runIdRef = useRef<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   // Track the message ID for the current streaming response so proposals can be matched
   const streamingMessageIdRef = useRef<string>(crypto.randomUUID());
+  // Resume the assistant automatically once every proposal in its latest turn is decided
+  const [autoContinue, setAutoContinue] = useState(true);
+  // Assistant message whose proposals the user acted on in this session (never auto-continue on load)
+  const [decidedMessageId, setDecidedMessageId] = useState<string | null>(null);
+  const proposalsRef = useRef(proposals);
+  proposalsRef.current = proposals;
 
   const loadConversations = useCallback(async () => {
     try {
@@ -198,6 +425,18 @@ export default function ChatPage() {
     } catch { /* ignore */ }
   }, []);
 
+  /** Titling runs after a reply finishes; refresh the list until the conversation has its title */
+  const awaitTitle = useCallback(async (convId: string) => {
+    for (let attempt = 0; attempt < TITLE_POLL_ATTEMPTS; attempt++) {
+      if (attempt > 0) await new Promise(resolve => setTimeout(resolve, TITLE_POLL_INTERVAL_MS));
+      try {
+        const res = await getConversations();
+        setConversations(res.conversations);
+        if (res.conversations.find(c => c.id === convId)?.titleSource !== "default") return;
+      } catch { return; }
+    }
+  }, []);
+
   const loadMessages = useCallback(async (convId: string) => {
     try {
       const res = await getMessages(convId);
@@ -234,6 +473,7 @@ export default function ChatPage() {
     if (activeConvId) {
       loadMessages(activeConvId);
       loadProposals(activeConvId);
+      reattachRun(activeConvId);
     } else {
       setMessages([]);
       setProposals(new Map());
@@ -246,28 +486,40 @@ export default function ChatPage() {
 
   // ─── Action Handlers ───
 
-  const handleApprove = useCallback(async (proposalId: string): Promise<boolean> => {
+  const handleApprove = useCallback(async (proposalId: string, confirmation?: string): Promise<boolean> => {
+    // Policies can turn an approval down or need a second one; those stay proposed
+    const gated = ["require_confirmation", "require_second_approver"].includes(proposalsRef.current.get(proposalId)?.policy?.effect ?? "");
     // Optimistic update: set state to executing immediately
-    setProposals(prev => {
-      const next = new Map(prev);
-      const existing = next.get(proposalId);
-      if (existing) next.set(proposalId, { ...existing, state: "executing" as ActionState, updatedAt: new Date().toISOString() });
-      return next;
-    });
+    if (!gated) {
+      setProposals(prev => {
+        const next = new Map(prev);
+        const existing = next.get(proposalId);
+        if (existing) next.set(proposalId, { ...existing, state: "executing" as ActionState, updatedAt: new Date().toISOString() });
+        return next;
+      });
+    }
     try {
-      const res = await approveAction(proposalId);
+      const res = await approveAction(proposalId, confirmation);
       setProposals(prev => new Map(prev).set(proposalId, res.proposal));
+      setDecidedMessageId(res.proposal.messageId);
       return res.proposal.state === "succeeded";
     } catch (error) {
+      const message = error instanceof Error ? error.message : "Approve failed";
       setProposals(prev => {
         const next = new Map(prev);
         const existing = next.get(proposalId);
-        if (existing) next.set(proposalId, { ...existing, state: "failed" as ActionState, error: error instanceof Error ? error.message : "Approve failed" });
+        if (existing) {
+          next.set(proposalId, gated
+            ? { ...existing, error: message, updatedAt: new Date().toISOString() }
+            : { ...existing, state: "failed" as ActionState, error: message });
+        }
         return next;
       });
+      // It may have expired or gone back to review with a fresh preview; show what it is now
+      if (!gated && activeConvId) loadProposals(activeConvId);
       return false;
     }
-  }, []);
+  }, [activeConvId, loadProposals]);
 
   const handleDecline = useCallback(async (proposalId: string) => {
     setProposals(prev => {
@@ -276,8 +528,10 @@ export default function ChatPage() {
       if (existing) next.set(proposalId, { ...existing, state: "declined" as ActionState, updatedAt: new Date().toISOString() });
       return next;
     });
+    const messageId = proposalsRef.current.get(proposalId)?.messageId;
     try {
       await declineAction(proposalId);
+      if (messageId) setDecidedMessageId(messageId);
     } catch { /* decline is best-effort */ }
   }, []);
 
@@ -301,6 +555,19 @@ export default function ChatPage() {
     }
   }, []);
 
+  /** Revert a succeeded action; returns the error to show on the card, if any */
+  const handleUndo = useCallback(async (proposalId: string): Promise<string | undefined> => {
+    try {
+      const res = await undoAction(proposalId);
+      setProposals(prev => new Map(prev).set(proposalId, res.proposal));
+      return undefined;
+    } catch (error) {
+      // A partial undo narrows what is left to revert; refresh so the card reflects it
+      if (activeConvId) loadProposals(activeConvId);
+      return error instanceof Error ? error.message : "Undo failed";
+    }
+  }, [activeConvId, loadProposals]);
+
   // ─── Send Message & Stream ───
 
   const handleSend = async (text?: string) => {
@@ -324,9 +591,15 @@ export default function ChatPage() {
     };
     setMessages(prev => [...prev, userMsg]);
     setInput("");
+    startStream(convId, onEvent => streamChat(convId!, userMsg.content, onEvent));
+  };
+
+  /** Consume one assistant turn from an SSE stream, appending the final message when done */
+  const startStream = (convId: string, open: (onEvent: ChatEventHandler) => AbortController) => {
     setStreaming(true);
     setStreamContent("");
     setActiveTools([]);
+    runIdRef.current = null;
 
     // Generate a streaming message ID early so SSE proposals can be matched
     const currentStreamMsgId = crypto.randomUUID();
@@ -335,8 +608,11 @@ export default function ChatPage() {
     let fullContent = "";
     const toolCalls: any[] = [];
 
-    abortRef.current = streamChat(convId, userMsg.content, (event: ChatStreamEvent) => {
+    abortRef.current = open((event: ChatStreamEvent) => {
       switch (event.type) {
+        case "run_started":
+          runIdRef.current = event.runId;
+          break;
         case "delta":
           fullContent += event.content;
           setStreamContent(fullContent);
@@ -369,29 +645,34 @@ export default function ChatPage() {
           });
           break;
         case "done":
+          abortRef.current = null;
           setStreaming(false);
           setStreamContent("");
           setMessages(prev => [
             ...prev,
             {
               id: event.messageId,
-              conversationId: convId!,
+              conversationId: convId,
               role: "assistant",
               content: fullContent,
               toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
               createdAt: new Date().toISOString(),
             },
           ]);
-          loadConversations();
+          // The server copy carries branch links and marks proposals left on other branches as stale
+          loadMessages(convId);
+          loadProposals(convId);
+          awaitTitle(convId);
           break;
         case "error":
+          abortRef.current = null;
           setStreaming(false);
           setStreamContent("");
           setMessages(prev => [
             ...prev,
             {
               id: crypto.randomUUID(),
-              conversationId: convId!,
+              conversationId: convId,
               role: "assistant",
               content: `Error: ${event.error}`,
               createdAt: new Date().toISOString(),
@@ -402,6 +683,134 @@ export default function ChatPage() {
     });
   };
 
+  // ─── Branching ───
+
+  /** Send an edited version of an earlier user message; everything after it moves to a new branch */
+  const handleEdit = (messageId: string, content: string) => {
+    if (!activeConvId || streaming) return;
+    const convId = activeConvId;
+    setMessages(prev => [
+      ...prev.slice(0, prev.findIndex(m => m.id === messageId)),
+      { id: crypto.randomUUID(), conversationId: convId, role: "user", content, createdAt: new Date().toISOString() },
+    ]);
+    startStream(convId, onEvent => editChatMessage(convId, messageId, content, onEvent));
+  };
+
+  const handleRegenerate = (messageId: string) => {
+    if (!activeConvId || streaming) return;
+    const convId = activeConvId;
+    setMessages(prev => prev.slice(0, prev.findIndex(m => m.id === messageId)));
+    startStream(convId, onEvent => regenerateChatMessage(convId, messageId, onEvent));
+  };
+
+  const handleSwitchBranch = async (messageId: string) => {
+    if (!activeConvId || streaming) return;
+    try {
+      const res = await switchChatBranch(activeConvId, messageId);
+      setMessages(res.messages);
+      loadProposals(activeConvId);
+    } catch { /* stay on the current branch */ }
+  };
+
+  /** Open a search hit; a hit on another branch switches the conversation to that branch first */
+  const handleOpenHit = async (hit: ChatSearchHit) => {
+    if (streaming) return;
+    if (!hit.onActiveBranch) {
+      try {
+        const res = await switchChatBranch(hit.conversationId, hit.messageId);
+        if (hit.conversationId === activeConvId) {
+          setMessages(res.messages);
+          loadProposals(hit.conversationId);
+        }
+      } catch { /* open it on its current branch */ }
+    }
+    if (hit.conversationId !== activeConvId) setSearchParams({ c: hit.conversationId });
+  };
+
+  /** Manual rename, retag, pin or share; a rename or retag stops automatic titling */
+  const handleUpdateConversation = async (data: {
+    title?: string; tags?: ConversationTag[]; visibility?: ConversationVisibility; pinned?: boolean;
+  }) => {
+    if (!activeConvId) return;
+    try {
+      const res = await updateConversation(activeConvId, data);
+      setConversations(prev => prev.map(c => c.id === res.conversation.id ? res.conversation : c));
+    } catch { /* keep the previous title and tags */ }
+  };
+
+  /** Switch identity; leave the open conversation if it was someone else's private one */
+  const handleUserChange = async (id: string | undefined) => {
+    setCurrentUserId(id);
+    setUserId(id);
+    try {
+      const res = await getConversations();
+      setConversations(res.conversations);
+      if (activeConvId && !res.conversations.some(c => c.id === activeConvId)) setSearchParams({ new: "1" });
+    } catch { /* ignore */ }
+  };
+
+  // ─── Export / Import ───
+
+  /** Restore a JSON export as a new conversation and open it */
+  const handleImport = async (file: File) => {
+    try {
+      setImportError(null);
+      const res = await importConversation(JSON.parse(await file.text()));
+      setConversations(prev => [res.conversation, ...prev]);
+      setSearchParams({ c: res.conversation.id });
+    } catch (error) {
+      setImportError(`Import failed: ${error instanceof Error ? error.message : "invalid file"}`);
+    }
+  };
+
+  /** After a reload, pick up a generation that is still running and replay what was missed */
+  const reattachRun = async (convId: string) => {
+    try {
+      const { run } = await getActiveChatRun(convId);
+      // Skip if this page already started a stream for the conversation
+      if (!run || abortRef.current) return;
+      startStream(convId, onEvent => attachChatRun(run.id, 0, onEvent));
+    } catch { /* nothing to reattach */ }
+  };
+
+  /** Stop the in-flight reply; the server stops generating and saves the partial text */
+  const handleStop = () => {
+    if (!abortRef.current || !activeConvId) return;
+    const cancel = runIdRef.current ? cancelChatRun(runIdRef.current) : cancelConversationRun(activeConvId);
+    cancel.catch(() => { /* run may have just finished */ });
+    abortRef.current.abort();
+    abortRef.current = null;
+    setStreaming(false);
+    setStreamContent("");
+    setActiveTools([]);
+    setMessages(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        conversationId: activeConvId,
+        role: "assistant",
+        content: streamContent,
+        cancelled: true,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+  };
+
+  // ─── Auto-continue after approvals ───
+
+  useEffect(() => {
+    if (!autoContinue || streaming || !activeConvId || !decidedMessageId) return;
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== "assistant" || last.id !== decidedMessageId) return;
+    const pending = Array.from(proposals.values())
+      .filter(p => p.messageId === decidedMessageId)
+      .some(p => p.state === "proposed" || p.state === "approved" || p.state === "executing");
+    if (pending) return;
+    setDecidedMessageId(null);
+    const convId = activeConvId;
+    startStream(convId, onEvent => continueChat(convId, onEvent));
+  }, [proposals, messages, streaming, activeConvId, autoContinue, decidedMessageId]);
+
   // ─── Helpers for rendering proposals per message ───
 
   const getProposalsForMessage = (messageId: string) =>
@@ -411,121 +820,202 @@ export default function ChatPage() {
     Array.from(proposals.values()).filter(p => p.messageId === streamingMessageIdRef.current);
 
   const isEmpty = messages.length === 0 && !streaming;
+  const activeConversation = conversations.find(c => c.id === activeConvId);
+  const ownsActive = !!activeConversation && (!activeConversation.ownerId || activeConversation.ownerId === userId);
 
   return (
-    <Box sx={{ display: "flex", flexDirection: "column", height: "calc(100vh - 48px)", maxWidth: 800, mx: "auto" }}>
-      {/* Header */}
-      <Box sx={{ display: "flex", alignItems: "center", gap: 1, py: 1.5, px: 1 }}>
-        <SmartToyIcon sx={{ color: "secondary.main" }} />
-        <Typography variant="subtitle1" fontWeight={600}>
-          {activeConvId ? conversations.find(c => c.id === activeConvId)?.title : "AI Assistant"}
-        </Typography>
-      </Box>
-
-      {/* Messages */}
-      <Box sx={{ flexGrow: 1, overflow: "auto", px: 2, py: 2 }}>
-        {isEmpty && (
-          <Fade in>
-            <Box sx={{ display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", height: "100%", gap: 3 }}>
-              <Box sx={{
-                width: 56, height: 56, borderRadius: "50%",
-                bgcolor: "rgba(38,166,154,0.1)", border: "2px solid rgba(38,166,154,0.2)",
-                display: "flex", alignItems: "center", justifyContent: "center",
-              }}>
-                <SmartToyIcon sx={{ fontSize: 28, color: "secondary.main" }} />
-              </Box>
-              <Box sx={{ textAlign: "center" }}>
-                <Typography variant="h6" fontWeight={600} sx={{ mb: 0.5 }}>What can I help with?</Typography>
-                <Typography variant="body2" color="text.secondary">
-                  Ask about workload, priorities, cycle progress, or anything about your team.
-                </Typography>
-              </Box>
-              <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, justifyContent: "center", maxWidth: 500 }}>
-                {SUGGESTIONS.map(s => (
-                  <Chip
-                    key={s}
-                    label={s}
-                    variant="outlined"
-                    onClick={() => handleSend(s)}
-                    sx={{
-                      cursor: "pointer", borderColor: "rgba(255,255,255,0.12)",
-                      "&:hover": { bgcolor: "rgba(255,255,255,0.04)", borderColor: "primary.main" },
-                    }}
-                  />
-                ))}
-              </Box>
-            </Box>
-          </Fade>
-        )}
-
-        {messages.map(msg => {
-          const msgProposals = msg.role === "assistant"
-            ? getProposalsForMessage(msg.id)
-            : [];
-          return msg.role === "user"
-            ? <UserMessage key={msg.id} content={msg.content} />
-            : <AssistantMessage
-                key={msg.id}
-                content={msg.content}
-                toolCalls={msg.toolCalls}
-                proposals={msgProposals}
-                onApprove={handleApprove}
-                onDecline={handleDecline}
-                onRetry={handleRetry}
-              />;
-        })}
-
-        {streaming && (
-          <StreamingMessage
-            content={streamContent}
-            tools={activeTools}
-            proposals={getStreamingProposals()}
-            onApprove={handleApprove}
-            onDecline={handleDecline}
-            onRetry={handleRetry}
+    <Box sx={{ display: "flex", height: "calc(100vh - 48px)" }}>
+      <ChatSidebar
+        conversations={conversations}
+        activeConvId={activeConvId}
+        userId={userId}
+        onUserChange={handleUserChange}
+        onSelect={id => setSearchParams({ c: id })}
+        onOpenHit={handleOpenHit}
+        onNew={() => setSearchParams({ new: "1" })}
+      />
+      <Box sx={{ display: "flex", flexDirection: "column", flex: 1, minWidth: 0, maxWidth: 800, mx: "auto" }}>
+        {/* Header */}
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, py: 1.5, px: 1 }}>
+          <SmartToyIcon sx={{ color: "secondary.main" }} />
+          {activeConversation ? (
+            <>
+              <ConversationTitle key={activeConversation.id} conversation={activeConversation} onUpdate={handleUpdateConversation} />
+              {ownsActive && <SharingControls conversation={activeConversation} onUpdate={handleUpdateConversation} />}
+            </>
+          ) : (
+            <Typography variant="subtitle1" fontWeight={600}>AI Assistant</Typography>
+          )}
+          {importError && (
+            <Typography variant="caption" color="error" noWrap sx={{ minWidth: 0 }}>
+              {importError}
+            </Typography>
+          )}
+          <FormControlLabel
+            control={<Switch size="small" checked={autoContinue} onChange={e => setAutoContinue(e.target.checked)} />}
+            label={<Typography variant="caption" color="text.secondary">Continue after approvals</Typography>}
+            sx={{ ml: "auto", mr: 0 }}
           />
-        )}
-
-        <div ref={messagesEndRef} />
-      </Box>
-
-      {/* Input */}
-      <Box sx={{ px: 2, pb: 2, pt: 1 }}>
-        <Paper sx={{
-          display: "flex", alignItems: "flex-end", gap: 1,
-          p: 1, bgcolor: "rgba(255,255,255,0.04)",
-          border: "1px solid rgba(255,255,255,0.1)",
-          borderRadius: 3,
-          "&:focus-within": { borderColor: "primary.main" },
-        }}>
-          <TextField
-            inputRef={inputRef}
-            fullWidth
-            placeholder="Ask anything..."
-            value={input}
-            onChange={e => setInput(e.target.value)}
-            onKeyDown={e => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
-            disabled={streaming}
-            multiline
-            maxRows={4}
-            variant="standard"
-            InputProps={{ disableUnderline: true }}
-            sx={{ "& .MuiInputBase-input": { py: 0.75, px: 1 } }}
-          />
-          <IconButton
-            onClick={() => handleSend()}
-            disabled={streaming || !input.trim()}
-            sx={{
-              bgcolor: input.trim() ? "primary.main" : "transparent",
-              color: input.trim() ? "white" : "text.secondary",
-              width: 36, height: 36,
-              "&:hover": { bgcolor: input.trim() ? "primary.dark" : "rgba(255,255,255,0.04)" },
-              "&.Mui-disabled": { bgcolor: "transparent" },
+          {activeConvId && (
+            <>
+              <Tooltip title="Export as Markdown">
+                <Button size="small" color="inherit" startIcon={<DownloadIcon />} href={conversationExportUrl(activeConvId, "md")} sx={{ fontSize: "0.75rem" }}>
+                  MD
+                </Button>
+              </Tooltip>
+              <Tooltip title="Export as JSON (re-importable)">
+                <Button size="small" color="inherit" startIcon={<DownloadIcon />} href={conversationExportUrl(activeConvId, "json")} sx={{ fontSize: "0.75rem" }}>
+                  JSON
+                </Button>
+              </Tooltip>
+            </>
+          )}
+          <Tooltip title="Import a JSON export">
+            <IconButton size="small" aria-label="Import conversation" onClick={() => importInputRef.current?.click()}>
+              <UploadFileIcon sx={{ fontSize: 18 }} />
+            </IconButton>
+          </Tooltip>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) handleImport(file);
             }}
-          >
-            <SendIcon sx={{ fontSize: 18 }} />
-          </IconButton>
-        </Paper>
+          />
+        </Box>
+
+        {/* Messages */}
+        <Box sx={{ flexGrow: 1, overflow: "auto", px: 2, py: 2 }}>
+          {isEmpty && (
+            <Fade in>
+              <Box sx={{ display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", height: "100%", gap: 3 }}>
+                <Box sx={{
+                  width: 56, height: 56, borderRadius: "50%",
+                  bgcolor: "rgba(38,166,154,0.1)", border: "2px solid rgba(38,166,154,0.2)",
+                  display: "flex", alignItems: "center", justifyContent: "center",
+                }}>
+                  <SmartToyIcon sx={{ fontSize: 28, color: "secondary.main" }} />
+                </Box>
+                <Box sx={{ textAlign: "center" }}>
+                  <Typography variant="h6" fontWeight={600} sx={{ mb: 0.5 }}>What can I help with?</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Ask about workload, priorities, cycle progress, or anything about your team.
+                  </Typography>
+                </Box>
+                <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, justifyContent: "center", maxWidth: 500 }}>
+                  {SUGGESTIONS.map(s => (
+                    <Chip
+                      key={s}
+                      label={s}
+                      variant="outlined"
+                      onClick={() => handleSend(s)}
+                      sx={{
+                        cursor: "pointer", borderColor: "rgba(255,255,255,0.12)",
+                        "&:hover": { bgcolor: "rgba(255,255,255,0.04)", borderColor: "primary.main" },
+                      }}
+                    />
+                  ))}
+                </Box>
+              </Box>
+            </Fade>
+          )}
+
+          {messages.map(msg => {
+            const msgProposals = msg.role === "assistant"
+              ? getProposalsForMessage(msg.id)
+              : [];
+            return msg.role === "user"
+              ? <UserMessage
+                  key={msg.id}
+                  message={msg}
+                  disabled={streaming}
+                  onEdit={handleEdit}
+                  onSwitchBranch={handleSwitchBranch}
+                />
+              : <AssistantMessage
+                  key={msg.id}
+                  message={msg}
+                  proposals={msgProposals}
+                  disabled={streaming}
+                  onApprove={handleApprove}
+                  onDecline={handleDecline}
+                  onRetry={handleRetry}
+                  onUndo={handleUndo}
+                  onRegenerate={handleRegenerate}
+                  onSwitchBranch={handleSwitchBranch}
+                />;
+          })}
+
+          {streaming && (
+            <StreamingMessage
+              content={streamContent}
+              tools={activeTools}
+              proposals={getStreamingProposals()}
+              onApprove={handleApprove}
+              onDecline={handleDecline}
+              onRetry={handleRetry}
+            />
+          )}
+
+          <div ref={messagesEndRef} />
+        </Box>
+
+        {/* Input */}
+        <Box sx={{ px: 2, pb: 2, pt: 1 }}>
+          <Paper sx={{
+            display: "flex", alignItems: "flex-end", gap: 1,
+            p: 1, bgcolor: "rgba(255,255,255,0.04)",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 3,
+            "&:focus-within": { borderColor: "primary.main" },
+          }}>
+            <TextField
+              inputRef={inputRef}
+              fullWidth
+              placeholder="Ask anything..."
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={e => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+              disabled={streaming}
+              multiline
+              maxRows={4}
+              variant="standard"
+              InputProps={{ disableUnderline: true }}
+              sx={{ "& .MuiInputBase-input": { py: 0.75, px: 1 } }}
+            />
+            {streaming ? (
+              <IconButton
+                onClick={handleStop}
+                aria-label="Stop generating"
+                sx={{
+                  bgcolor: "rgba(255,255,255,0.08)", color: "text.primary",
+                  width: 36, height: 36,
+                  "&:hover": { bgcolor: "rgba(255,255,255,0.16)" },
+                }}
+              >
+                <StopIcon sx={{ fontSize: 18 }} />
+              </IconButton>
+            ) : (
+              <IconButton
+                onClick={() => handleSend()}
+                disabled={!input.trim()}
+                sx={{
+                  bgcolor: input.trim() ? "primary.main" : "transparent",
+                  color: input.trim() ? "white" : "text.secondary",
+                  width: 36, height: 36,
+                  "&:hover": { bgcolor: input.trim() ? "primary.dark" : "rgba(255,255,255,0.04)" },
+                  "&.Mui-disabled": { bgcolor: "transparent" },
+                }}
+              >
+                <SendIcon sx={{ fontSize: 18 }} />
+              </IconButton>
+            )}
+          </Paper>
+        </Box>
       </Box>
     </Box>
   );
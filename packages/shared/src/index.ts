@@ -8,7 +8,7 @@ export type Difficulty = "XS" | "S" | "M" | "L" | "XL";
 
 export type SyncMode = "api" | "none";
 
-export type AiProvider = "openai" | "heuristic";
+export type AiProvider = "openai" | "openai-compatible" | "heuristic";
 
 // ─── Team Members ───
 
@@ -106,6 +106,43 @@ export type IssueWithState = {
   pullRequests?: PullRequest[];
 };
 
+export type IssueEventField = "status" | "assignee" | "estimate" | "priority" | "cycle" | "labels";
+
+/** One field change on an issue, recorded when a sync or webhook diffs against the stored row */
+export type IssueEvent = {
+  id: number;
+  issueId: string;
+  field: IssueEventField;
+  /** Display values (status name, assignee name, cycle name, label list, number) */
+  oldValue?: string;
+  newValue?: string;
+  /** Stable references behind the display value (status type, assignee ID, cycle ID) */
+  oldRef?: string;
+  newRef?: string;
+  /** Linear's updatedAt for the change */
+  changedAt: string;
+};
+
+export type IssueHistory = {
+  issueId: string;
+  identifier: string;
+  events: IssueEvent[];
+  /** A lower bound when no status change was recorded since the issue was first synced */
+  daysInStatus: number;
+  /** Days from first entering a started state to completion; undefined until completed */
+  cycleTimeDays?: number;
+};
+
+/** A Linear comment on a synced issue; comments arrive only through webhooks */
+export type IssueComment = {
+  id: string;
+  issueId: string;
+  body: string;
+  userName?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
 // ─── Cycles ───
 
 export type Cycle = {
@@ -118,11 +155,14 @@ export type Cycle = {
   totalScopeCount: number;
   progress: number;
   isActive: boolean;
+  teamId?: string;
+  teamKey?: string;
 };
 
 export type CycleDetail = {
   cycle: Cycle;
   burndown: BurndownPoint[];
+  scopeChanges: CycleScopeChange[];
   memberBreakdown: CycleMemberBreakdown[];
   rolloverRisk: RolloverRiskItem[];
 };
@@ -130,8 +170,18 @@ export type CycleDetail = {
 export type BurndownPoint = {
   date: string;
   ideal: number;
+  /** Remaining issues */
   actual: number;
   completed: number;
+  scope: number;
+  remainingPoints: number;
+};
+
+export type CycleScopeChange = {
+  date: string;
+  /** Identifiers of issues that joined / left the cycle since the previous snapshot */
+  added: string[];
+  removed: string[];
 };
 
 export type CycleMemberBreakdown = {
@@ -150,9 +200,40 @@ export type RolloverRiskItem = {
   assigneeName?: string;
   status: string;
   daysInStatus: number;
+  /** 0–100; higher means more likely to roll over */
+  score: number;
   reason: string;
 };
 
+// ─── Forecasting ───
+
+export type ForecastUnit = "issues" | "points";
+
+export type ForecastTarget =
+  | { type: "cycle"; id: string; name: string }
+  | { type: "project"; id: string; name: string }
+  | { type: "issues"; issueIds: string[] };
+
+export type ForecastResult = {
+  target: ForecastTarget;
+  unit: ForecastUnit;
+  /** Open work left, in `unit` */
+  remaining: number;
+  /** Calendar days of completion history sampled */
+  historyDays: number;
+  /** Total completed in the history window, in `unit` */
+  historyThroughput: number;
+  trials: number;
+  /** Completion dates (YYYY-MM-DD) at each confidence level; undefined if throughput is zero */
+  p50?: string;
+  p85?: string;
+  p95?: string;
+  /** Cycle end or project target date, when the target has one */
+  deadline?: string;
+  /** Share of trials finishing on or before the deadline (0–1) */
+  probabilityByDeadline?: number;
+};
+
 // ─── OKRs ───
 
 export type KeyResult = {
@@ -300,9 +381,27 @@ export type SyncStatus = {
 
 // ─── Chat ───
 
+/** Fixed taxonomy for grouping conversations */
+export type ConversationTag = "sprint" | "okr" | "customer" | "triage" | "reporting";
+
+/** Where the title came from; generated titles never replace a manual one */
+export type ConversationTitleSource = "default" | "generated" | "manual";
+
+/** Private conversations are only listed for their owner; team ones for everyone */
+export type ConversationVisibility = "private" | "team";
+
 export type ChatConversation = {
   id: string;
   title: string;
+  tags: ConversationTag[];
+  titleSource: ConversationTitleSource;
+  /** Team member (Linear user ID) who started it; conversations from before ownership have none */
+  ownerId?: string;
+  visibility: ConversationVisibility;
+  /** Pinned conversations are listed first */
+  pinned: boolean;
+  /** Last message of the branch currently shown; edits and regenerations move it */
+  activeLeafId?: string;
   createdAt: string;
   updatedAt: string;
 };
@@ -310,11 +409,17 @@ export type ChatConversation = {
 export type ChatMessage = {
   id: string;
   conversationId: string;
+  /** Previous message in the branch; undefined for the first message */
+  parentId?: string;
   role: "user" | "assistant" | "system";
   content: string;
   toolCalls?: ChatToolCall[];
   actionProposals?: ActionProposal[];
   matchedSkills?: SkillMatch[];
+  /** The user stopped this reply before it finished; content is partial */
+  cancelled?: boolean;
+  /** IDs of all versions of this turn (including this one), oldest first; set only when there is more than one */
+  siblingIds?: string[];
   createdAt: string;
 };
 
@@ -326,6 +431,7 @@ export type ChatToolCall = {
 };
 
 export type ChatStreamEvent =
+  | { type: "run_started"; runId: string }
   | { type: "delta"; content: string }
   | { type: "tool_call_start"; toolCall: { id: string; name: string } }
   | { type: "tool_call_result"; toolCall: { id: string; name: string; result: string } }
@@ -335,6 +441,45 @@ export type ChatStreamEvent =
   | { type: "done"; messageId: string }
   | { type: "error"; error: string };
 
+export type ChatSearchHit = {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: ChatMessage["role"];
+  /** Excerpt around the match */
+  snippet: string;
+  /** [start, end) character ranges in `snippet` that matched the query */
+  highlights: Array<[number, number]>;
+  /** False when the message sits on a branch that isn't currently shown */
+  onActiveBranch: boolean;
+  createdAt: string;
+};
+
+/** Portable copy of a conversation: every branch, tool call and proposal */
+export type ChatConversationExport = {
+  format: "linearapp.chat";
+  version: 1;
+  exportedAt: string;
+  conversation: ChatConversation;
+  /** All messages across branches, oldest first; `conversation.activeLeafId` marks the shown branch */
+  messages: ChatMessage[];
+  proposals: ActionProposal[];
+};
+
+export type ChatRunStatus = "running" | "completed" | "failed" | "cancelled";
+
+/** One assistant generation; its stream events are persisted so clients can reattach */
+export type ChatRun = {
+  id: string;
+  conversationId: string;
+  status: ChatRunStatus;
+  /** Assistant message saved by the run, once it has finished */
+  messageId?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
 // ─── Skills ───
 
 export type Skill = {
@@ -356,7 +501,7 @@ export type SkillMatch = {
 
 // ─── Action Proposals ───
 
-export type ActionState = "proposed" | "approved" | "declined" | "executing" | "succeeded" | "failed";
+export type ActionState = "proposed" | "approved" | "declined" | "executing" | "succeeded" | "failed" | "reverted" | "expired";
 
 export type ActionCategory = "linear" | "okr" | "internal";
 
@@ -366,6 +511,24 @@ export type ActionPreviewField = {
   newValue: string;
 };
 
+/** The fields of one target an action changes, as they were when it was proposed */
+export type ActionTargetSnapshot = {
+  kind: "issue" | "okr" | "key_result" | "client";
+  id: string;
+  /** Display name, e.g. an issue identifier */
+  label: string;
+  /** Display values; null when unset. A target that no longer exists has no snapshot on re-read */
+  fields: Record<string, string | null>;
+};
+
+/** A target field that changed between proposal and execution */
+export type ActionConflict = {
+  target: string;
+  field: string;
+  proposed: string | null;
+  current: string | null;
+};
+
 export type ActionProposal = {
   id: string;
   conversationId: string;
@@ -380,10 +543,125 @@ export type ActionProposal = {
   result?: string;
   resultUrl?: string;
   error?: string;
+  /** Set on failure: whether retrying unchanged may succeed (rate limit, timeout, 5xx) */
+  retryable?: boolean;
+  /** Proposed on a branch the user has since moved away from; can no longer be approved */
+  stale?: boolean;
+  /** Succeeded and recorded what it changed, so it can be undone */
+  undoable?: boolean;
+  /** Restored from a conversation export: history only, never approved, executed, retried or undone */
+  imported?: boolean;
+  /** The approval policy decision made when the action was proposed */
+  policy?: AppliedApprovalPolicy;
+  /** What the targets looked like when the action was (last) proposed */
+  snapshot?: ActionTargetSnapshot[];
+  /** Still proposed after this, it expires */
+  expiresAt?: string;
+  /** Changes to the targets found when it was about to execute; it went back for review */
+  conflicts?: ActionConflict[];
   createdAt: string;
   updatedAt: string;
 };
 
+/** One step in a proposal's life, recorded by the action state machine */
+export type ActionTransition = {
+  proposalId: string;
+  /** Absent for the initial proposal */
+  from?: ActionState;
+  to: ActionState;
+  /** Team member (Linear user ID) who caused it; absent for steps the server took on its own */
+  actorId?: string;
+  actorName?: string;
+  /** Result or error recorded with the step */
+  detail?: string;
+  at: string;
+};
+
+/** A proposal as listed in the action audit log */
+export type ActionAuditEntry = ActionProposal & {
+  /** Only set when the requester can see the conversation */
+  conversationTitle?: string;
+  /** Issue IDs or identifiers the action targeted or created */
+  affectedIssues: string[];
+  transitions: ActionTransition[];
+};
+
+/** Issue fields as they were before a write; only the fields the action set are present */
+export type IssueFieldsBefore = {
+  title?: string;
+  description?: string | null;
+  priority?: number;
+  assigneeId?: string | null;
+  stateId?: string;
+  labelIds?: string[];
+  projectId?: string | null;
+  cycleId?: string | null;
+};
+
+/**
+ * What a write tool changed, captured when it ran and stored with the proposal.
+ * Undo derives compensating mutations from it.
+ */
+export type ActionBeforeImage =
+  | { kind: "issue_fields"; issues: Array<{ issueId: string; identifier: string; fields: IssueFieldsBefore }> }
+  | { kind: "issue_created"; issueId: string; identifier: string }
+  | { kind: "issue_deleted"; issueId: string; identifier: string }
+  | { kind: "comment_created"; commentId: string; issueIdentifier: string }
+  | { kind: "project_created"; projectId: string; name: string }
+  /** Previous values of the project fields the action changed; archiving changes `state` */
+  | { kind: "project_fields"; projectId: string; name: string; fields: { name?: string; description?: string | null; state?: string } }
+  | { kind: "label_created"; labelId: string; name: string }
+  /** `okr` is null when the action created it */
+  | { kind: "okr"; okrId: string; okr: OkrDoc | null }
+  | { kind: "key_result"; keyResultId: string; currentValue: number }
+  | { kind: "client"; clientId: number; weight: number; notes?: string; contractValue?: number }
+  | { kind: "okr_link"; issueId: string; okrId?: string; okrObjective?: string };
+
+// ─── Approval Policies ───
+
+/**
+ * What a matching policy does with a proposal; "require_approval" is the default single click.
+ * "require_second_approver" tells approvers apart by the member each browser says it is
+ * (X-User-Id), which isn't authenticated: it guards against slips, not a member acting alone.
+ */
+export type ApprovalPolicyEffect = "auto_approve" | "require_approval" | "require_confirmation" | "require_second_approver" | "block";
+
+/** Every condition that is set must hold; an empty match applies to all write tools */
+export type ApprovalPolicyMatch = {
+  toolNames?: string[];
+  categories?: ActionCategory[];
+  destructive?: boolean;
+  /** Number of issues the call targets (1 for single-issue tools) */
+  minBatchSize?: number;
+  maxBatchSize?: number;
+  /** Matches when the call sets any of these arguments, e.g. "status" or "assigneeName" */
+  fields?: string[];
+};
+
+export type ApprovalPolicy = {
+  id: string;
+  name: string;
+  description?: string;
+  /** Lower is evaluated first; the first enabled match decides */
+  priority: number;
+  enabled: boolean;
+  match: ApprovalPolicyMatch;
+  effect: ApprovalPolicyEffect;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AppliedApprovalPolicy = {
+  /** Absent when no policy matched and the default applied */
+  policyId?: string;
+  policyName?: string;
+  effect: ApprovalPolicyEffect;
+  /** require_confirmation: what the approver has to type */
+  confirmationText?: string;
+  /** require_second_approver: members who have approved so far */
+  approvals?: string[];
+};
+
 // ─── Enrichment ───
 
 export type EnrichmentResult = {